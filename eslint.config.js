@@ -2,6 +2,9 @@ import antfu from '@antfu/eslint-config'
 
 export default antfu(
   {
+    // `vue` is a dev dependency for the `stream-monaco/vue` entry; keep the
+    // example apps' SFCs out of the root lint as before.
+    vue: false,
     ignores: [
       // eslint ignore globs here
       'examples/streaming-demo/src/shims-vue.d.ts',
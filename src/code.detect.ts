@@ -153,6 +153,33 @@ export function processedLanguage(language: string) {
   return language.split(':')[0]
 }
 
+// Monaco ids for the short names `detectLanguage` returns and for common
+// fence info strings.
+const monacoLanguageAliases: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  pl: 'perl',
+  rs: 'rust',
+  md: 'markdown',
+  yml: 'yaml',
+  make: 'makefile',
+  docker: 'dockerfile',
+  plain: 'plaintext',
+  text: 'plaintext',
+  txt: 'plaintext',
+  uri: 'plaintext',
+}
+
+/**
+ * Resolve a fence info string word or a `detectLanguage` result to the
+ * language id used for the Monaco model.
+ */
+export function resolveMonacoLanguage(language: string) {
+  const processed = processedLanguage(language)
+  return monacoLanguageAliases[processed.toLowerCase()] ?? processed
+}
+
 /**
  * 使用示例:
  *
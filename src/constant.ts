@@ -1,4 +1,4 @@
-import type { MonacoTheme } from './type'
+import type { MonacoEventName, MonacoTheme } from './type'
 
 export const defaultLanguages = [
   'jsx',
@@ -61,6 +61,10 @@ export const defaultRevealDebounceMs = 75
 // the final "scroll to bottom" until this idle period has passed. A higher
 // value reduces layout churn during rapid streaming. Default: 200ms.
 export const defaultRevealBatchOnIdleMs = 200
+// Hide the streaming indicator once no content arrived for this long.
+export const defaultStreamingIndicatorIdleMs = 1000
+// Fade-out duration of the `streamingHighlight` background.
+export const defaultStreamingHighlightMs = 1200
 // When strings exceed this length, avoid expensive character-by-character
 // minimal edit computation and instead perform a full model.setValue(). This
 // avoids O(n) CPU on extremely large documents during frequent updates.
@@ -68,3 +72,17 @@ export const minimalEditMaxChars = 200_000
 // If the absolute length difference between prev and next exceeds this ratio
 // of the larger string, prefer full setValue to avoid long scans.
 export const minimalEditMaxChangeRatio = 0.5
+// Time budget for the line diff behind multi-range minimal edits; past it
+// the edit falls back to replacing the changed middle in one piece.
+export const minimalEditTimeBudgetMs = 8
+// Every event `useMonaco().on` accepts; framework wrappers forward all of them.
+export const monacoEventNames: readonly MonacoEventName[] = [
+  'flush',
+  'autoScrollPaused',
+  'autoScrollResumed',
+  'heightChanged',
+  'diffComputed',
+  'themeApplied',
+  'userEdit',
+  'disposed',
+]
@@ -1,15 +1,28 @@
 import type {
+  DiffCheckpoint,
   DiffHunkActionContext,
   DiffHunkActionKind,
+  DiffHunkReviewDecision,
   DiffHunkSide,
   DiffModelPair,
   DiffModelTransitionOptions,
+  DiffReviewHunk,
+  DiffReviewResult,
   DiffUnchangedRegionStyle,
+  EndStreamOptions,
+  MonacoEventMap,
   MonacoLanguage,
   MonacoOptions,
   MonacoTheme,
+  SearchReplaceBlock,
+  UnifiedPatchOptions,
 } from '../type'
+import type { EventEmitter } from '../utils/events'
 import type { DiffEditorSide } from './diffHunk'
+import type { InsertHighlighter } from './insertHighlight'
+import type { SearchReplaceChunkResult, SearchReplaceStream } from './searchReplace'
+import type { StreamingIndicator } from './streamingIndicator'
+import type { UnifiedPatchApplier, UnifiedPatchBodyStream, UnifiedPatchSideDeltas } from './unifiedPatch'
 import { processedLanguage } from '../code.detect'
 import {
   defaultRevealBatchOnIdleMs,
@@ -18,7 +31,7 @@ import {
   minimalEditMaxChangeRatio,
   minimalEditMaxChars,
 } from '../constant'
-import { computeMinimalEdit } from '../minimalEdit'
+import { computeMinimalEdits } from '../minimalEdit'
 import * as monaco from '../monaco-shim'
 import {
   createHeightManager,
@@ -26,9 +39,13 @@ import {
 import { log } from '../utils/logger'
 import { createRafScheduler } from '../utils/raf'
 import { createScrollWatcherForEditor } from '../utils/scroll'
+import { acquireStyle } from '../utils/style'
 import {
   countLineBreaks,
+  utf8ByteLength,
 } from '../utils/textChunks'
+import { retokenizeModel } from '../utils/tokenization'
+import { diffUiCss, diffUiStyleId } from './chromeStyles'
 import {
   applyDiffRootAppearanceClass,
   resolveDiffUnchangedLineInfoRailMetrics,
@@ -36,13 +53,20 @@ import {
 import {
   applyDefaultDiffHunkAction,
   createDiffHunkActionNode,
+  findDiffHunkIndexAtLine,
   findLineChangeByHoverLine,
+  formatDiffHunkCounterLabel,
+  getDiffHunkModifiedAnchorLine,
+  getDiffHunkReviewKey,
   hasModifiedLines,
   hasOriginalLines,
   inferInlineDiffHunkHoverSide,
+  mergeReviewedDiffHunks,
   positionDiffHunkNode,
+  setDiffHunkNodeDecision,
   setDiffHunkNodeEnabled,
 } from './diffHunk'
+import { computeLineChanges, resolveDiffHunkLineRanges } from './diffLineChanges'
 import {
   formatDiffUnchangedCountLabel,
   resolveDiffUnchangedMergeRole,
@@ -84,6 +108,16 @@ import {
   revealEditorLine,
   waitForElementHeightApplied,
 } from './diffViewport'
+import { createInsertHighlighter } from './insertHighlight'
+import { getEditsByteDelta, toEditOperations } from './modelEdits'
+import { createSearchReplaceStream } from './searchReplace'
+import { createStreamingIndicator } from './streamingIndicator'
+import {
+  applyUnifiedPatch,
+  createUnifiedPatchApplier,
+  createUnifiedPatchBodyStream,
+  formatUnifiedPatch,
+} from './unifiedPatch'
 
 interface DiffUnchangedBridgeEntry {
   key: string | null
@@ -98,7 +132,6 @@ interface DiffUnchangedBridgeEntry {
 }
 
 export class DiffEditorManager {
-  private static readonly diffUiStyleId = 'stream-monaco-diff-ui-style'
   private static readonly diffLineStyleClasses = [
     'stream-monaco-diff-style-background',
     'stream-monaco-diff-style-bar',
@@ -127,6 +160,8 @@ export class DiffEditorManager {
   private originalModelOwned = false
   private modifiedModelOwned = false
   private lastContainer: HTMLElement | null = null
+  private diffUiStyleTarget: HTMLElement | null = null
+  private releaseDiffUiStyle: (() => void) | null = null
 
   private lastKnownOriginalCode: string | null = null
   private lastKnownModifiedCode: string | null = null
@@ -193,8 +228,31 @@ export class DiffEditorManager {
   private diffUpdateThrottleMs = 50
   private lastAppendFlushTimeDiff = 0
   private appendFlushThrottleTimerDiff: number | null = null
+  // `readOnly` before `beginStream()`; null when no stream is active.
+  private readOnlyBeforeStreamDiff: boolean | null = null
+  // Large appends are applied in chunks across frames; `flush()` waits for it.
+  private appendFlushInFlightDiff: Promise<void> | null = null
+  // Bumped by rollbackTo() so a chunked append in progress stops early.
+  private appendFlushGenerationDiff = 0
+  private streamingIndicator: StreamingIndicator | null = null
+  private insertHighlighter: InsertHighlighter | null = null
 
   private rafScheduler = createRafScheduler()
+  // State of `appendPatchChunk`. `base` is the original the patch applies to;
+  // null when the diff started empty and both sides come from hunk bodies.
+  private patchStream: {
+    body: UnifiedPatchBodyStream
+    base: string | null
+    applier: UnifiedPatchApplier | null
+  } | null = null
+
+  // State of `appendSearchReplaceChunk`, applied to the original it started
+  // from.
+  private searchReplaceStream: {
+    stream: SearchReplaceStream
+    base: string
+  } | null = null
+
   private diffHeightManager: ReturnType<typeof createHeightManager> | null
     = null
 
@@ -212,6 +270,15 @@ export class DiffEditorManager {
   } | null = null
 
   private diffHunkActionInFlight = false
+  // Review decisions keyed by the hunk's line ranges, so they survive
+  // recomputed line changes as long as the hunk itself is unchanged.
+  private diffReviewDecisions = new Map<string, DiffHunkReviewDecision>()
+  private diffReviewOriginalDecorationIds: string[] = []
+  private diffReviewModifiedDecorationIds: string[] = []
+  private diffHunkNavigationDisposables: monaco.IDisposable[] = []
+  private diffHunkCounterNode: HTMLDivElement | null = null
+  // Hunk last moved to by goToNextHunk/goToPreviousHunk.
+  private diffHunkNavigationIndex = -1
   private diffComputedVersions: {
     original: number
     modified: number
@@ -331,6 +398,7 @@ export class DiffEditorManager {
     private diffAutoScroll: boolean,
     private revealDebounceMsOption?: number,
     private diffUpdateThrottleMsOption?: number,
+    private events?: EventEmitter<MonacoEventMap>,
   ) {
     this.minimalEditMaxCharsValue
       = (this.options as any).minimalEditMaxChars
@@ -427,6 +495,18 @@ export class DiffEditorManager {
     })
   }
 
+  private disposeDiffHunkNavigation() {
+    for (const d of this.diffHunkNavigationDisposables) {
+      try {
+        d.dispose()
+      }
+      catch {}
+    }
+    this.diffHunkNavigationDisposables.length = 0
+    this.diffHunkCounterNode?.remove()
+    this.diffHunkCounterNode = null
+  }
+
   private disposeDiffHunkInteractions() {
     if (this.diffHunkHideTimer != null) {
       clearTimeout(this.diffHunkHideTimer)
@@ -437,6 +517,18 @@ export class DiffEditorManager {
     this.diffHunkLineChanges = []
     this.diffHunkFallbackLineChanges = []
     this.diffHunkFallbackVersions = null
+    if (
+      this.diffReviewOriginalDecorationIds.length
+      || this.diffReviewModifiedDecorationIds.length
+    ) {
+      try {
+        this.diffEditorView?.getOriginalEditor().deltaDecorations(this.diffReviewOriginalDecorationIds, [])
+        this.diffEditorView?.getModifiedEditor().deltaDecorations(this.diffReviewModifiedDecorationIds, [])
+      }
+      catch {}
+      this.diffReviewOriginalDecorationIds = []
+      this.diffReviewModifiedDecorationIds = []
+    }
 
     if (this.diffHunkDisposables.length > 0) {
       for (const d of this.diffHunkDisposables) {
@@ -456,94 +548,6 @@ export class DiffEditorManager {
     this.diffHunkLowerNode = null
   }
 
-  private computeLineChangesFallback(
-    originalModel: monaco.editor.ITextModel,
-    modifiedModel: monaco.editor.ITextModel,
-  ): monaco.editor.ILineChange[] {
-    const original = originalModel.getValue().split(/\r?\n/)
-    const modified = modifiedModel.getValue().split(/\r?\n/)
-    const n = original.length
-    const m = modified.length
-    if (n === 0 && m === 0)
-      return []
-
-    // Bound worst-case CPU/memory for fallback mode.
-    const maxCells = 1_500_000
-    if ((n + 1) * (m + 1) > maxCells) {
-      return originalModel.getValue() === modifiedModel.getValue()
-        ? []
-        : [
-            {
-              originalStartLineNumber: 1,
-              originalEndLineNumber: n,
-              modifiedStartLineNumber: 1,
-              modifiedEndLineNumber: m,
-              charChanges: [],
-            },
-          ]
-    }
-
-    const cols = m + 1
-    const dp = new Uint32Array((n + 1) * (m + 1))
-    for (let i = 1; i <= n; i++) {
-      for (let j = 1; j <= m; j++) {
-        const idx = i * cols + j
-        if (original[i - 1] === modified[j - 1]) {
-          dp[idx] = dp[(i - 1) * cols + (j - 1)] + 1
-        }
-        else {
-          const top = dp[(i - 1) * cols + j]
-          const left = dp[i * cols + (j - 1)]
-          dp[idx] = top >= left ? top : left
-        }
-      }
-    }
-
-    const matches: Array<{ o: number, m: number }> = []
-    let i = n
-    let j = m
-    while (i > 0 && j > 0) {
-      if (original[i - 1] === modified[j - 1]) {
-        matches.push({ o: i, m: j })
-        i--
-        j--
-      }
-      else {
-        const top = dp[(i - 1) * cols + j]
-        const left = dp[i * cols + (j - 1)]
-        if (top >= left)
-          i--
-        else j--
-      }
-    }
-    matches.reverse()
-    matches.push({ o: n + 1, m: m + 1 })
-
-    const lineChanges: monaco.editor.ILineChange[] = []
-    let prevO = 1
-    let prevM = 1
-    for (const match of matches) {
-      const oStart = prevO
-      const oEnd = match.o - 1
-      const mStart = prevM
-      const mEnd = match.m - 1
-      const hasOriginal = oStart <= oEnd
-      const hasModified = mStart <= mEnd
-      if (hasOriginal || hasModified) {
-        lineChanges.push({
-          originalStartLineNumber: hasOriginal ? oStart : oStart,
-          originalEndLineNumber: hasOriginal ? oEnd : oStart - 1,
-          modifiedStartLineNumber: hasModified ? mStart : mStart,
-          modifiedEndLineNumber: hasModified ? mEnd : mStart - 1,
-          charChanges: [],
-        })
-      }
-      prevO = match.o + 1
-      prevM = match.m + 1
-    }
-    return lineChanges
-  }
-
   private getEffectiveLineChanges() {
     if (!this.diffEditorView)
       return []
@@ -570,9 +574,9 @@ export class DiffEditorManager {
       return this.diffHunkFallbackLineChanges
     }
 
-    this.diffHunkFallbackLineChanges = this.computeLineChangesFallback(
-      this.originalModel,
-      this.modifiedModel,
+    this.diffHunkFallbackLineChanges = computeLineChanges(
+      this.originalModel.getValue(),
+      this.modifiedModel.getValue(),
     )
     this.diffHunkFallbackVersions = versions
     return this.diffHunkFallbackLineChanges
@@ -1153,1245 +1157,15 @@ export class DiffEditorManager {
     this.rafScheduler.cancel('sync-diff-presentation')
   }
 
+  // Shared per shadow root (or document) and released in `cleanup()`, so
+  // the chrome styles leave with the last diff editor of that root.
   private ensureDiffUiStyle() {
-    if (typeof document === 'undefined')
+    const target = this.lastContainer
+    if (this.releaseDiffUiStyle && this.diffUiStyleTarget === target)
       return
-    if (document.getElementById(DiffEditorManager.diffUiStyleId))
-      return
-    const style = document.createElement('style')
-    style.id = DiffEditorManager.diffUiStyleId
-    style.textContent = `
-.stream-monaco-diff-root {
-  --stream-monaco-editor-fg: var(--vscode-editor-foreground, #111827);
-  --stream-monaco-editor-bg: var(--vscode-editor-background, #fff);
-  --stream-monaco-unchanged-fg: var(--vscode-diffEditor-unchangedRegionForeground, var(--stream-monaco-editor-fg));
-  --stream-monaco-unchanged-bg: var(--vscode-diffEditor-unchangedRegionBackground, transparent);
-  --stream-monaco-gutter-marker-width: 4px;
-  --stream-monaco-gutter-gap: 16px;
-  --stream-monaco-widget-shadow: var(--vscode-widget-shadow, rgb(15 23 42 / 26%));
-  --stream-monaco-focus: var(--vscode-focusBorder, color-mix(in srgb, var(--stream-monaco-editor-fg) 56%, transparent));
-  --stream-monaco-frame-radius: 20px;
-  --stream-monaco-frame-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  --stream-monaco-frame-shadow: 0 28px 60px -46px var(--stream-monaco-widget-shadow);
-  --stream-monaco-panel-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 9%, transparent);
-  --stream-monaco-pane-divider: var(--stream-monaco-panel-border);
-  --stream-monaco-line-number: color-mix(in srgb, var(--stream-monaco-editor-fg) 34%, transparent);
-  --stream-monaco-line-number-active: color-mix(in srgb, var(--stream-monaco-editor-fg) 46%, transparent);
-  --stream-monaco-line-number-left: calc(
-    var(--stream-monaco-gutter-marker-width) + var(--stream-monaco-gutter-gap)
-  );
-  --stream-monaco-line-number-width: 36px;
-  --stream-monaco-line-number-align: center;
-  --stream-monaco-original-margin-width: calc(
-    var(--stream-monaco-line-number-left) +
-      var(--stream-monaco-line-number-width)
-  );
-  --stream-monaco-original-scrollable-left: var(
-    --stream-monaco-original-margin-width
-  );
-  --stream-monaco-original-scrollable-width: calc(
-    100% - var(--stream-monaco-original-margin-width)
-  );
-  --stream-monaco-modified-margin-width: calc(
-    var(--stream-monaco-line-number-left) +
-      var(--stream-monaco-line-number-width)
-  );
-  --stream-monaco-modified-scrollable-left: var(
-    --stream-monaco-modified-margin-width
-  );
-  --stream-monaco-modified-scrollable-width: calc(
-    100% - var(--stream-monaco-modified-margin-width)
-  );
-  --stream-monaco-panel-bg:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 97%, white 3%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 92%, var(--stream-monaco-editor-fg) 8%) 100%
-    );
-  --stream-monaco-panel-bg-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, var(--stream-monaco-editor-fg) 6%);
-  --stream-monaco-panel-bg-strong: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
-  --stream-monaco-gutter-bg:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 92%, var(--stream-monaco-editor-fg) 8%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
-    );
-  --stream-monaco-gutter-guide: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
-  --stream-monaco-surface: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 76%, var(--stream-monaco-editor-bg) 24%);
-  --stream-monaco-surface-hover: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 64%, var(--stream-monaco-editor-bg) 36%);
-  --stream-monaco-surface-soft: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 55%, transparent);
-  --stream-monaco-border: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 18%, transparent);
-  --stream-monaco-border-strong: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 30%, transparent);
-  --stream-monaco-muted: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 70%, transparent);
-  --stream-monaco-added-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-insertedLineBackground, #14b8a6) 78%, #0f766e 22%);
-  --stream-monaco-added-line: color-mix(in srgb, var(--vscode-diffEditor-insertedLineBackground, #ddfbe8) 88%, var(--stream-monaco-editor-bg) 12%);
-  --stream-monaco-added-inline: color-mix(in srgb, var(--vscode-diffEditor-insertedTextBackground, #baf5d1) 92%, var(--stream-monaco-editor-bg) 8%);
-  --stream-monaco-added-border: color-mix(in srgb, var(--stream-monaco-added-fg) 24%, transparent);
-  --stream-monaco-added-outline: var(--stream-monaco-added-border);
-  --stream-monaco-added-inline-border: var(--stream-monaco-added-border);
-  --stream-monaco-added-line-shadow:
-    inset 4px 0 0 var(--stream-monaco-added-fg),
-    inset 0 0 0 1px var(--stream-monaco-added-outline);
-  --stream-monaco-added-line-fill:
-    linear-gradient(
-      90deg,
-      color-mix(in srgb, var(--stream-monaco-added-line) 94%, var(--stream-monaco-editor-bg) 6%) 0%,
-      color-mix(in srgb, var(--stream-monaco-added-line) 82%, transparent) 100%
-    );
-  --stream-monaco-added-gutter:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-added-fg) 0 4px,
-      color-mix(in srgb, var(--stream-monaco-added-line) 82%, transparent) 4px 100%
-    );
-  --stream-monaco-removed-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-removedLineBackground, #f43f5e) 74%, #dc2626 26%);
-  --stream-monaco-removed-line: color-mix(in srgb, var(--vscode-diffEditor-removedLineBackground, #fde8ec) 88%, var(--stream-monaco-editor-bg) 12%);
-  --stream-monaco-removed-inline: color-mix(in srgb, var(--vscode-diffEditor-removedTextBackground, #fecdd6) 92%, var(--stream-monaco-editor-bg) 8%);
-  --stream-monaco-removed-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 24%, transparent);
-  --stream-monaco-removed-outline: var(--stream-monaco-removed-border);
-  --stream-monaco-removed-inline-border: var(--stream-monaco-removed-border);
-  --stream-monaco-removed-line-shadow:
-    inset 4px 0 0 var(--stream-monaco-removed-fg),
-    inset 0 0 0 1px var(--stream-monaco-removed-outline);
-  --stream-monaco-removed-line-fill:
-    linear-gradient(
-      90deg,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 94%, var(--stream-monaco-editor-bg) 6%) 0%,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 82%, transparent) 100%
-    );
-  --stream-monaco-removed-gutter:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-removed-fg) 0 4px,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 82%, transparent) 4px 100%
-    );
-  scrollbar-width: none;
-  color-scheme: light;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark {
-  --stream-monaco-frame-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 16%, transparent);
-  --stream-monaco-frame-shadow: 0 30px 60px -42px rgb(2 6 23 / 0.78);
-  --stream-monaco-panel-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 15%, transparent);
-  --stream-monaco-pane-divider: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  --stream-monaco-panel-bg:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, black 6%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, var(--stream-monaco-editor-fg) 18%) 100%
-    );
-  --stream-monaco-panel-bg-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 86%, var(--stream-monaco-editor-fg) 14%);
-  --stream-monaco-panel-bg-strong: color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-editor-fg) 22%);
-  --stream-monaco-gutter-bg:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, black 16%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 76%, var(--stream-monaco-editor-fg) 24%) 100%
-    );
-  --stream-monaco-gutter-guide: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  --stream-monaco-surface: color-mix(in srgb, var(--stream-monaco-editor-bg) 91%, var(--stream-monaco-unchanged-fg) 9%);
-  --stream-monaco-surface-hover: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-unchanged-fg) 16%);
-  --stream-monaco-surface-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-unchanged-fg) 22%);
-  --stream-monaco-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 22%, transparent);
-  --stream-monaco-border-strong: color-mix(in srgb, var(--stream-monaco-editor-fg) 30%, transparent);
-  --stream-monaco-muted: color-mix(in srgb, var(--stream-monaco-editor-fg) 72%, transparent);
-  --stream-monaco-added-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-insertedLineBackground, #2dd4bf) 88%, #99f6e4 12%);
-  --stream-monaco-added-line: color-mix(in srgb, var(--vscode-diffEditor-insertedLineBackground, rgb(16 185 129 / 0.24)) 54%, var(--stream-monaco-editor-bg) 46%);
-  --stream-monaco-added-inline: color-mix(in srgb, var(--vscode-diffEditor-insertedTextBackground, rgb(45 212 191 / 0.26)) 62%, var(--stream-monaco-editor-bg) 38%);
-  --stream-monaco-added-border: color-mix(in srgb, var(--stream-monaco-added-fg) 32%, transparent);
-  --stream-monaco-added-outline: color-mix(in srgb, var(--stream-monaco-added-fg) 20%, transparent);
-  --stream-monaco-added-inline-border: color-mix(in srgb, var(--stream-monaco-added-fg) 26%, transparent);
-  --stream-monaco-added-line-shadow:
-    inset 4px 0 0 var(--stream-monaco-added-fg),
-    inset 0 0 0 1px var(--stream-monaco-added-outline);
-  --stream-monaco-added-line-fill:
-    linear-gradient(
-      90deg,
-      color-mix(in srgb, var(--stream-monaco-added-line) 96%, var(--stream-monaco-editor-bg) 4%) 0%,
-      color-mix(in srgb, var(--stream-monaco-added-line) 74%, transparent) 100%
-    );
-  --stream-monaco-added-gutter:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-added-fg) 0 4px,
-      color-mix(in srgb, var(--stream-monaco-added-line) 74%, transparent) 4px 100%
-    );
-  --stream-monaco-removed-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-removedLineBackground, #fb7185) 86%, #fecdd3 14%);
-  --stream-monaco-removed-line: color-mix(in srgb, var(--vscode-diffEditor-removedLineBackground, rgb(244 63 94 / 0.22)) 54%, var(--stream-monaco-editor-bg) 46%);
-  --stream-monaco-removed-inline: color-mix(in srgb, var(--vscode-diffEditor-removedTextBackground, rgb(251 113 133 / 0.24)) 62%, var(--stream-monaco-editor-bg) 38%);
-  --stream-monaco-removed-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 32%, transparent);
-  --stream-monaco-removed-outline: color-mix(in srgb, var(--stream-monaco-removed-fg) 20%, transparent);
-  --stream-monaco-removed-inline-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 26%, transparent);
-  --stream-monaco-removed-line-shadow:
-    inset 4px 0 0 var(--stream-monaco-removed-fg),
-    inset 0 0 0 1px var(--stream-monaco-removed-outline);
-  --stream-monaco-removed-line-fill:
-    linear-gradient(
-      90deg,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 96%, var(--stream-monaco-editor-bg) 4%) 0%,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 74%, transparent) 100%
-    );
-  --stream-monaco-removed-gutter:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-removed-fg) 0 4px,
-      color-mix(in srgb, var(--stream-monaco-removed-line) 74%, transparent) 4px 100%
-    );
-  color-scheme: dark;
-}
-.stream-monaco-diff-root::-webkit-scrollbar {
-  width: 0;
-  height: 0;
-  display: none;
-}
-.stream-monaco-diff-root .monaco-diff-editor {
-  overflow: hidden;
-  background: var(--stream-monaco-panel-bg);
-  box-shadow: var(--stream-monaco-frame-shadow);
-}
-.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.original .scrollbar.vertical,
-.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.modified .scrollbar.vertical {
-  display: none !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor.side-by-side {
-  background:
-    radial-gradient(circle at top center, color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, white 18%) 0%, transparent 44%),
-    var(--stream-monaco-panel-bg);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor.side-by-side {
-  background:
-    radial-gradient(circle at top center, color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, black 12%) 0%, transparent 48%),
-    var(--stream-monaco-panel-bg);
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.original,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified {
-  background:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 98%, white 2%) 0%,
-      var(--stream-monaco-editor-bg) 100%
-    );
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .editor.original,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .editor.modified {
-  background:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, black 6%) 0%,
-      var(--stream-monaco-editor-bg) 100%
-    );
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .monaco-editor-background,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-overlays,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-zones,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .lines-content,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .monaco-editor-background,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-overlays,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-zones,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .lines-content {
-  background: var(--stream-monaco-editor-bg) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.modified {
-  box-shadow: none;
-  border-left: 1px solid var(--stream-monaco-pane-divider);
-}
-.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.original {
-  box-shadow: none;
-  border-right: 1px solid var(--stream-monaco-pane-divider);
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter {
-  background: var(--stream-monaco-gutter-bg);
-  border-inline: 1px solid var(--stream-monaco-pane-divider);
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter .background {
-  left: 50%;
-  width: 1px;
-  border-left: 0 !important;
-  background: var(--stream-monaco-gutter-guide);
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter .buttons .monaco-toolbar .monaco-action-bar .actions-container {
-  border-radius: 999px;
-  border: 1px solid var(--stream-monaco-panel-border);
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%);
-  box-shadow: 0 14px 24px -18px var(--stream-monaco-widget-shadow);
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter .buttons .monaco-toolbar .monaco-action-bar .actions-container .action-item {
-  border-radius: 999px;
-}
-.stream-monaco-diff-root .monaco-diff-editor .insert-sign,
-.stream-monaco-diff-root .monaco-diff-editor .delete-sign {
-  display: none !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter-insert {
-  background: var(--stream-monaco-added-gutter) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .gutter-delete,
-.stream-monaco-diff-root .monaco-editor .inline-deleted-margin-view-zone {
-  background: var(--stream-monaco-removed-gutter) !important;
-}
-.stream-monaco-diff-root .monaco-editor .line-insert,
-.stream-monaco-diff-root .monaco-diff-editor .line-insert {
-  background: var(--stream-monaco-added-line-fill) !important;
-  border: 0 !important;
-  box-shadow: var(--stream-monaco-added-line-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .line-delete,
-.stream-monaco-diff-root .monaco-diff-editor .line-delete {
-  background: var(--stream-monaco-removed-line-fill) !important;
-  border: 0 !important;
-  box-shadow: var(--stream-monaco-removed-line-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .char-insert,
-.stream-monaco-diff-root .monaco-diff-editor .char-insert {
-  background: var(--stream-monaco-added-inline) !important;
-  border: 1px solid var(--stream-monaco-added-inline-border) !important;
-  border-radius: 6px;
-  box-shadow: inset 0 -1px 0 color-mix(in srgb, var(--stream-monaco-added-fg) 18%, transparent);
-}
-.stream-monaco-diff-root .monaco-editor .char-delete,
-.stream-monaco-diff-root .monaco-diff-editor .char-delete,
-.stream-monaco-diff-root .monaco-editor .inline-deleted-text {
-  background: var(--stream-monaco-removed-inline) !important;
-  border: 1px solid var(--stream-monaco-removed-inline-border) !important;
-  border-radius: 6px;
-  box-shadow: inset 0 -1px 0 color-mix(in srgb, var(--stream-monaco-removed-fg) 18%, transparent);
-}
-.stream-monaco-diff-root .monaco-editor .inline-deleted-text {
-  text-decoration: none;
-}
-.stream-monaco-diff-root .monaco-editor .char-insert.diff-range-empty,
-.stream-monaco-diff-root .monaco-editor .char-delete.diff-range-empty {
-  min-width: 2px;
-  margin: 0 1px;
-  border-radius: 999px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-insert,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-insert,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-delete,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-delete,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .char-insert,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .char-insert,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .char-delete,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .char-delete,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .inline-deleted-text,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .gutter-insert,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .gutter-delete,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .inline-deleted-margin-view-zone {
-  background: transparent !important;
-  border-color: transparent !important;
-  box-shadow: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-delete.line-numbers,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-delete.line-numbers,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-insert.line-numbers,
-.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-insert.line-numbers {
-  color: var(--stream-monaco-line-number) !important;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-insert,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-insert {
-  background: var(--stream-monaco-added-line-fill) !important;
-  border: 0 !important;
-  box-shadow: var(--stream-monaco-added-line-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-delete,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-delete {
-  background: var(--stream-monaco-removed-line-fill) !important;
-  border: 0 !important;
-  box-shadow: var(--stream-monaco-removed-line-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-zone {
-  box-sizing: border-box;
-  width: 100%;
-  pointer-events: none;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-line {
-  box-sizing: border-box;
-  width: 100%;
-  overflow: hidden;
-  white-space: pre;
-  color: inherit;
-  background: var(--stream-monaco-removed-line-fill);
-  box-shadow: var(--stream-monaco-removed-line-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-margin {
-  box-sizing: border-box;
-  width: 100%;
-  background: var(--stream-monaco-removed-gutter);
-  pointer-events: none;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-zone,
-.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-line,
-.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-margin {
-  display: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-gutter-insert,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-gutter-insert {
-  background: var(--stream-monaco-added-gutter) !important;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-gutter-delete,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-gutter-delete {
-  background: var(--stream-monaco-removed-gutter) !important;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-number-delete,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-number-delete {
-  color: var(--stream-monaco-removed-fg) !important;
-}
-.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-number-insert,
-.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-number-insert {
-  color: var(--stream-monaco-added-fg) !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .gutter-insert {
-  background:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-added-fg) 0 4px,
-      transparent 4px 100%
-    ) !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .gutter-delete,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .inline-deleted-margin-view-zone {
-  background:
-    linear-gradient(
-      90deg,
-      var(--stream-monaco-removed-fg) 0 4px,
-      transparent 4px 100%
-    ) !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .line-insert,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .line-insert {
-  background:
-    color-mix(in srgb, var(--stream-monaco-added-line) 34%, transparent) !important;
-  box-shadow: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .line-delete,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .line-delete {
-  background:
-    color-mix(in srgb, var(--stream-monaco-removed-line) 34%, transparent) !important;
-  box-shadow: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .char-insert,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .char-insert {
-  background:
-    color-mix(in srgb, var(--stream-monaco-added-inline) 76%, transparent) !important;
-  border: 0 !important;
-  border-bottom: 1px solid
-    color-mix(in srgb, var(--stream-monaco-added-fg) 30%, transparent) !important;
-  box-shadow: inset 0 -1px 0
-    color-mix(in srgb, var(--stream-monaco-added-fg) 26%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .char-delete,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .char-delete,
-.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .inline-deleted-text {
-  background:
-    color-mix(in srgb, var(--stream-monaco-removed-inline) 76%, transparent) !important;
-  border: 0 !important;
-  border-bottom: 1px solid
-    color-mix(in srgb, var(--stream-monaco-removed-fg) 30%, transparent) !important;
-  box-shadow: inset 0 -1px 0
-    color-mix(in srgb, var(--stream-monaco-removed-fg) 26%, transparent);
-}
-.stream-monaco-diff-root .monaco-diff-editor .diffOverview {
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%);
-  border-left: 1px solid var(--stream-monaco-panel-border);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffOverview {
-  background:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 96%, black 4%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 90%, var(--stream-monaco-editor-fg) 10%) 100%
-    );
-  border-left-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 10%, transparent);
-  box-shadow: inset 1px 0 0 rgb(255 255 255 / 0.03);
-}
-.stream-monaco-diff-root .monaco-diff-editor .diffViewport {
-  border-radius: 999px;
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 18%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 24%, transparent);
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.08),
-    0 10px 18px -14px rgb(2 6 23 / 0.92);
-}
-.stream-monaco-diff-root .monaco-diff-editor .diffViewport:hover {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 24%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport:hover {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 31%, transparent);
-}
-.stream-monaco-diff-root .monaco-diff-editor .diffViewport:active {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 32%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport:active {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 38%, transparent);
-}
-.stream-monaco-diff-root .monaco-scrollable-element.modified-in-monaco-diff-editor .slider {
-  border-radius: 999px;
-}
-.stream-monaco-diff-root .monaco-editor .line-numbers {
-  color: var(--stream-monaco-line-number) !important;
-  left: var(--stream-monaco-line-number-left) !important;
-  width: var(--stream-monaco-line-number-width) !important;
-  text-align: var(--stream-monaco-line-number-align) !important;
-}
-.stream-monaco-diff-root .monaco-editor .line-numbers.active-line-number {
-  color: var(--stream-monaco-line-number-active) !important;
-}
-.stream-monaco-diff-root .monaco-editor .line-delete.line-numbers,
-.stream-monaco-diff-root .monaco-diff-editor .line-delete.line-numbers {
-  color: var(--stream-monaco-removed-fg) !important;
-}
-.stream-monaco-diff-root .monaco-editor .line-insert.line-numbers,
-.stream-monaco-diff-root .monaco-diff-editor .line-insert.line-numbers {
-  color: var(--stream-monaco-added-fg) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-overlays,
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-zones {
-  width: var(--stream-monaco-original-margin-width, auto) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .current-line {
-  width: var(--stream-monaco-original-margin-width, auto) !important;
-  display: none !important;
-  opacity: 0 !important;
-  pointer-events: none !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.original .monaco-scrollable-element.editor-scrollable {
-  left: var(--stream-monaco-original-scrollable-left, auto) !important;
-  width: var(--stream-monaco-original-scrollable-width, auto) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-overlays,
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-zones {
-  width: var(--stream-monaco-modified-margin-width) !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .current-line {
-  width: var(--stream-monaco-modified-margin-width) !important;
-  display: none !important;
-  opacity: 0 !important;
-  pointer-events: none !important;
-}
-.stream-monaco-diff-root .monaco-diff-editor .editor.modified .monaco-scrollable-element.editor-scrollable {
-  left: var(--stream-monaco-modified-scrollable-left, var(--stream-monaco-modified-margin-width)) !important;
-  width: var(
-    --stream-monaco-modified-scrollable-width,
-    calc(100% - var(--stream-monaco-modified-margin-width))
-  ) !important;
-}
-.stream-monaco-diff-root .monaco-editor .diagonal-fill {
-  opacity: 0.38;
-  background-size: 10px 10px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-widget {
-  pointer-events: auto;
-  box-sizing: border-box;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diff-hidden-lines-widget,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .fold-unchanged {
-  display: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diff-hidden-lines {
-  display: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original {
-  width: 0 !important;
-  min-width: 0 !important;
-  flex: 0 0 0 !important;
-  border: 0 !important;
-  overflow: hidden !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-editor,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-editor-background,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .lines-content {
-  width: 0 !important;
-  min-width: 0 !important;
-  background: transparent !important;
-  opacity: 0 !important;
-  pointer-events: none !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-scrollable-element.editor-scrollable {
-  left: 0 !important;
-  width: 0 !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin-view-overlays,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin-view-zones,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .overflow-guard {
-  display: none !important;
-  width: 0 !important;
-  min-width: 0 !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.modified {
-  left: 0 !important;
-  width: 100% !important;
-  border-left: 0 !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline.stream-monaco-diff-native-stale .monaco-diff-editor .editor.modified .view-lines.line-delete,
-.stream-monaco-diff-root.stream-monaco-diff-inline.stream-monaco-diff-native-stale .monaco-diff-editor .editor.modified .inline-deleted-margin-view-zone {
-  display: none !important;
-  height: 0 !important;
-  min-height: 0 !important;
-  overflow: hidden !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .gutter-delete,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .gutter-insert,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-delete,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-insert,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-numbers,
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diagonal-fill {
-  opacity: 0 !important;
-  background: transparent !important;
-  box-shadow: none !important;
-  pointer-events: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines {
-  height: auto;
-  width: 100%;
-  transform: none;
-  padding: 0 8px;
-  box-sizing: border-box;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines-widget {
-  height: 24px !important;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines {
-  height: 24px;
-  padding: 0 8px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .top,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .bottom {
-  display: none !important;
-  pointer-events: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center {
-  align-items: center;
-  gap: 0;
-  max-width: calc(100% - 4px);
-  min-height: 32px;
-  margin: 0 auto;
-  padding: 0;
-  border-radius: 12px;
-  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 96%,
-    var(--stream-monaco-editor-fg) 4%
-  );
-  box-shadow: 0 18px 28px -28px var(--stream-monaco-widget-shadow);
-  box-sizing: border-box;
-  overflow: hidden;
-  transition: background-color 0.16s ease, border-color 0.16s ease, box-shadow 0.16s ease;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines .center {
-  min-height: 24px;
-  height: 24px;
-  border-radius: 10px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-simple .monaco-editor .diff-hidden-lines .center {
-  min-height: 28px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-clickable {
-  cursor: pointer;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-bridge-source {
-  opacity: 0;
-  pointer-events: none;
-  border-color: transparent;
-  background: transparent;
-  box-shadow: none;
-  transform: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-bridge-source > * {
-  visibility: hidden;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary {
-  padding-left: 0;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge {
-  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 16%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 88%,
-    var(--stream-monaco-editor-fg) 12%
-  );
-  box-shadow: 0 22px 34px -30px rgb(2 6 23 / 0.92);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center:hover,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-focus-within {
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 94%,
-    var(--stream-monaco-editor-fg) 6%
-  );
-  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  box-shadow: 0 18px 30px -28px var(--stream-monaco-widget-shadow);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center:hover,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center.stream-monaco-focus-within,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 82%,
-    var(--stream-monaco-editor-fg) 18%
-  );
-  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 22%, transparent);
-  box-shadow: 0 24px 36px -30px rgb(2 6 23 / 0.94);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-primary {
-  display: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-primary,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-primary {
-  display: none !important;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-primary {
-  width: 100% !important;
-  justify-content: center !important;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand {
-  appearance: none;
-  display: inline-flex;
-  align-items: center;
-  justify-content: center;
-  gap: 6px;
-  min-height: 24px;
-  padding: 0 10px;
-  border-radius: 999px;
-  text-decoration: none;
-  color: inherit;
-  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, var(--stream-monaco-editor-bg) 90%);
-  border: 1px solid color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, transparent);
-  font-size: 11px;
-  font-weight: 700;
-  letter-spacing: 0.01em;
-  white-space: nowrap;
-  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand {
-  min-height: 0;
-  padding: 0;
-  border: 0;
-  border-radius: 0;
-  background: transparent;
-  box-shadow: none;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand::after,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand::after {
-  content: attr(data-stream-monaco-label);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand:hover,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand:focus-visible,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand:hover {
-  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 14%, var(--stream-monaco-editor-bg) 86%);
-  border-color: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 18%, transparent);
-  transform: translateY(-1px);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand:hover {
-  background: transparent;
-  border-color: transparent;
-  transform: none;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
-  display: flex;
-  align-items: center;
-  gap: 10px;
-  min-width: 0;
-  flex: 1 1 auto;
-  overflow: hidden;
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 54%, transparent);
-  white-space: nowrap;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 78%, transparent);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-meta {
-  justify-content: flex-start;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-count,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-count {
-  display: inline-flex;
-  align-items: center;
-  flex: 0 0 auto;
-  padding: 0;
-  border-radius: 0;
-  background: transparent;
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 58%, transparent);
-  font-size: 13px;
-  line-height: 14px;
-  font-weight: 500;
-  letter-spacing: 0;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-count,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-count {
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 92%, transparent);
-  font-weight: 600;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-separator {
-  flex: 0 0 auto;
-  opacity: 0.35;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .breadcrumb-item {
-  min-width: 0;
-  max-width: 100%;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb {
-  display: inline-flex;
-  align-items: center;
-  gap: 4px;
-  overflow: hidden;
-  text-overflow: ellipsis;
-  white-space: nowrap;
-  border-radius: 6px;
-  padding: 2px 6px;
-  transition: background-color 0.14s ease, color 0.14s ease;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb:hover {
-  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, transparent);
-  color: var(--stream-monaco-unchanged-fg);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-separator,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-breadcrumb {
-  display: none;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
-  justify-content: flex-start;
-  padding: 0 18px 0 16px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-metadata .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
-  padding: 0 28px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-simple .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
-  justify-content: center;
-  padding: 0 10px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-separator,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb,
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand {
-  display: none !important;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-overlay {
-  position: absolute;
-  inset: 0;
-  pointer-events: none;
-  z-index: 12;
-}
-.stream-monaco-diff-root.stream-monaco-diff-inline .stream-monaco-diff-unchanged-overlay {
-  display: none !important;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-overlay [hidden] {
-  display: none !important;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge {
-  position: absolute;
-  display: grid;
-  grid-template-columns: var(--stream-monaco-unchanged-rail-width, 54px) minmax(0, 1fr);
-  align-items: center;
-  column-gap: 0;
-  min-height: 32px;
-  padding: 0;
-  border-radius: 12px;
-  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 96%,
-    var(--stream-monaco-editor-fg) 4%
-  );
-  box-shadow: 0 18px 28px -28px var(--stream-monaco-widget-shadow);
-  box-sizing: border-box;
-  overflow: hidden;
-  pointer-events: auto;
-  transition: background-color 0.16s ease, border-color 0.16s ease, box-shadow 0.16s ease;
-}
-.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge {
-  min-height: 24px;
-  border-radius: 10px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge:not(.stream-monaco-diff-unchanged-bridge-metadata):not(.stream-monaco-diff-unchanged-bridge-simple) {
-  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 18%, transparent);
-  background:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
-    );
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.03),
-    0 22px 34px -30px rgb(2 6 23 / 0.92);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata {
-  grid-template-columns: minmax(0, 1fr);
-  min-height: 32px;
-  border-radius: 0;
-  border-left: 0;
-  border-right: 0;
-  box-shadow: none;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata {
-  border-top: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
-  border-bottom: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 92%,
-    var(--stream-monaco-editor-fg) 8%
-  );
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.02),
-    inset 0 -1px 0 rgb(15 23 42 / 0.22);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple {
-  grid-template-columns: minmax(0, 1fr);
-  min-height: 28px;
-  border: 0;
-  border-radius: 0;
-  background: transparent;
-  box-shadow: none;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple {
-  background: transparent;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge:focus {
-  outline: none;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-rail {
-  display: grid;
-  grid-auto-rows: minmax(0, 1fr);
-  align-self: stretch;
-  min-height: 100%;
-  border-right: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 94%,
-    var(--stream-monaco-editor-fg) 6%
-  );
-  z-index: 1;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-rail {
-  border-right-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  background:
-    linear-gradient(
-      180deg,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, var(--stream-monaco-editor-fg) 18%) 0%,
-      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
-    );
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.04),
-    inset -1px 0 0 rgb(15 23 42 / 0.22);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-rail {
-  justify-items: stretch;
-  border-right: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 92%,
-    var(--stream-monaco-editor-fg) 8%
-  );
-  border-radius: 10px 0 0 10px;
-  overflow: hidden;
-  box-shadow: inset -1px 0 0 color-mix(in srgb, var(--stream-monaco-editor-fg) 6%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-rail {
-  border-right-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
-  background: color-mix(
-    in srgb,
-    var(--stream-monaco-editor-bg) 80%,
-    var(--stream-monaco-editor-fg) 20%
-  );
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.04),
-    inset -1px 0 0 rgb(15 23 42 / 0.24);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
-  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 68%, transparent);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
-  appearance: none;
-  display: inline-flex;
-  align-items: center;
-  justify-content: center;
-  width: 100%;
-  min-height: 15px;
-  padding: 0;
-  border: 0;
-  border-bottom: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
-  background: transparent;
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 54%, transparent);
-  cursor: pointer;
-  font: inherit;
-  transition: background-color 0.14s ease, color 0.14s ease;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal {
-  width: 100%;
-  min-width: 100%;
-  margin-left: 0;
-  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
-  background: transparent;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:first-child {
-  border-radius: 10px 0 0 0;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:last-child {
-  border-radius: 0 0 0 10px;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:first-child:last-child {
-  border-radius: 10px 0 0 10px;
-}
-.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
-  min-height: 12px;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal .codicon {
-  font-size: 18px;
-  line-height: 1;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:last-child {
-  border-bottom: 0;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:hover,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:focus-visible,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal.stream-monaco-focus-visible {
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 68%, transparent);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:hover,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:focus-visible,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal.stream-monaco-focus-visible {
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 74%, var(--stream-monaco-editor-fg) 26%);
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 90%, transparent);
-  box-shadow: inset 0 1px 0 rgb(255 255 255 / 0.06);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal {
-  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
-  background: transparent;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary {
-  appearance: none;
-  display: flex;
-  align-items: center;
-  justify-content: flex-start;
-  min-width: 0;
-  min-height: 30px;
-  padding: 0 18px 0 16px;
-  border: 0;
-  background: transparent;
-  box-sizing: border-box;
-  color: inherit;
-  text-align: left;
-  cursor: pointer;
-  font: inherit;
-  z-index: 1;
-  transition: background-color 0.14s ease;
-}
-.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary {
-  min-height: 22px;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-metadata {
-  min-height: 30px;
-  padding: 0 28px;
-  cursor: default;
-  pointer-events: none;
-}
-.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-metadata {
-  min-height: 22px;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-simple {
-  justify-content: center;
-  min-height: 28px;
-  padding: 0 10px;
-  cursor: default;
-  pointer-events: none;
-}
-.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-simple {
-  min-height: 22px;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 91%, var(--stream-monaco-editor-fg) 9%);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: transparent;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 96%, transparent);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: transparent;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:hover,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:focus-visible,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
-  background: transparent;
-  box-shadow: none;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
-  justify-self: stretch;
-  justify-content: flex-start;
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta.stream-monaco-unchanged-meta-simple {
-  justify-content: center;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-metadata-label,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-metadata-label {
-  display: inline-flex;
-  align-items: center;
-  min-width: 0;
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 60%, transparent);
-  font-size: 13px;
-  line-height: 14px;
-  font-weight: 500;
-  letter-spacing: 0.01em;
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-metadata-label,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-metadata-label {
-  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 88%, transparent);
-  font-weight: 550;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-simple-bar,
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-simple-bar {
-  width: min(100%, calc(100% - 20px));
-  height: 10px;
-  border-radius: 999px;
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
-  box-shadow: inset 0 1px 0 rgb(255 255 255 / 0.7);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-simple-bar,
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-simple-bar {
-  height: 9px;
-  background: linear-gradient(
-    90deg,
-    color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-editor-fg) 22%) 0%,
-    color-mix(in srgb, var(--stream-monaco-editor-bg) 72%, var(--stream-monaco-editor-fg) 28%) 100%
-  );
-  box-shadow:
-    inset 0 1px 0 rgb(255 255 255 / 0.04),
-    inset 0 0 0 1px rgb(148 163 184 / 0.06);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-pane-divider {
-  position: absolute;
-  top: 0;
-  bottom: 0;
-  left: var(--stream-monaco-unchanged-split-offset, 50%);
-  width: 1px;
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
-  pointer-events: none;
-  transform: translateX(-0.5px);
-}
-.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-pane-divider {
-  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-}
-.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-pane-divider {
-  top: 8px;
-  bottom: 8px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-compact {
-  align-items: center;
-  gap: 6px;
-  height: 16px;
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-compact .text {
-  padding: 0 6px;
-  border-radius: 999px;
-  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, var(--stream-monaco-editor-bg) 90%);
-  color: var(--stream-monaco-unchanged-fg);
-}
-.stream-monaco-diff-root .monaco-editor .fold-unchanged {
-  display: flex !important;
-  align-items: center;
-  justify-content: center;
-  width: 18px !important;
-  height: 18px !important;
-  margin-left: 4px;
-  border-radius: 999px;
-  color: var(--stream-monaco-unchanged-fg);
-  background: color-mix(in srgb, var(--stream-monaco-surface) 92%, var(--stream-monaco-editor-bg) 8%);
-  border: 1px solid var(--stream-monaco-border);
-  box-shadow: 0 12px 20px -18px var(--stream-monaco-widget-shadow);
-  opacity: 0.92 !important;
-  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease, opacity 0.14s ease, box-shadow 0.14s ease;
-}
-.stream-monaco-diff-root .monaco-editor .fold-unchanged.stream-monaco-fold-unchanged-hidden {
-  display: none !important;
-}
-.stream-monaco-diff-root .monaco-editor .fold-unchanged:hover,
-.stream-monaco-diff-root .monaco-editor .fold-unchanged.stream-monaco-focus-visible {
-  opacity: 1 !important;
-  transform: translateY(-1px);
-  background: var(--stream-monaco-surface-hover);
-  border-color: var(--stream-monaco-border-strong);
-  box-shadow: 0 16px 26px -18px var(--stream-monaco-widget-shadow);
-}
-.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center:focus,
-.stream-monaco-diff-root .monaco-editor .fold-unchanged:focus {
-  outline: none;
-}
-.stream-monaco-diff-hunk-overlay {
-  position: absolute;
-  inset: 0;
-  pointer-events: none;
-  z-index: 20;
-}
-.stream-monaco-diff-hunk-actions {
-  position: absolute;
-  left: 0;
-  top: 0;
-  display: none;
-  gap: 6px;
-  pointer-events: auto;
-  padding: 6px;
-  border-radius: 999px;
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 80%, var(--stream-monaco-editor-fg) 20%);
-  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
-  box-shadow: 0 18px 34px -24px var(--stream-monaco-widget-shadow);
-  backdrop-filter: blur(14px);
-}
-.stream-monaco-diff-hunk-actions button {
-  appearance: none;
-  border: 1px solid transparent;
-  border-radius: 999px;
-  padding: 4px 10px;
-  font-size: 11px;
-  line-height: 1.35;
-  font-weight: 700;
-  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, var(--stream-monaco-editor-fg) 6%);
-  color: var(--stream-monaco-editor-fg);
-  cursor: pointer;
-  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease;
-}
-.stream-monaco-diff-hunk-actions button[data-action="revert"] {
-  background: color-mix(in srgb, var(--stream-monaco-removed-line) 78%, var(--stream-monaco-editor-bg) 22%);
-  border-color: var(--stream-monaco-removed-border);
-  color: color-mix(in srgb, var(--stream-monaco-removed-fg) 82%, var(--stream-monaco-editor-fg) 18%);
-}
-.stream-monaco-diff-hunk-actions button[data-action="stage"] {
-  background: color-mix(in srgb, var(--stream-monaco-added-line) 78%, var(--stream-monaco-editor-bg) 22%);
-  border-color: var(--stream-monaco-added-border);
-  color: color-mix(in srgb, var(--stream-monaco-added-fg) 82%, var(--stream-monaco-editor-fg) 18%);
-}
-.stream-monaco-diff-hunk-actions button:hover {
-  transform: translateY(-1px);
-}
-.stream-monaco-diff-hunk-actions button:disabled {
-  opacity: 0.45;
-  cursor: default;
-  transform: none;
-}
-`
-    document.head.append(style)
+    this.releaseDiffUiStyle?.()
+    this.diffUiStyleTarget = target
+    this.releaseDiffUiStyle = acquireStyle(diffUiStyleId, diffUiCss, target, this.options)
   }
 
   private createDomDisposable(
@@ -2804,6 +1578,14 @@ export class DiffEditorManager {
     }
   }
 
+  private endInlineDiffStreamingPresentation() {
+    this.clearInlineDiffStreamingPresentationIdleTimer()
+    this.inlineDiffStreamingPresentationActive = false
+    this.resetInlineDiffStreamingHeightFloor()
+    this.scheduleSyncDiffPresentationDecorations()
+    this.diffHeightManager?.update()
+  }
+
   private markDiffStreamingActivity() {
     this.lastContainer?.classList?.remove(
       'stream-monaco-diff-inline-native-ready',
@@ -2818,10 +1600,7 @@ export class DiffEditorManager {
       this.clearInlineDiffStreamingPresentationIdleTimer()
       this.inlineDiffStreamingPresentationIdleTimer = setTimeout(() => {
         this.inlineDiffStreamingPresentationIdleTimer = null
-        this.inlineDiffStreamingPresentationActive = false
-        this.resetInlineDiffStreamingHeightFloor()
-        this.scheduleSyncDiffPresentationDecorations()
-        this.diffHeightManager?.update()
+        this.endInlineDiffStreamingPresentation()
       }, 3000) as unknown as number
     }
     const hideUnchangedRegions = this.diffHideUnchangedRegionsResolved
@@ -3800,8 +2579,12 @@ export class DiffEditorManager {
     this.disposeDiffHunkInteractions()
     if (!this.diffEditorView || !this.lastContainer)
       return
-    if (this.options.diffHunkActionsOnHover !== true)
+    if (
+      this.options.diffHunkActionsOnHover !== true
+      && this.options.diffReviewMode !== true
+    ) {
       return
+    }
     if (typeof document === 'undefined')
       return
 
@@ -3816,10 +2599,14 @@ export class DiffEditorManager {
     this.diffHunkOverlay = overlay
     this.lastContainer.append(overlay)
 
+    const reviewMode = this.options.diffReviewMode === true
+    const actions: DiffHunkActionKind[] | undefined = reviewMode
+      ? ['accept', 'reject']
+      : undefined
     this.diffHunkUpperNode = createDiffHunkActionNode('upper', (side, action) =>
-      this.applyDiffHunkAction(side, action))
+      this.applyDiffHunkAction(side, action), actions)
     this.diffHunkLowerNode = createDiffHunkActionNode('lower', (side, action) =>
-      this.applyDiffHunkAction(side, action))
+      this.applyDiffHunkAction(side, action), actions)
     this.createDomDisposable(this.diffHunkDisposables, this.diffHunkUpperNode, 'mouseenter', () =>
       this.cancelScheduledHideDiffHunkActions())
     this.createDomDisposable(this.diffHunkDisposables, this.diffHunkUpperNode, 'mouseleave', () =>
@@ -3858,6 +2645,11 @@ export class DiffEditorManager {
           this.repositionDiffHunkNodes()
         }),
       )
+      if (reviewMode) {
+        this.diffHunkDisposables.push(
+          editor.onKeyDown(event => this.handleDiffReviewKeyDown(event)),
+        )
+      }
     }
     bindHover(originalEditor, 'original')
     bindHover(modifiedEditor, 'modified')
@@ -3868,9 +2660,332 @@ export class DiffEditorManager {
         this.diffHunkLineChanges = this.getEffectiveLineChanges()
         if (this.diffHunkActiveChange)
           this.hideDiffHunkActions()
+        if (reviewMode)
+          this.syncDiffReviewDecorations()
       }),
     )
     this.diffHunkLineChanges = this.getEffectiveLineChanges()
+    if (reviewMode)
+      this.syncDiffReviewDecorations()
+  }
+
+  private setupDiffHunkNavigation() {
+    this.disposeDiffHunkNavigation()
+    if (!this.diffEditorView)
+      return
+    const keybindings = this.options.diffHunkKeybindings === true
+    const counter = this.options.diffHunkCounter === true
+      && typeof document !== 'undefined'
+      && !!this.lastContainer
+    if (!keybindings && !counter)
+      return
+
+    const originalEditor = this.diffEditorView.getOriginalEditor()
+    const modifiedEditor = this.diffEditorView.getModifiedEditor()
+    if (keybindings) {
+      for (const editor of [originalEditor, modifiedEditor]) {
+        this.diffHunkNavigationDisposables.push(
+          editor.addAction({
+            id: 'stream-monaco.diff.nextHunk',
+            label: 'Go to Next Change',
+            keybindings: [monaco.KeyCode.F7],
+            run: () => this.goToNextHunk(),
+          }),
+          editor.addAction({
+            id: 'stream-monaco.diff.previousHunk',
+            label: 'Go to Previous Change',
+            keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.F7],
+            run: () => this.goToPreviousHunk(),
+          }),
+        )
+      }
+    }
+
+    if (counter && this.lastContainer) {
+      this.ensureDiffUiStyle()
+      const containerStyle = globalThis.getComputedStyle?.(this.lastContainer)
+      if (!containerStyle || containerStyle.position === 'static')
+        this.lastContainer.style.position = 'relative'
+      const node = document.createElement('div')
+      node.className = 'stream-monaco-diff-hunk-counter'
+      node.setAttribute('aria-live', 'polite')
+      this.diffHunkCounterNode = node
+      this.lastContainer.append(node)
+      this.diffHunkNavigationDisposables.push(
+        this.diffEditorView.onDidUpdateDiff(() => this.updateDiffHunkCounter()),
+        modifiedEditor.onDidChangeCursorPosition(() =>
+          this.updateDiffHunkCounter()),
+      )
+      this.updateDiffHunkCounter()
+    }
+  }
+
+  private updateDiffHunkCounter() {
+    const node = this.diffHunkCounterNode
+    if (!node || !this.diffEditorView)
+      return
+    const lineChanges = this.getEffectiveLineChanges()
+    if (!lineChanges.length) {
+      node.style.display = 'none'
+      return
+    }
+    const line = this.diffEditorView.getModifiedEditor().getPosition()?.lineNumber ?? 0
+    node.textContent = formatDiffHunkCounterLabel(
+      findDiffHunkIndexAtLine(lineChanges, line),
+      lineChanges.length,
+    )
+    node.style.display = ''
+  }
+
+  goToNextHunk() {
+    this.goToDiffHunk(1)
+  }
+
+  goToPreviousHunk() {
+    this.goToDiffHunk(-1)
+  }
+
+  private goToDiffHunk(direction: 1 | -1) {
+    if (!this.diffEditorView)
+      return
+    this.flushOriginalAppendBufferSync()
+    this.flushModifiedAppendBufferSync()
+    const lineChanges = this.getEffectiveLineChanges()
+    if (!lineChanges.length)
+      return
+
+    const modifiedEditor = this.diffEditorView.getModifiedEditor()
+    const line = modifiedEditor.getPosition()?.lineNumber ?? 0
+    const anchors = lineChanges.map(getDiffHunkModifiedAnchorLine)
+    const current = this.diffHunkNavigationIndex
+    let index: number
+    if (current >= 0 && anchors[current] === line) {
+      index = (current + direction + anchors.length) % anchors.length
+    }
+    else if (direction > 0) {
+      // Before the first move a hunk at the cursor counts as the next one.
+      index = anchors.findIndex(anchor =>
+        current < 0 ? anchor >= line : anchor > line)
+      if (index < 0)
+        index = 0
+    }
+    else {
+      index = anchors.length - 1
+      while (index > 0 && anchors[index] >= line)
+        index--
+      if (anchors[index] >= line)
+        index = anchors.length - 1
+    }
+
+    this.diffHunkNavigationIndex = index
+    const change = lineChanges[index]
+    // Moving the cursor makes Monaco reveal hidden unchanged lines around
+    // it; removed lines live in the original editor.
+    if (hasOriginalLines(change) && !this.isDiffInlineMode()) {
+      this.diffEditorView.getOriginalEditor().setPosition({
+        lineNumber: change.originalStartLineNumber,
+        column: 1,
+      })
+    }
+    modifiedEditor.setPosition({ lineNumber: anchors[index], column: 1 })
+    modifiedEditor.revealLineInCenterIfOutsideViewport(anchors[index])
+    if (this.diffHideUnchangedRegionsResolved?.enabled)
+      this.schedulePatchDiffUnchangedRegionsAfterInteraction()
+    this.updateDiffHunkCounter()
+  }
+
+  private handleDiffReviewKeyDown(event: monaco.IKeyboardEvent) {
+    if (!event.altKey || event.ctrlKey || event.metaKey)
+      return
+    const code = event.browserEvent.code
+    if (code === 'BracketRight' || code === 'BracketLeft') {
+      this.moveDiffReviewFocus(code === 'BracketRight' ? 1 : -1)
+    }
+    else if (code === 'KeyY' || code === 'KeyN') {
+      const active = this.diffHunkActiveChange
+      if (!active)
+        return
+      const index = this.diffHunkLineChanges.indexOf(active)
+      void this.applyDiffHunkAction('lower', code === 'KeyY' ? 'accept' : 'reject')
+        .then(() => this.focusNextPendingDiffReviewHunk(index))
+    }
+    else {
+      return
+    }
+    event.preventDefault()
+    event.stopPropagation()
+  }
+
+  private moveDiffReviewFocus(direction: 1 | -1) {
+    const count = this.diffHunkLineChanges.length
+    if (!count)
+      return
+    const current = this.diffHunkActiveChange
+      ? this.diffHunkLineChanges.indexOf(this.diffHunkActiveChange)
+      : -1
+    const next = current < 0
+      ? (direction > 0 ? 0 : count - 1)
+      : (current + direction + count) % count
+    this.focusDiffReviewHunk(next)
+  }
+
+  private focusNextPendingDiffReviewHunk(fromIndex: number) {
+    const hunks = this.getDiffReviewHunks(this.diffHunkLineChanges)
+    for (let step = 1; step <= hunks.length; step++) {
+      const hunk = hunks[(fromIndex + step) % hunks.length]
+      if (hunk.decision === 'pending') {
+        this.focusDiffReviewHunk(hunk.index)
+        return
+      }
+    }
+  }
+
+  private focusDiffReviewHunk(index: number) {
+    const change = this.diffHunkLineChanges[index]
+    if (!change || !this.diffEditorView)
+      return
+    this.cancelScheduledHideDiffHunkActions()
+    this.diffHunkActiveChange = change
+    this.diffHunkActiveHoverSide = null
+    const line = getDiffHunkModifiedAnchorLine(change)
+    const modifiedEditor = this.diffEditorView.getModifiedEditor()
+    modifiedEditor.setPosition({ lineNumber: line, column: 1 })
+    modifiedEditor.revealLineInCenterIfOutsideViewport(line)
+    this.repositionDiffHunkNodes()
+  }
+
+  private getDiffReviewHunks(
+    lineChanges: monaco.editor.ILineChange[],
+    ranges = resolveDiffHunkLineRanges(lineChanges),
+  ): DiffReviewHunk[] {
+    return lineChanges.map((lineChange, index) => ({
+      index,
+      lineChange,
+      decision:
+        this.diffReviewDecisions.get(getDiffHunkReviewKey(ranges[index]))
+        ?? 'pending',
+    }))
+  }
+
+  private setDiffReviewDecisions(
+    indexes: number[] | null,
+    decision: DiffHunkReviewDecision,
+  ) {
+    if (!this.originalModel || !this.modifiedModel)
+      return
+    this.flushOriginalAppendBufferSync()
+    this.flushModifiedAppendBufferSync()
+    const ranges = resolveDiffHunkLineRanges(this.getEffectiveLineChanges())
+    let changed = false
+    for (const index of indexes ?? ranges.keys()) {
+      const range = ranges[index]
+      if (!range)
+        continue
+      const key = getDiffHunkReviewKey(range)
+      if ((this.diffReviewDecisions.get(key) ?? 'pending') === decision)
+        continue
+      if (decision === 'pending')
+        this.diffReviewDecisions.delete(key)
+      else
+        this.diffReviewDecisions.set(key, decision)
+      changed = true
+    }
+    if (!changed)
+      return
+    this.syncDiffReviewDecorations()
+    if (this.diffHunkActiveChange)
+      this.repositionDiffHunkNodes()
+    if (typeof this.options.onReviewChange === 'function') {
+      try {
+        this.options.onReviewChange(this.getReviewResult())
+      }
+      catch (error) {
+        console.warn('onReviewChange callback threw an error:', error)
+      }
+    }
+  }
+
+  private syncDiffReviewDecorations() {
+    if (!this.diffEditorView)
+      return
+    const originalDecorations: monaco.editor.IModelDeltaDecoration[] = []
+    const modifiedDecorations: monaco.editor.IModelDeltaDecoration[] = []
+    if (this.options.diffReviewMode === true) {
+      const lineChanges = this.getEffectiveLineChanges()
+      const ranges = resolveDiffHunkLineRanges(lineChanges)
+      for (const hunk of this.getDiffReviewHunks(lineChanges, ranges)) {
+        if (hunk.decision === 'pending')
+          continue
+        const range = ranges[hunk.index]
+        const options = {
+          isWholeLine: true,
+          linesDecorationsClassName: `stream-monaco-diff-review-${hunk.decision}`,
+        }
+        if (range.originalCount > 0) {
+          originalDecorations.push({
+            range: new monaco.Range(
+              range.originalIndex + 1,
+              1,
+              range.originalIndex + range.originalCount,
+              1,
+            ),
+            options,
+          })
+        }
+        if (range.modifiedCount > 0) {
+          modifiedDecorations.push({
+            range: new monaco.Range(
+              range.modifiedIndex + 1,
+              1,
+              range.modifiedIndex + range.modifiedCount,
+              1,
+            ),
+            options,
+          })
+        }
+      }
+    }
+    try {
+      this.diffReviewOriginalDecorationIds = this.diffEditorView
+        .getOriginalEditor()
+        .deltaDecorations(this.diffReviewOriginalDecorationIds, originalDecorations)
+      this.diffReviewModifiedDecorationIds = this.diffEditorView
+        .getModifiedEditor()
+        .deltaDecorations(this.diffReviewModifiedDecorationIds, modifiedDecorations)
+    }
+    catch {}
+  }
+
+  setHunkReviewDecision(index: number, decision: DiffHunkReviewDecision) {
+    this.setDiffReviewDecisions([index], decision)
+  }
+
+  acceptAll() {
+    this.setDiffReviewDecisions(null, 'accepted')
+  }
+
+  rejectAll() {
+    this.setDiffReviewDecisions(null, 'rejected')
+  }
+
+  getReviewResult(): DiffReviewResult {
+    if (!this.originalModel || !this.modifiedModel)
+      return { text: '', hunks: [], complete: true }
+    this.flushOriginalAppendBufferSync()
+    this.flushModifiedAppendBufferSync()
+    const lineChanges = this.getEffectiveLineChanges()
+    const ranges = resolveDiffHunkLineRanges(lineChanges)
+    const hunks = this.getDiffReviewHunks(lineChanges, ranges)
+    return {
+      text: mergeReviewedDiffHunks(
+        this.originalModel.getValue(),
+        this.modifiedModel.getValue(),
+        ranges,
+        index => hunks[index].decision === 'accepted',
+      ),
+      hunks,
+      complete: hunks.every(hunk => hunk.decision !== 'pending'),
+    }
   }
 
   private handleDiffHunkWheel(event: WheelEvent, side: DiffHunkSide) {
@@ -4052,6 +3167,7 @@ export class DiffEditorManager {
         action,
         side,
         lineChange: this.diffHunkActiveChange,
+        hunkIndex: this.diffHunkLineChanges.indexOf(this.diffHunkActiveChange),
         originalModel: this.originalModel,
         modifiedModel: this.modifiedModel,
       }
@@ -4066,8 +3182,15 @@ export class DiffEditorManager {
         }
       }
 
-      if (allowDefault)
+      if (allowDefault && (action === 'accept' || action === 'reject')) {
+        this.setHunkReviewDecision(
+          context.hunkIndex,
+          action === 'accept' ? 'accepted' : 'rejected',
+        )
+      }
+      else if (allowDefault) {
         applyDefaultDiffHunkAction(context)
+      }
       this.syncDiffKnownValues()
       this.hideDiffHunkActions()
     }
@@ -4087,6 +3210,10 @@ export class DiffEditorManager {
       return
 
     const change = this.diffHunkActiveChange
+    if (this.options.diffReviewMode === true) {
+      this.positionDiffReviewNode(change)
+      return
+    }
     const hasOriginal = hasOriginalLines(change)
     const hasModified = hasModifiedLines(change)
     setDiffHunkNodeEnabled(this.diffHunkUpperNode, hasOriginal)
@@ -4154,14 +3281,53 @@ export class DiffEditorManager {
     }
   }
 
+  // Review decisions apply to the whole hunk, so a single node is shown: next
+  // to the added lines, or next to the removed ones for pure deletions.
+  private positionDiffReviewNode(change: monaco.editor.ILineChange) {
+    if (!this.diffEditorView || !this.diffHunkUpperNode || !this.diffHunkLowerNode)
+      return
+    const hasModified = hasModifiedLines(change)
+    const node = hasModified ? this.diffHunkLowerNode : this.diffHunkUpperNode
+    const other = hasModified ? this.diffHunkUpperNode : this.diffHunkLowerNode
+    other.style.display = 'none'
+    setDiffHunkNodeEnabled(node, true)
+    const index = this.diffHunkLineChanges.indexOf(change)
+    setDiffHunkNodeDecision(
+      node,
+      this.getDiffReviewHunks(this.diffHunkLineChanges)[index]?.decision
+      ?? 'pending',
+    )
+    if (hasModified || this.isDiffInlineMode()) {
+      positionDiffHunkNode(
+        node,
+        this.diffEditorView.getModifiedEditor(),
+        getDiffHunkModifiedAnchorLine(change),
+      )
+      return
+    }
+    positionDiffHunkNode(
+      node,
+      this.diffEditorView.getOriginalEditor(),
+      change.originalStartLineNumber,
+    )
+  }
+
   private scheduleFlushAppendBufferDiff() {
     if (this.appendBufferDiffScheduled)
       return
     this.appendBufferDiffScheduled = true
 
     const schedule = () => {
-      this.rafScheduler.schedule('appendDiff', () =>
-        this.flushAppendBufferDiff())
+      this.rafScheduler.schedule('appendDiff', () => {
+        const flushing = this.flushAppendBufferDiff()
+        this.appendFlushInFlightDiff = flushing
+        const settle = () => {
+          if (this.appendFlushInFlightDiff === flushing)
+            this.appendFlushInFlightDiff = null
+        }
+        flushing.then(settle, settle)
+        return flushing
+      })
     }
 
     // 0 => pure RAF batching (legacy behavior)
@@ -4581,6 +3747,14 @@ export class DiffEditorManager {
 
     this.lastKnownOriginalCode = originalCode
     this.lastKnownModifiedCode = modifiedCode
+    this.streamingIndicator = createStreamingIndicator(
+      this.diffEditorView.getModifiedEditor(),
+      this.options,
+    )
+    this.insertHighlighter = createInsertHighlighter(
+      this.diffEditorView.getModifiedEditor(),
+      this.options,
+    )
 
     // When unchanged-region folding is enabled, Monaco often needs a slightly
     // longer quiet window to finish intermediate diff computations. Without
@@ -4598,11 +3772,16 @@ export class DiffEditorManager {
       const me = this.diffEditorView.getModifiedEditor()
       this.diffScrollWatcher = createScrollWatcherForEditor(me, {
         onPause: () => {
+          if (this.shouldAutoScrollDiff)
+            this.events?.emit('autoScrollPaused', { target: 'diff' })
           this.shouldAutoScrollDiff = false
         },
         onMaybeResume: () => {
           this.rafScheduler.schedule('maybe-resume-diff', () => {
+            const wasPaused = !this.shouldAutoScrollDiff
             this.shouldAutoScrollDiff = this.userIsNearBottomDiff()
+            if (wasPaused && this.shouldAutoScrollDiff)
+              this.events?.emit('autoScrollResumed', { target: 'diff' })
           })
         },
         getLast: () => this.lastScrollTopDiff,
@@ -4633,8 +3812,13 @@ export class DiffEditorManager {
       this.diffHeightManager.dispose()
       this.diffHeightManager = null
     }
-    this.diffHeightManager = createHeightManager(container, () =>
-      this.computedHeight())
+    this.diffHeightManager = createHeightManager(
+      container,
+      () => this.computedHeight(),
+      {
+        onChange: height => this.events?.emit('heightChanged', { target: 'diff', height }),
+      },
+    )
 
     this.diffHeightManager.update()
 
@@ -4661,6 +3845,11 @@ export class DiffEditorManager {
         this.diffComputedVersions = this.captureCurrentDiffVersions()
         this.scheduleSyncDiffEditorLayoutToContainer()
         this.scheduleSyncDiffPresentationDecorations()
+        if (this.events?.has('diffComputed')) {
+          this.events.emit('diffComputed', {
+            lineChanges: this.diffEditorView?.getLineChanges() ?? [],
+          })
+        }
       }),
     )
     this.diffPresentationDisposables.push(
@@ -4802,6 +3991,7 @@ export class DiffEditorManager {
       this.lastKnownModifiedDirty = true
       this.rafScheduler.schedule('sync-last-known-modified', () =>
         this.syncLastKnownModified())
+      this.events?.emit('userEdit', { target: 'diff' })
     })
 
     this.maybeScrollDiffToBottom(
@@ -4810,6 +4000,7 @@ export class DiffEditorManager {
     )
     this.setupDiffUnchangedRegionEnhancements()
     this.setupDiffHunkInteractions()
+    this.setupDiffHunkNavigation()
     this.applyDiffRootAppearanceClass()
     this.scheduleSyncDiffPresentationDecorations()
 
@@ -4899,6 +4090,124 @@ export class DiffEditorManager {
     }
   }
 
+  applyPatch(patchText: string, codeLanguage?: string) {
+    if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
+      return
+    // Patch against the newest original, including updates still waiting for
+    // the next frame.
+    let originalCode = this.pendingDiffUpdate?.original
+    if (originalCode == null) {
+      this.flushOriginalAppendBufferSync()
+      originalCode = this.originalModel.getValue()
+    }
+    const modifiedCode = applyUnifiedPatch(originalCode, patchText, {
+      partial: true,
+    })
+    this.updateDiff(originalCode, modifiedCode, codeLanguage)
+  }
+
+  appendPatchChunk(text: string, codeLanguage?: string) {
+    if (
+      !this.diffEditorView
+      || !this.originalModel
+      || !this.modifiedModel
+      || !text
+    ) {
+      return
+    }
+    if (!this.patchStream) {
+      let base = this.pendingDiffUpdate?.original
+      if (base == null) {
+        this.flushOriginalAppendBufferSync()
+        base = this.originalModel.getValue()
+      }
+      this.patchStream = {
+        body: createUnifiedPatchBodyStream(),
+        base: base === '' ? null : base,
+        applier: base === '' ? null : createUnifiedPatchApplier(base),
+      }
+    }
+    const deltas = this.patchStream.body.push(text)
+    // Completed lines without body text (headers, `\ No newline` markers)
+    // can still change the result.
+    if (this.patchStream.applier && !deltas.original && !deltas.modified && !text.includes('\n'))
+      return
+    this.applyPatchStreamDeltas(deltas, codeLanguage)
+  }
+
+  endPatchStream(codeLanguage?: string) {
+    if (!this.patchStream || !this.diffEditorView)
+      return
+    this.applyPatchStreamDeltas(this.patchStream.body.end(), codeLanguage)
+  }
+
+  private applyPatchStreamDeltas(deltas: UnifiedPatchSideDeltas, codeLanguage?: string) {
+    const { body, base, applier } = this.patchStream!
+    if (base == null || !applier) {
+      if (deltas.original)
+        this.appendOriginal(deltas.original, codeLanguage)
+      if (deltas.modified)
+        this.appendModified(deltas.modified, codeLanguage)
+      return
+    }
+    // Show added text as it streams; context and removed lines can only be
+    // matched against the original once complete.
+    let hunks = body.getHunks()
+    const pending = body.getPendingLine()
+    if (pending?.type === '+' && hunks.length) {
+      const last = hunks[hunks.length - 1]
+      hunks = [...hunks.slice(0, -1), { ...last, lines: [...last.lines, pending] }]
+    }
+    // Only the last hunk is applied again; earlier ones are settled.
+    this.updateDiff(base, applier.apply(hunks), codeLanguage)
+  }
+
+  appendSearchReplaceChunk(text: string, codeLanguage?: string) {
+    if (
+      !this.diffEditorView
+      || !this.originalModel
+      || !this.modifiedModel
+      || !text
+    ) {
+      return
+    }
+    if (!this.searchReplaceStream) {
+      let base = this.pendingDiffUpdate?.original
+      if (base == null) {
+        this.flushOriginalAppendBufferSync()
+        base = this.originalModel.getValue()
+      }
+      this.searchReplaceStream = {
+        stream: createSearchReplaceStream(base),
+        base,
+      }
+    }
+    this.applySearchReplaceResult(this.searchReplaceStream.stream.push(text), codeLanguage)
+  }
+
+  endSearchReplaceStream(codeLanguage?: string) {
+    if (!this.searchReplaceStream || !this.diffEditorView)
+      return
+    this.applySearchReplaceResult(this.searchReplaceStream.stream.end(), codeLanguage)
+  }
+
+  private applySearchReplaceResult(
+    { changed, codeChanged }: SearchReplaceChunkResult,
+    codeLanguage?: string,
+  ) {
+    const { stream, base } = this.searchReplaceStream!
+    // Replacements that grow the end of the document reach the modified side
+    // through the tail-append path of updateDiff.
+    if (codeChanged)
+      this.updateDiff(base, stream.getCode(), codeLanguage)
+    for (const block of changed)
+      this.options.onSearchReplaceBlock?.({ ...block })
+  }
+
+  getSearchReplaceBlocks(): SearchReplaceBlock[] {
+    return this.searchReplaceStream?.stream.getBlocks().map(block => ({ ...block })) ?? []
+  }
+
   private shouldDeferTailAppendForInlineStreaming() {
     const renderSideBySide = this.options.renderSideBySide ?? true
     if (renderSideBySide === false)
@@ -5046,6 +4355,10 @@ export class DiffEditorManager {
       return
 
     const transitionRequestId = ++this.diffModelTransitionRequestId
+    this.patchStream = null
+    this.searchReplaceStream = null
+    this.diffReviewDecisions.clear()
+    this.diffHunkNavigationIndex = -1
     this.preserveNativeDiffDecorationsOnStaleAppend = false
     this.disposePendingPreparedDiffViewModel()
 
@@ -5209,18 +4522,201 @@ export class DiffEditorManager {
     return this.diffEditorView
   }
 
+  getUnifiedPatch(options?: UnifiedPatchOptions) {
+    if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
+      return ''
+    this.flushOriginalAppendBufferSync()
+    this.flushModifiedAppendBufferSync()
+    return formatUnifiedPatch(
+      this.originalModel.getValue(),
+      this.modifiedModel.getValue(),
+      this.getEffectiveLineChanges(),
+      options,
+    )
+  }
+
   getDiffModels() {
     return { original: this.originalModel, modified: this.modifiedModel }
   }
 
+  /** Apply the pending diff update and both append buffers now. */
+  async flush() {
+    if (this.appendFlushInFlightDiff) {
+      try {
+        await this.appendFlushInFlightDiff
+      }
+      catch {}
+    }
+    if (this.appendFlushThrottleTimerDiff != null) {
+      clearTimeout(this.appendFlushThrottleTimerDiff)
+      this.appendFlushThrottleTimerDiff = null
+    }
+    this.flushPendingDiffContentSync()
+  }
+
+  beginStream() {
+    if (!this.diffEditorView)
+      return
+    if (this.readOnlyBeforeStreamDiff == null) {
+      this.readOnlyBeforeStreamDiff = this.diffEditorView
+        .getModifiedEditor()
+        .getOption(monaco.editor.EditorOption.readOnly)
+    }
+    this.diffEditorView.updateOptions({ readOnly: true })
+    // Fold unchanged regions only once the stream has ended.
+    this.markDiffStreamingActivity()
+    this.streamingIndicator?.hold()
+  }
+
+  async endStream(options: EndStreamOptions = {}) {
+    if (!this.diffEditorView)
+      return
+    this.endPatchStream()
+    this.endSearchReplaceStream()
+    await this.flush()
+    if (!this.diffEditorView)
+      return
+    if (this.inlineDiffStreamingPresentationActive)
+      this.endInlineDiffStreamingPresentation()
+    this.restoreDeferredDiffUnchangedRegions()
+
+    this.rafScheduler.cancel('maybe-scroll-diff')
+    this.clearRevealTimers()
+    const modifiedModel = this.modifiedModel
+    if (
+      modifiedModel
+      && this.diffAutoScroll
+      && this.autoScrollOnUpdate
+      && this.shouldAutoScrollDiff
+      && this.hasVerticalScrollbarModified()
+    ) {
+      this.performRevealDiffTicketed(
+        modifiedModel.getLineCount(),
+        ++this.revealTicketDiff,
+      )
+    }
+    if (this.originalModel)
+      retokenizeModel(this.originalModel)
+    if (modifiedModel)
+      retokenizeModel(modifiedModel)
+
+    const readOnly = options.editable != null
+      ? !options.editable
+      : this.readOnlyBeforeStreamDiff
+    this.readOnlyBeforeStreamDiff = null
+    if (readOnly != null)
+      this.diffEditorView.updateOptions({ readOnly })
+    this.streamingIndicator?.hide()
+  }
+
+  /** Appended text is buffered or still being applied in chunks. */
+  hasPendingAppend() {
+    return this.appendBufferOriginalDiff.length > 0
+      || this.appendBufferModifiedDiff.length > 0
+      || this.appendFlushInFlightDiff != null
+  }
+
+  /**
+   * No update, reveal or height work is pending. The delayed presentation
+   * refreshes (unchanged-region collapsing, hunk actions) do not count; they
+   * only restyle content that is already in place.
+   */
+  isIdle() {
+    if (!this.diffEditorView)
+      return true
+    return this.pendingDiffUpdate == null
+      && this.appendBufferOriginalDiff.length === 0
+      && this.appendBufferModifiedDiff.length === 0
+      && this.appendFlushInFlightDiff == null
+      && this.appendFlushThrottleTimerDiff == null
+      && this.revealDebounceIdDiff == null
+      && this.revealIdleTimerIdDiff == null
+      && this.rafScheduler.isIdle()
+      && !this.diffHeightManager?.isPending()
+  }
+
+  /** Snapshot both sides once buffered and in-flight appends have landed. */
+  async createCheckpoint(): Promise<DiffCheckpoint | null> {
+    if (!this.diffEditorView)
+      return null
+    await this.flush()
+    if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
+      return null
+    return {
+      kind: 'diff',
+      original: this.originalModel.getValue(),
+      modified: this.modifiedModel.getValue(),
+      scrollTop: this.diffEditorView.getModifiedEditor().getScrollTop?.()
+        ?? this.lastScrollTopDiff,
+      autoScroll: this.shouldAutoScrollDiff,
+    }
+  }
+
+  rollbackTo(checkpoint: DiffCheckpoint) {
+    if (!this.diffEditorView || !this.originalModel || !this.modifiedModel)
+      return
+    // Stop a chunked append in progress and drop everything still buffered;
+    // it belongs to the text being rolled back.
+    this.appendFlushGenerationDiff += 1
+    this.appendFlushInFlightDiff = null
+    this.clearAsyncWork()
+    this.patchStream = null
+    this.searchReplaceStream = null
+
+    this.applyEditsInPlaceToModel(
+      this.originalModel,
+      this.originalModel.getValue(),
+      checkpoint.original,
+    )
+    this.applyEditsInPlaceToModel(
+      this.modifiedModel,
+      this.modifiedModel.getValue(),
+      checkpoint.modified,
+    )
+    this.lastKnownOriginalCode = checkpoint.original
+    this.lastKnownModifiedCode = checkpoint.modified
+    this.lastKnownModifiedLineCount = this.modifiedModel.getLineCount()
+    this._hasScrollBar = false
+    this.cachedScrollHeightDiff = null
+    this.cachedComputedHeightDiff = null
+    this.lastRevealLineDiff = null
+
+    // The streaming height floor would keep the container at the height of
+    // the discarded text.
+    this.resetInlineDiffStreamingHeightFloor()
+    const modifiedEditor = this.diffEditorView.getModifiedEditor()
+    this.suppressScrollWatcherDiff(this.scrollWatcherSuppressionMs)
+    this.diffHeightManager?.updateNow()
+    try {
+      modifiedEditor.setScrollTop?.(checkpoint.scrollTop)
+    }
+    catch {}
+    this.lastScrollTopDiff = modifiedEditor.getScrollTop?.() ?? checkpoint.scrollTop
+    this.shouldAutoScrollDiff = checkpoint.autoScroll
+    this.streamingIndicator?.hide()
+  }
+
   cleanup() {
     this.diffModelTransitionRequestId += 1
+    this.readOnlyBeforeStreamDiff = null
+    this.streamingIndicator?.dispose()
+    this.streamingIndicator = null
+    this.insertHighlighter?.dispose()
+    this.insertHighlighter = null
+    this.patchStream = null
+    this.searchReplaceStream = null
+    this.diffReviewDecisions.clear()
+    this.diffHunkNavigationIndex = -1
     this.preserveNativeDiffDecorationsOnStaleAppend = false
     this.disposePendingPreparedDiffViewModel()
     this.clearAsyncWork()
     this.disposeDiffHunkInteractions()
+    this.disposeDiffHunkNavigation()
     this.disposeDiffUnchangedRegionEnhancements()
     this.disposeDiffPresentationTracking()
+    this.releaseDiffUiStyle?.()
+    this.releaseDiffUiStyle = null
+    this.diffUiStyleTarget = null
 
     if (this.diffScrollWatcher) {
       this.diffScrollWatcher.dispose()
@@ -5276,6 +4772,8 @@ export class DiffEditorManager {
     this.preserveNativeDiffDecorationsOnStaleAppend = false
     this.disposePendingPreparedDiffViewModel()
     this.clearAsyncWork()
+    this.streamingIndicator?.hide()
+    this.insertHighlighter?.clear()
     this.hideDiffHunkActions()
     this.disposeDiffUnchangedRegionEnhancements()
     this.disposeDiffPresentationTracking()
@@ -5577,6 +5075,7 @@ export class DiffEditorManager {
       // getModelValueLength (which may fall back to O(n) getValue())
       // on every chunk.
       let currentLength = this.lastKnownModifiedCode.length
+      const generation = this.appendFlushGenerationDiff
       let idx = 0
       for (const part of parts) {
         if (!part)
@@ -5598,6 +5097,9 @@ export class DiffEditorManager {
             ? requestAnimationFrame(resolve)
             : setTimeout(resolve, 0),
         )
+        // Rolled back meanwhile; rollbackTo() owns the watcher suppression.
+        if (generation !== this.appendFlushGenerationDiff)
+          return
         this.eagerlyGrowDiffContainerHeight()
         const shouldImmediate = this.shouldPerformImmediateRevealDiff()
         log('diff', 'flushAppendBufferDiff chunk metrics', {
@@ -5691,34 +5193,72 @@ export class DiffEditorManager {
     const maxLen = Math.max(prev.length, next.length)
     const changeRatio
       = maxLen > 0 ? Math.abs(next.length - prev.length) / maxLen : 0
+    const prevLineCount = model.getLineCount()
     if (prev.length + next.length > maxChars || changeRatio > ratio) {
       this.applyModelEdit(model, () => {
         model.setValue(next)
       })
       if (model === this.modifiedModel) {
         this.lastKnownModifiedLineCount = model.getLineCount()
+        this.insertHighlighter?.clear()
+        this.streamingIndicator?.touch()
       }
+      this.emitFlush(
+        model,
+        'update',
+        () => utf8ByteLength(next) - utf8ByteLength(prev),
+        prevLineCount,
+      )
       return
     }
 
-    const res = computeMinimalEdit(prev, next)
-    if (!res)
+    this.applyEditsInPlaceToModel(model, prev, next)
+  }
+
+  // Apply only the changed ranges, as one operation each in a single edit;
+  // never uses setValue.
+  private applyEditsInPlaceToModel(
+    model: monaco.editor.ITextModel,
+    prev: string,
+    next: string,
+  ) {
+    const edits = computeMinimalEdits(prev, next, this.options.minimalEditTimeBudgetMs)
+    if (edits.length === 0)
       return
-    const { start, endPrevIncl, replaceText } = res
-    const rangeStart = model.getPositionAt(start)
-    const rangeEnd = model.getPositionAt(endPrevIncl + 1)
-    const range = new monaco.Range(
-      rangeStart.lineNumber,
-      rangeStart.column,
-      rangeEnd.lineNumber,
-      rangeEnd.column,
-    )
+    const prevLineCount = model.getLineCount()
+    const operations = toEditOperations(model, edits)
     this.applyModelEdit(model, () => {
-      model.applyEdits([{ range, text: replaceText, forceMoveMarkers: true }])
+      model.applyEdits(operations)
     })
     if (model === this.modifiedModel) {
       this.lastKnownModifiedLineCount = model.getLineCount()
-    }
+      this.insertHighlighter?.clear()
+      this.streamingIndicator?.touch()
+    }
+    this.emitFlush(
+      model,
+      'update',
+      () => getEditsByteDelta(prev, edits),
+      prevLineCount,
+    )
+  }
+
+  private emitFlush(
+    model: monaco.editor.ITextModel,
+    kind: 'update' | 'append',
+    getByteDelta: () => number,
+    prevLineCount: number,
+  ) {
+    if (!this.events?.has('flush'))
+      return
+    const lineCount = model.getLineCount()
+    this.events.emit('flush', {
+      target: model === this.originalModel ? 'original' : 'modified',
+      kind,
+      byteDelta: getByteDelta(),
+      lineDelta: lineCount - prevLineCount,
+      lineCount,
+    })
   }
 
   private getModelValueLength(model: monaco.editor.ITextModel) {
@@ -5798,8 +5338,11 @@ export class DiffEditorManager {
     })
     if (model === this.modifiedModel) {
       this.lastKnownModifiedLineCount = model.getLineCount()
+      this.insertHighlighter?.markAppended(lastLine, lastColumn)
+      this.streamingIndicator?.touch()
     }
     this.syncKnownCodeAfterAppend(model, appendText, previousLength)
+    this.emitFlush(model, 'append', () => utf8ByteLength(appendText), lastLine)
   }
 
   private applyModelEdit(model: monaco.editor.ITextModel, fn: () => void) {
@@ -1,12 +1,23 @@
-import type { MonacoLanguage, MonacoOptions } from '../type'
+import type { EditorCheckpoint, EndStreamOptions, MonacoEventMap, MonacoLanguage, MonacoOptions } from '../type'
+import type { EventEmitter } from '../utils/events'
+import type { ChangeMarker } from './changeMarks'
+import type { InsertHighlighter } from './insertHighlight'
+import type { StreamingIndicator } from './streamingIndicator'
 import { processedLanguage } from '../code.detect'
 import { defaultRevealBatchOnIdleMs, defaultRevealDebounceMs, defaultScrollbar, minimalEditMaxChangeRatio, minimalEditMaxChars, padding } from '../constant'
-import { computeMinimalEdit } from '../minimalEdit'
+import { computeMinimalEdits } from '../minimalEdit'
 import * as monaco from '../monaco-shim'
 import { createHeightManager } from '../utils/height'
 import { error, log } from '../utils/logger'
 import { createRafScheduler } from '../utils/raf'
 import { createScrollWatcherForEditor } from '../utils/scroll'
+import { utf8ByteLength } from '../utils/textChunks'
+import { retokenizeModel } from '../utils/tokenization'
+import { createChangeMarker } from './changeMarks'
+import { createInsertHighlighter } from './insertHighlight'
+import { getEditsByteDelta, toEditOperations, toReplacedSegments } from './modelEdits'
+import { clearStaticCode } from './staticCode'
+import { createStreamingIndicator } from './streamingIndicator'
 
 const defaultHeightTransitionMs = 120
 const defaultHeightTransitionEasing = 'cubic-bezier(0.4, 0, 0.2, 1)'
@@ -77,6 +88,11 @@ export class EditorManager {
   private revealStrategyOption?: 'bottom' | 'centerIfOutside' | 'center'
   private revealBatchOnIdleMsOption?: number
   private readonly scrollWatcherSuppressionMs = 500
+  // `readOnly` before `beginStream()`; null when no stream is active.
+  private readOnlyBeforeStream: boolean | null = null
+  private streamingIndicator: StreamingIndicator | null = null
+  private insertHighlighter: InsertHighlighter | null = null
+  private changeMarker: ChangeMarker | null = null
 
   constructor(
     private options: MonacoOptions,
@@ -88,6 +104,7 @@ export class EditorManager {
     private autoScrollThresholdLines: number,
     private revealDebounceMsOption?: number,
     private updateThrottleMsOption?: number,
+    private events?: EventEmitter<MonacoEventMap>,
   ) {
     this.updateThrottleMs
       = this.updateThrottleMsOption
@@ -216,9 +233,27 @@ export class EditorManager {
       debounceMs: this.options.heightUpdateDebounceMs
         ?? (smooth ? smoothHeightDebounceMs : legacyHeightDebounceMs),
       hysteresisPx: this.getHeightChangeTolerancePx(),
+      onChange: (height: number) => this.events?.emit('heightChanged', { target: 'editor', height }),
     }
   }
 
+  private emitFlush(
+    kind: 'update' | 'append',
+    getByteDelta: () => number,
+    prevLineCount: number,
+    lineCount: number,
+  ) {
+    if (!this.events?.has('flush'))
+      return
+    this.events.emit('flush', {
+      target: 'editor',
+      kind,
+      byteDelta: getByteDelta(),
+      lineDelta: lineCount - prevLineCount,
+      lineCount,
+    })
+  }
+
   private setOverflowForHeight(computed: number) {
     if (!this.lastContainer)
       return null
@@ -524,6 +559,9 @@ export class EditorManager {
       container.style.scrollbarGutter = 'stable'
     }
     container.style.maxHeight = this.maxHeightCSS
+    // A snapshot painted by `renderStatic` is replaced in the same task as
+    // Monaco mounts, so the container never renders empty in between.
+    clearStaticCode(container)
 
     this.editorView = monaco.editor.create(container, {
       value: code,
@@ -543,6 +581,9 @@ export class EditorManager {
     monaco.editor.setTheme(currentTheme)
 
     this.lastKnownCode = this.editorView.getValue()
+    this.streamingIndicator = createStreamingIndicator(this.editorView, this.options)
+    this.insertHighlighter = createInsertHighlighter(this.editorView, this.options)
+    this.changeMarker = createChangeMarker(this.editorView, this.options)
 
     if (this.editorHeightManager) {
       try {
@@ -605,6 +646,7 @@ export class EditorManager {
         return
       this.lastKnownCodeDirty = true
       this.rafScheduler.schedule('sync-last-known', () => this.syncLastKnownCode())
+      this.events?.emit('userEdit', { target: 'editor' })
     })
 
     this.shouldAutoScroll = !!this.autoScrollInitial
@@ -613,11 +655,18 @@ export class EditorManager {
       this.scrollWatcher = null
     }
     this.scrollWatcher = createScrollWatcherForEditor(this.editorView, {
-      onPause: () => { this.shouldAutoScroll = false },
+      onPause: () => {
+        if (this.shouldAutoScroll)
+          this.events?.emit('autoScrollPaused', { target: 'editor' })
+        this.shouldAutoScroll = false
+      },
       onMaybeResume: () => {
         // defer the expensive userIsNearBottom check to the raf scheduler
         this.rafScheduler.schedule('maybe-resume', () => {
+          const wasPaused = !this.shouldAutoScroll
           this.shouldAutoScroll = this.userIsNearBottom()
+          if (wasPaused && this.shouldAutoScroll)
+            this.events?.emit('autoScrollResumed', { target: 'editor' })
         })
       },
       getLast: () => this.lastScrollTop,
@@ -772,6 +821,7 @@ export class EditorManager {
       if (processedCodeLanguage)
         monaco.editor.setModelLanguage(model, processedCodeLanguage)
       const prevLineCount = model.getLineCount()
+      const prevBytes = this.events?.has('flush') ? utf8ByteLength(model.getValue()) : 0
       this.runAsProgrammaticContentChange(() => {
         model.setValue(newCode)
       })
@@ -779,6 +829,7 @@ export class EditorManager {
       const newLineCount = model.getLineCount()
       this.cachedLineCount = newLineCount
       this.cachedComputedHeight = null
+      this.emitFlush('update', () => utf8ByteLength(newCode) - prevBytes, prevLineCount, newLineCount)
       if (newLineCount !== prevLineCount) {
         this.syncHeightAndRevealAfterContentChange(newLineCount)
       }
@@ -884,40 +935,57 @@ export class EditorManager {
     const ratio = this.minimalEditMaxChangeRatioValue
     const maxLen = Math.max(prev.length, next.length)
     const changeRatio = maxLen > 0 ? Math.abs(next.length - prev.length) / maxLen : 0
+    const prevLineCount = model.getLineCount()
     if (prev.length + next.length > maxChars || changeRatio > ratio) {
-      const prevLineCount = model.getLineCount()
       this.runAsProgrammaticContentChange(() => {
         model.setValue(next)
       })
       this.lastKnownCode = next
       const newLineCount = model.getLineCount()
       this.cachedLineCount = newLineCount
+      this.emitFlush('update', () => utf8ByteLength(next) - utf8ByteLength(prev), prevLineCount, newLineCount)
+      this.insertHighlighter?.clear()
+      this.changeMarker?.clear()
+      this.streamingIndicator?.touch()
       if (newLineCount !== prevLineCount) {
         this.syncHeightAndRevealAfterContentChange(newLineCount)
       }
       return
     }
 
-    const res = computeMinimalEdit(prev, next)
-    if (!res)
-      return
-    const { start, endPrevIncl, replaceText } = res
-    const rangeStart = model.getPositionAt(start)
-    const rangeEnd = model.getPositionAt(endPrevIncl + 1)
-    const range = new monaco.Range(
-      rangeStart.lineNumber,
-      rangeStart.column,
-      rangeEnd.lineNumber,
-      rangeEnd.column,
-    )
+    const edits = this.applyEditsInPlace(prev, next)
+    if (edits.length > 0)
+      this.changeMarker?.markReplaced(prev, next, toReplacedSegments(edits))
+  }
 
-    const isReadOnly = this.editorView.getOption(monaco.editor.EditorOption.readOnly)
-    const edit = [{ range, text: replaceText, forceMoveMarkers: true }]
+  // Apply only the changed ranges, as one operation each in a single edit;
+  // never uses setValue, so decorations, folding and cursors outside the
+  // changes survive.
+  private applyEditsInPlace(prev: string, next: string) {
+    const editor = this.editorView
+    const model = editor?.getModel()
+    if (!editor || !model)
+      return []
+    const edits = computeMinimalEdits(prev, next, this.options.minimalEditTimeBudgetMs)
+    if (edits.length === 0)
+      return edits
+    const prevLineCount = model.getLineCount()
+    const operations = toEditOperations(model, edits)
+    const isReadOnly = editor.getOption(monaco.editor.EditorOption.readOnly)
     this.runAsProgrammaticContentChange(() => {
       if (isReadOnly)
-        model.applyEdits(edit)
-      else this.editorView!.executeEdits('minimal-replace', edit)
+        model.applyEdits(operations)
+      else editor.executeEdits('minimal-replace', operations)
     })
+    this.emitFlush(
+      'update',
+      () => getEditsByteDelta(prev, edits),
+      prevLineCount,
+      model.getLineCount(),
+    )
+    this.insertHighlighter?.clear()
+    this.streamingIndicator?.touch()
+    return edits
   }
 
   private flushAppendBuffer() {
@@ -951,6 +1019,9 @@ export class EditorManager {
     else
       this.lastKnownCode = model.getValue()
     const newLineCount = model.getLineCount()
+    this.emitFlush('append', () => utf8ByteLength(text), lastLine, newLineCount)
+    this.insertHighlighter?.markAppended(lastLine, lastColumn)
+    this.streamingIndicator?.touch()
     if (lastLine !== newLineCount) {
       this.cachedLineCount = newLineCount
       this.cachedComputedHeight = null
@@ -997,8 +1068,133 @@ export class EditorManager {
     return this.updateThrottleMs
   }
 
+  /** Apply the pending update and append buffer now, ignoring throttling. */
+  flush() {
+    if (this.updateThrottleTimer != null) {
+      clearTimeout(this.updateThrottleTimer)
+      this.updateThrottleTimer = null
+    }
+    this.rafScheduler.cancel('update')
+    this.flushPendingUpdate()
+    // A prefix-extending update is routed through appendCode, so drain the
+    // append buffer afterwards.
+    if (this.appendFlushThrottleTimer != null) {
+      clearTimeout(this.appendFlushThrottleTimer)
+      this.appendFlushThrottleTimer = null
+    }
+    this.rafScheduler.cancel('append')
+    this.flushAppendBuffer()
+  }
+
+  hasPendingAppend() {
+    return this.appendBuffer.length > 0
+  }
+
+  /** No update, reveal or height work is pending. */
+  isIdle() {
+    if (!this.editorView)
+      return true
+    return this.pendingUpdate == null
+      && this.appendBuffer.length === 0
+      && this.updateThrottleTimer == null
+      && this.appendFlushThrottleTimer == null
+      && this.revealDebounceId == null
+      && this.revealIdleTimerId == null
+      && this.rafScheduler.isIdle()
+      && !this.editorHeightManager?.isPending()
+  }
+
+  beginStream() {
+    if (!this.editorView)
+      return
+    if (this.readOnlyBeforeStream == null)
+      this.readOnlyBeforeStream = this.editorView.getOption(monaco.editor.EditorOption.readOnly)
+    this.editorView.updateOptions({ readOnly: true })
+    this.streamingIndicator?.hold()
+  }
+
+  endStream(options: EndStreamOptions = {}) {
+    if (!this.editorView)
+      return
+    this.flush()
+    // The stream is over, so there is nothing left to batch the final reveal
+    // with; do it now instead of after `revealBatchOnIdleMs`.
+    this.rafScheduler.cancel('maybe-scroll')
+    this.clearRevealTimers()
+    const model = this.editorView.getModel()
+    if (model) {
+      if (this.autoScrollOnUpdate && this.shouldAutoScroll && this.hasVerticalScrollbar())
+        this.performReveal(model.getLineCount(), ++this.revealTicket)
+      retokenizeModel(model)
+    }
+    const readOnly = options.editable != null
+      ? !options.editable
+      : this.readOnlyBeforeStream
+    this.readOnlyBeforeStream = null
+    if (readOnly != null)
+      this.editorView.updateOptions({ readOnly })
+    this.streamingIndicator?.hide()
+  }
+
+  createCheckpoint(): EditorCheckpoint | null {
+    const editor = this.editorView
+    const model = editor?.getModel()
+    if (!editor || !model)
+      return null
+    this.flush()
+    return {
+      kind: 'editor',
+      code: model.getValue(),
+      scrollTop: editor.getScrollTop?.() ?? this.lastScrollTop,
+      autoScroll: this.shouldAutoScroll,
+    }
+  }
+
+  rollbackTo(checkpoint: EditorCheckpoint) {
+    const editor = this.editorView
+    const model = editor?.getModel()
+    if (!editor || !model)
+      return
+    // Buffered updates and appends belong to the text being rolled back.
+    this.clearAsyncWork()
+    this.applyEditsInPlace(model.getValue(), checkpoint.code)
+    this.lastKnownCode = checkpoint.code
+    this.cachedLineCount = model.getLineCount()
+    this.cachedScrollHeight = null
+    this.cachedComputedHeight = null
+    this._hasScrollBar = false
+
+    // Restore height and scroll in the same frame as the edit; the scroll
+    // watcher must not read the jump as the user scrolling away.
+    this.suppressScrollWatcher(this.getRevealSuppressionMs())
+    const computed = this.computedHeight(editor)
+    this.editorHeightManager?.updateNow()
+    this.setOverflowForHeight(computed)
+    if (!this.isAutomaticLayoutEnabled()) {
+      try {
+        editor.layout?.()
+      }
+      catch {}
+    }
+    try {
+      editor.setScrollTop?.(checkpoint.scrollTop)
+    }
+    catch {}
+    this.lastScrollTop = editor.getScrollTop?.() ?? checkpoint.scrollTop
+    this.shouldAutoScroll = checkpoint.autoScroll
+    this.streamingIndicator?.hide()
+    this.changeMarker?.clear()
+  }
+
   cleanup() {
     this.clearAsyncWork()
+    this.readOnlyBeforeStream = null
+    this.streamingIndicator?.dispose()
+    this.streamingIndicator = null
+    this.insertHighlighter?.dispose()
+    this.insertHighlighter = null
+    this.changeMarker?.dispose()
+    this.changeMarker = null
 
     if (this.editorView) {
       this.editorView.dispose()
@@ -1025,6 +1221,8 @@ export class EditorManager {
 
   safeClean() {
     this.clearAsyncWork()
+    this.streamingIndicator?.hide()
+    this.insertHighlighter?.clear()
     // Cancel/cleanup watchers and timers
     if (this.scrollWatcher) {
       try {
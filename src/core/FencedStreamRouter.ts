@@ -0,0 +1,163 @@
+import type {
+  FencedCodeBlock,
+  FencedStreamRouter,
+  FencedStreamRouterOptions,
+  MonacoLanguage,
+  MonacoOptions,
+  UseMonacoReturn,
+} from '../type'
+import type { FencedStreamParser } from './fencedStream'
+import { detectLanguage, resolveMonacoLanguage } from '../code.detect'
+import { error } from '../utils/logger'
+import { createFencedStreamParser } from './fencedStream'
+
+interface RoutedBlock {
+  block: FencedCodeBlock
+  // Language came from `detectLanguage`, so it is re-checked as code grows.
+  detected: boolean
+  lineCount: number
+  nextDetectLineCount: number
+  instance: UseMonacoReturn | null
+  ready: boolean
+}
+
+/**
+ * Splits raw LLM output into Markdown text and fenced code blocks, and
+ * streams every block into its own `useMonaco()` editor.
+ */
+export class FencedStreamRouterManager implements FencedStreamRouter {
+  private readonly parser: FencedStreamParser
+  private readonly blocks: RoutedBlock[] = []
+  private current: RoutedBlock | null = null
+  private disposed = false
+
+  constructor(
+    private options: FencedStreamRouterOptions,
+    private createInstance: (options: MonacoOptions) => UseMonacoReturn,
+  ) {
+    this.parser = createFencedStreamParser({
+      onText: text => this.options.onText?.(text),
+      onOpen: info => this.openBlock(info),
+      onCode: text => this.appendBlockCode(text),
+      onClose: () => this.closeBlock(),
+    })
+  }
+
+  push(chunk: string) {
+    if (!this.disposed)
+      this.parser.push(chunk)
+  }
+
+  end() {
+    if (!this.disposed)
+      this.parser.end()
+  }
+
+  getBlocks() {
+    return this.blocks.map(routed => ({ ...routed.block }))
+  }
+
+  getBlockEditor(index: number) {
+    return this.blocks[index]?.instance ?? null
+  }
+
+  dispose() {
+    this.disposed = true
+    this.current = null
+    for (const routed of this.blocks) {
+      try {
+        routed.instance?.cleanupEditor()
+      }
+      catch {}
+      routed.instance = null
+    }
+  }
+
+  private openBlock(info: string) {
+    const word = info.split(/\s+/)[0].replace(/^\{?\.?/, '').replace(/\}$/, '')
+    const detected = !word
+    const routed: RoutedBlock = {
+      block: {
+        index: this.blocks.length,
+        info,
+        language: detected ? this.detect('') : resolveMonacoLanguage(word),
+        code: '',
+        closed: false,
+      },
+      detected,
+      lineCount: 1,
+      nextDetectLineCount: 2,
+      instance: null,
+      ready: false,
+    }
+    this.blocks.push(routed)
+    this.current = routed
+
+    const container = this.options.onBlock({ ...routed.block })
+    if (!container || this.disposed)
+      return
+    const instance = this.createInstance(this.options)
+    routed.instance = instance
+    instance.createEditor(container, routed.block.code, routed.block.language).then(
+      () => {
+        routed.ready = true
+      },
+      (err) => {
+        error('FencedStreamRouter', 'createEditor failed for block', routed.block.index, err)
+      },
+    )
+  }
+
+  private appendBlockCode(text: string) {
+    const routed = this.current
+    if (!routed)
+      return
+    routed.block.code += text
+    for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1))
+      routed.lineCount++
+    // Until the editor exists `appendCode` would be dropped, while
+    // `updateCode` is queued by `createEditor`.
+    if (routed.ready)
+      routed.instance?.appendCode(text, routed.block.language)
+    else
+      routed.instance?.updateCode(routed.block.code, routed.block.language)
+    // Re-detecting at doubling line counts keeps the total work linear.
+    if (routed.detected && routed.lineCount >= routed.nextDetectLineCount) {
+      routed.nextDetectLineCount = routed.lineCount * 2
+      this.redetect(routed)
+    }
+  }
+
+  private closeBlock() {
+    const routed = this.current
+    this.current = null
+    if (!routed)
+      return
+    routed.block.closed = true
+    if (routed.detected)
+      this.redetect(routed)
+    if (typeof this.options.onBlockClose === 'function') {
+      try {
+        this.options.onBlockClose({ ...routed.block })
+      }
+      catch (err) {
+        console.warn('onBlockClose callback threw an error:', err)
+      }
+    }
+  }
+
+  private detect(code: string) {
+    return resolveMonacoLanguage(detectLanguage(code, this.options.languageDefinitions))
+  }
+
+  private redetect(routed: RoutedBlock) {
+    const language = this.detect(routed.block.code)
+    if (language === routed.block.language)
+      return
+    routed.block.language = language
+    if (routed.ready)
+      routed.instance?.setLanguage(language as MonacoLanguage)
+    else
+      routed.instance?.updateCode(routed.block.code, language)
+  }
+}
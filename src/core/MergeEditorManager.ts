@@ -0,0 +1,297 @@
+import type {
+  MergeConflictResolution,
+  MergeEditorSides,
+  MergeResult,
+  MonacoOptions,
+} from '../type'
+import type { DiffEditorManager } from './DiffEditorManager'
+import type { MergeRegion, RenderedMerge } from './threeWayMerge'
+import * as monaco from '../monaco-shim'
+import { createRafScheduler } from '../utils/raf'
+import { positionDiffHunkNode } from './diffHunk'
+import {
+  computeMergeRegions,
+  createMergeConflictActionNode,
+  mergeConflictKey,
+  renderMergeRegions,
+  setMergeConflictNodeResolution,
+} from './threeWayMerge'
+
+/**
+ * Three-way merge on top of a DiffEditorManager. The diff shows `base`
+ * against the merged result, so height, auto-scroll and unchanged-region
+ * collapsing all come from the diff editor; this class only owns the merge
+ * state, the conflict decorations and the per-conflict actions.
+ */
+export class MergeEditorManager {
+  private diffMgr: DiffEditorManager | null = null
+  private sides: MergeEditorSides
+  private language: string | undefined
+  private regions: MergeRegion[] = []
+  private rendered: RenderedMerge = { text: '', conflicts: [] }
+  /** Chosen resolutions keyed by `mergeConflictKey`, not by index. */
+  private resolutions = new Map<string, MergeConflictResolution>()
+  private conflictKeys: string[] = []
+  private dirty = false
+  private rafScheduler = createRafScheduler()
+  private disposables: monaco.IDisposable[] = []
+  private decorationIds: string[] = []
+  private overlay: HTMLDivElement | null = null
+  private actionNode: HTMLDivElement | null = null
+  private activeConflictIndex = -1
+  private hideTimer: number | null = null
+
+  constructor(private options: MonacoOptions, sides: MergeEditorSides) {
+    this.sides = { ...sides }
+    this.recompute()
+  }
+
+  getText() {
+    return this.rendered.text
+  }
+
+  attach(diffMgr: DiffEditorManager, container: HTMLElement, language: string) {
+    this.diffMgr = diffMgr
+    this.language = language
+    const diffEditorView = diffMgr.getDiffEditorView()
+    if (!diffEditorView)
+      return
+    const modifiedEditor = diffEditorView.getModifiedEditor()
+    this.disposables.push(
+      modifiedEditor.onDidChangeModelContent(() =>
+        this.rafScheduler.schedule('decorations', () => this.syncDecorations())),
+    )
+    this.syncDecorations()
+
+    if (typeof document === 'undefined')
+      return
+    const overlay = document.createElement('div')
+    overlay.className = 'stream-monaco-diff-hunk-overlay'
+    const node = createMergeConflictActionNode(resolution =>
+      this.resolveConflict(this.activeConflictIndex, resolution))
+    node.addEventListener('mouseenter', () => this.cancelScheduledHide())
+    node.addEventListener('mouseleave', () => this.scheduleHide())
+    overlay.append(node)
+    container.append(overlay)
+    this.overlay = overlay
+    this.actionNode = node
+
+    this.disposables.push(
+      modifiedEditor.onMouseMove((event) => {
+        const line = event.target.position?.lineNumber
+        const index = line ? this.findConflictIndexAtLine(line) : -1
+        if (index < 0) {
+          this.scheduleHide(120)
+          return
+        }
+        this.cancelScheduledHide()
+        this.activeConflictIndex = index
+        this.repositionActionNode()
+      }),
+      modifiedEditor.onMouseLeave(() => this.scheduleHide()),
+      modifiedEditor.onDidScrollChange(() => this.repositionActionNode()),
+      modifiedEditor.onDidLayoutChange(() => this.repositionActionNode()),
+    )
+  }
+
+  update(sides: Partial<MergeEditorSides>, codeLanguage?: string) {
+    for (const key of ['base', 'ours', 'theirs'] as const) {
+      const value = sides[key]
+      if (typeof value === 'string')
+        this.sides[key] = value
+    }
+    if (codeLanguage)
+      this.language = codeLanguage
+    this.dirty = true
+    this.rafScheduler.schedule('merge', () => this.flush())
+  }
+
+  resolveConflict(index: number, resolution: MergeConflictResolution) {
+    this.flush()
+    if (index < 0 || index >= this.rendered.conflicts.length)
+      return
+    const key = this.conflictKeys[index]
+    if ((this.resolutions.get(key) ?? 'unresolved') === resolution)
+      return
+    if (resolution === 'unresolved')
+      this.resolutions.delete(key)
+    else
+      this.resolutions.set(key, resolution)
+    this.render()
+    this.diffMgr?.updateDiff(this.sides.base, this.rendered.text, this.language)
+    this.repositionActionNode()
+    if (typeof this.options.onMergeChange === 'function') {
+      try {
+        this.options.onMergeChange(this.getResult())
+      }
+      catch (error) {
+        console.warn('onMergeChange callback threw an error:', error)
+      }
+    }
+  }
+
+  getResult(): MergeResult {
+    this.flush()
+    const conflictRegions = this.regions.filter(
+      region => region.kind === 'conflict',
+    )
+    const conflicts = this.rendered.conflicts.map((conflict) => {
+      const region = conflictRegions[conflict.index]
+      return {
+        index: conflict.index,
+        resolution: conflict.resolution,
+        base: region.base.join('\n'),
+        ours: region.ours.join('\n'),
+        theirs: region.theirs.join('\n'),
+        startLineNumber: conflict.startLineNumber,
+        endLineNumber: conflict.endLineNumber,
+      }
+    })
+    return {
+      text: this.rendered.text,
+      conflicts,
+      resolved: conflicts.every(conflict => conflict.resolution !== 'unresolved'),
+    }
+  }
+
+  /** Recompute the merge from the latest sides now instead of next frame. */
+  flush() {
+    this.rafScheduler.cancel('merge')
+    if (!this.dirty)
+      return
+    this.dirty = false
+    this.recompute()
+    this.diffMgr?.updateDiff(this.sides.base, this.rendered.text, this.language)
+  }
+
+  isIdle() {
+    return !this.dirty && this.rafScheduler.isIdle()
+  }
+
+  cleanup() {
+    this.rafScheduler.cancel('merge')
+    this.rafScheduler.cancel('decorations')
+    this.cancelScheduledHide()
+    for (const d of this.disposables) {
+      try {
+        d.dispose()
+      }
+      catch {}
+    }
+    this.disposables.length = 0
+    if (this.decorationIds.length) {
+      try {
+        this.diffMgr?.getDiffEditorView()?.getModifiedEditor().deltaDecorations(this.decorationIds, [])
+      }
+      catch {}
+      this.decorationIds = []
+    }
+    this.overlay?.remove()
+    this.overlay = null
+    this.actionNode = null
+    this.diffMgr = null
+  }
+
+  private recompute() {
+    this.regions = computeMergeRegions(this.sides)
+    this.conflictKeys = this.regions.flatMap(region =>
+      region.kind === 'conflict' ? [mergeConflictKey(region)] : [])
+    // A conflict whose range or sides changed is a different conflict; its
+    // old choice no longer applies.
+    const live = new Set(this.conflictKeys)
+    for (const key of this.resolutions.keys()) {
+      if (!live.has(key))
+        this.resolutions.delete(key)
+    }
+    this.render()
+  }
+
+  private render() {
+    this.rendered = renderMergeRegions(
+      this.regions,
+      index => this.resolutions.get(this.conflictKeys[index]) ?? 'unresolved',
+    )
+  }
+
+  private findConflictIndexAtLine(line: number) {
+    const conflict = this.rendered.conflicts.find(conflict =>
+      line >= conflict.startLineNumber
+      && line <= Math.max(conflict.startLineNumber, conflict.endLineNumber))
+    return conflict?.index ?? -1
+  }
+
+  private syncDecorations() {
+    const modifiedEditor = this.diffMgr?.getDiffEditorView()?.getModifiedEditor()
+    const model = modifiedEditor?.getModel()
+    // Line numbers refer to the rendered text; wait until the diff editor
+    // has caught up with it.
+    if (!modifiedEditor || !model || model.getValue() !== this.rendered.text)
+      return
+    const decorations: monaco.editor.IModelDeltaDecoration[] = []
+    const addLines = (
+      start: number,
+      end: number,
+      options: monaco.editor.IModelDecorationOptions,
+    ) => {
+      if (end >= start)
+        decorations.push({ range: new monaco.Range(start, 1, end, 1), options })
+    }
+    for (const conflict of this.rendered.conflicts) {
+      const { oursLineRange, theirsLineRange } = conflict
+      if (!oursLineRange || !theirsLineRange) {
+        addLines(conflict.startLineNumber, conflict.endLineNumber, {
+          isWholeLine: true,
+          linesDecorationsClassName: 'stream-monaco-merge-resolved',
+        })
+        continue
+      }
+      const marker = {
+        isWholeLine: true,
+        className: 'stream-monaco-merge-marker',
+      }
+      addLines(conflict.startLineNumber, conflict.startLineNumber, marker)
+      addLines(oursLineRange[1] + 1, oursLineRange[1] + 1, marker)
+      addLines(conflict.endLineNumber, conflict.endLineNumber, marker)
+      addLines(oursLineRange[0], oursLineRange[1], {
+        isWholeLine: true,
+        linesDecorationsClassName: 'stream-monaco-merge-ours',
+      })
+      addLines(theirsLineRange[0], theirsLineRange[1], {
+        isWholeLine: true,
+        linesDecorationsClassName: 'stream-monaco-merge-theirs',
+      })
+    }
+    this.decorationIds = modifiedEditor.deltaDecorations(this.decorationIds, decorations)
+  }
+
+  private repositionActionNode() {
+    const node = this.actionNode
+    const modifiedEditor = this.diffMgr?.getDiffEditorView()?.getModifiedEditor()
+    if (!node || !modifiedEditor)
+      return
+    const conflict = this.rendered.conflicts[this.activeConflictIndex]
+    if (!conflict) {
+      node.style.display = 'none'
+      return
+    }
+    setMergeConflictNodeResolution(node, conflict.resolution)
+    positionDiffHunkNode(node, modifiedEditor, conflict.startLineNumber)
+  }
+
+  private cancelScheduledHide() {
+    if (this.hideTimer != null) {
+      clearTimeout(this.hideTimer)
+      this.hideTimer = null
+    }
+  }
+
+  private scheduleHide(delayMs = this.options.diffHunkHoverHideDelayMs ?? 160) {
+    this.cancelScheduledHide()
+    this.hideTimer = setTimeout(() => {
+      this.hideTimer = null
+      this.activeConflictIndex = -1
+      if (this.actionNode)
+        this.actionNode.style.display = 'none'
+    }, delayMs) as unknown as number
+  }
+}
@@ -0,0 +1,606 @@
+import type {
+  MonacoPool,
+  MonacoPoolBlock,
+  MonacoPoolOptions,
+  MonacoTheme,
+} from '../type'
+import type { StaticCodeMetrics } from './staticCode'
+import { processedLanguage } from '../code.detect'
+import {
+  defaultLanguages,
+  defaultScrollbar,
+  defaultThemes,
+  minimalEditMaxChangeRatio,
+  minimalEditMaxChars,
+} from '../constant'
+import { computeMinimalEdits } from '../minimalEdit'
+import * as monaco from '../monaco-shim'
+import { createHeightManager } from '../utils/height'
+import { error } from '../utils/logger'
+import { createRafScheduler } from '../utils/raf'
+import { registerMonacoThemes } from '../utils/registerMonacoThemes'
+import { toEditOperations } from './modelEdits'
+import {
+  applyStaticCodeStyle,
+  clearStaticCode,
+  ensureStaticCodeHost,
+  estimateStaticCodeHeight,
+  renderStaticCodeHtml,
+  resolveStaticCodeMetrics,
+} from './staticCode'
+
+const defaultMaxLiveEditors = 8
+const defaultRootMargin = '200px 0px'
+const liveHostClassName = 'stream-monaco-pool-host'
+
+interface PoolSlot {
+  editor: monaco.editor.IStandaloneCodeEditor
+  model: monaco.editor.ITextModel
+  host: HTMLElement
+  block: PooledBlock | null
+  disposables: monaco.IDisposable[]
+}
+
+interface PooledBlock {
+  id: number
+  handle: MonacoPoolBlock
+  container: HTMLElement
+  // Latest text handed to the block; a live editor catches up once per frame.
+  code: string
+  // What the live editor's model holds, so a flush diffs without `getValue()`.
+  liveCode: string
+  language: string
+  slot: PoolSlot | null
+  staticHost: HTMLElement | null
+  heightManager: ReturnType<typeof createHeightManager>
+  visible: boolean
+  lastUsed: number
+  // Height measured by the live editor for `liveHeightCode`. Reused while the
+  // block is parked so wrapped lines do not collapse to the static estimate.
+  liveHeight: number | null
+  liveHeightCode: string | null
+  activation: Promise<monaco.editor.IStandaloneCodeEditor | null> | null
+  lastCodeFlush: number
+  codeFlushTimer: ReturnType<typeof setTimeout> | null
+  previousOverflow: string
+  previousMaxHeight: string
+  disposed: boolean
+}
+
+function resolveThemeName(theme: MonacoTheme) {
+  return typeof theme === 'string' ? theme : (theme as any).name as string
+}
+
+function resolveMaxHeight(maxHeight: number | string) {
+  if (typeof maxHeight === 'number')
+    return { value: maxHeight, css: `${maxHeight}px` }
+  const match = maxHeight.match(/^(\d+(?:\.\d+)?)/)
+  return { value: match ? Number.parseFloat(match[1]) : 500, css: maxHeight }
+}
+
+/**
+ * Keeps at most `maxLiveEditors` Monaco editors alive and shares them between
+ * many code block containers. Blocks without an editor are rendered as static
+ * Shiki HTML from the same highlighter Monaco uses, and a per-block height
+ * manager keeps the container height stable across static/live swaps.
+ */
+export class MonacoPoolManager implements MonacoPool {
+  private readonly themes: MonacoTheme[]
+  private readonly languages: Set<string>
+  private readonly maxLiveEditors: number
+  private readonly maxHeightValue: number
+  private readonly maxHeightCSS: string
+  private readonly metrics: StaticCodeMetrics
+  private readonly rafScheduler = createRafScheduler()
+  private readonly slots: PoolSlot[] = []
+  private readonly blocks = new Map<number, PooledBlock>()
+  private readonly blocksByContainer = new WeakMap<Element, PooledBlock>()
+  private observer: IntersectionObserver | null = null
+  private highlighter: any = null
+  private registerPromise: Promise<any> | null = null
+  private currentTheme: string
+  private liveLineHeight: number | null = null
+  private blockSeq = 0
+  private useSeq = 0
+  private applyingCode = false
+  private disposed = false
+
+  constructor(private options: MonacoPoolOptions = {}) {
+    this.themes = options.themes?.length ? options.themes : defaultThemes
+    this.languages = new Set(
+      (options.languages ?? defaultLanguages).map(l => processedLanguage(l) || l),
+    )
+    this.maxLiveEditors = Math.max(1, Math.floor(options.maxLiveEditors ?? defaultMaxLiveEditors))
+    const maxHeight = resolveMaxHeight(options.MAX_HEIGHT ?? 500)
+    this.maxHeightValue = maxHeight.value
+    this.maxHeightCSS = maxHeight.css
+    this.metrics = resolveStaticCodeMetrics(options)
+    this.currentTheme = options.theme ?? resolveThemeName(this.themes[0])
+
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(
+        entries => this.handleIntersections(entries),
+        { rootMargin: options.rootMargin ?? defaultRootMargin },
+      )
+    }
+  }
+
+  mount(container: HTMLElement, code: string, language: string): MonacoPoolBlock {
+    if (this.disposed)
+      throw new Error('MonacoPool has been disposed')
+    const existing = this.blocksByContainer.get(container)
+    if (existing) {
+      existing.handle.updateCode(code, language)
+      return existing.handle
+    }
+
+    const previousOverflow = container.style.overflow
+    const previousMaxHeight = container.style.maxHeight
+
+    container.style.overflow = 'hidden'
+    container.style.maxHeight = this.maxHeightCSS
+    const block: PooledBlock = {
+      id: ++this.blockSeq,
+      handle: {
+        container,
+        updateCode: (newCode, codeLanguage) => this.updateBlockCode(block, newCode, codeLanguage),
+        appendCode: (appendText, codeLanguage) => this.appendBlockCode(block, appendText, codeLanguage),
+        getCode: () => block.code,
+        isLive: () => block.slot != null,
+        activate: () => this.activateBlock(block),
+        park: () => this.parkBlock(block),
+        getEditorView: () => block.slot?.editor ?? null,
+        dispose: () => this.disposeBlock(block),
+      },
+      container,
+      code,
+      liveCode: code,
+      language: this.normalizeLanguage(language),
+      slot: null,
+      staticHost: null,
+      heightManager: createHeightManager(
+        container,
+        () => this.computeBlockHeight(block),
+        this.getHeightManagerOptions(),
+      ),
+      visible: this.observer == null,
+      lastUsed: 0,
+      liveHeight: null,
+      liveHeightCode: null,
+      activation: null,
+      lastCodeFlush: 0,
+      codeFlushTimer: null,
+      previousOverflow,
+      previousMaxHeight,
+      disposed: false,
+    }
+
+    this.blocks.set(block.id, block)
+    this.blocksByContainer.set(container, block)
+    this.renderStatic(block)
+    block.heightManager.updateNow()
+
+    if (this.observer)
+      this.observer.observe(container)
+    else
+      void block.handle.activate()
+
+    return block.handle
+  }
+
+  async setTheme(theme: MonacoTheme) {
+    const themeName = resolveThemeName(theme)
+    this.currentTheme = themeName
+    this.registerPromise = null
+    await this.ensureRegistered()
+    if (this.disposed || this.currentTheme !== themeName)
+      return
+    monaco.editor.setTheme(themeName)
+    this.blocks.forEach((block) => {
+      if (!block.slot)
+        this.scheduleStaticRender(block)
+    })
+  }
+
+  getCurrentTheme() {
+    return this.currentTheme
+  }
+
+  getLiveCount() {
+    return this.slots.filter(slot => slot.block != null).length
+  }
+
+  dispose() {
+    if (this.disposed)
+      return
+    this.blocks.forEach(block => this.disposeBlock(block))
+    for (const slot of this.slots.splice(0))
+      this.disposeSlot(slot)
+    this.observer?.disconnect()
+    this.observer = null
+    this.highlighter = null
+    this.registerPromise = null
+    this.disposed = true
+  }
+
+  private normalizeLanguage(language: string) {
+    return processedLanguage(language) || language || 'plaintext'
+  }
+
+  private getHeightManagerOptions() {
+    const smooth = this.options.smoothHeightTransition ?? false
+    return {
+      smooth,
+      transitionMs: this.options.heightTransitionMs,
+      transitionEasing: this.options.heightTransitionEasing,
+      debounceMs: this.options.heightUpdateDebounceMs ?? (smooth ? 16 : 0),
+      hysteresisPx: this.options.heightChangeTolerancePx ?? (smooth ? 1 : 12),
+    }
+  }
+
+  private ensureRegistered(language?: string) {
+    if (language && !this.languages.has(language)) {
+      this.languages.add(language)
+      this.registerPromise = null
+    }
+    if (!this.registerPromise) {
+      const themeNames = this.themes.map(resolveThemeName)
+      const themes = themeNames.includes(this.currentTheme)
+        ? this.themes
+        : this.themes.concat(this.currentTheme)
+      this.registerPromise = registerMonacoThemes(themes as any, Array.from(this.languages))
+        .then((highlighter) => {
+          if (!this.disposed && highlighter && highlighter !== this.highlighter) {
+            this.highlighter = highlighter
+            this.blocks.forEach((block) => {
+              if (!block.slot)
+                this.scheduleStaticRender(block)
+            })
+          }
+          return highlighter
+        })
+        .catch((err) => {
+          error('MonacoPool', 'theme registration failed', err)
+          return null
+        })
+    }
+    return this.registerPromise
+  }
+
+  private computeBlockHeight(block: PooledBlock) {
+    if (block.slot) {
+      const contentHeight = block.slot.editor.getContentHeight?.()
+      if (typeof contentHeight === 'number' && Number.isFinite(contentHeight) && contentHeight > 0)
+        return Math.min(contentHeight, this.maxHeightValue)
+    }
+    if (block.liveHeight != null && block.liveHeightCode === block.code)
+      return block.liveHeight
+    return estimateStaticCodeHeight(block.code, this.getMetrics(), this.maxHeightValue)
+  }
+
+  private getMetrics() {
+    return this.liveLineHeight != null
+      ? { ...this.metrics, lineHeight: this.liveLineHeight }
+      : this.metrics
+  }
+
+  private scheduleStaticRender(block: PooledBlock) {
+    this.rafScheduler.schedule(`static-${block.id}`, () => {
+      if (block.disposed || block.slot)
+        return
+      this.renderStatic(block)
+      block.heightManager.update()
+    })
+  }
+
+  private renderStatic(block: PooledBlock) {
+    const host = ensureStaticCodeHost(block.container)
+    block.staticHost = host
+    host.innerHTML = renderStaticCodeHtml(
+      this.highlighter,
+      block.code,
+      block.language,
+      this.currentTheme,
+    )
+    applyStaticCodeStyle(host, this.getMetrics())
+  }
+
+  private removeStatic(block: PooledBlock) {
+    if (!block.staticHost)
+      return
+    clearStaticCode(block.container)
+    block.staticHost = null
+  }
+
+  private handleIntersections(entries: IntersectionObserverEntry[]) {
+    for (const entry of entries) {
+      const block = this.blocksByContainer.get(entry.target)
+      if (!block || block.disposed)
+        continue
+      block.visible = entry.isIntersecting
+      if (block.visible)
+        void this.activateBlock(block)
+    }
+  }
+
+  private activateBlock(block: PooledBlock) {
+    if (block.disposed || this.disposed)
+      return Promise.resolve(null)
+    block.lastUsed = ++this.useSeq
+    if (block.slot)
+      return Promise.resolve(block.slot.editor)
+    if (block.activation)
+      return block.activation
+
+    block.activation = (async () => {
+      try {
+        await this.ensureRegistered(block.language)
+        if (block.disposed || this.disposed)
+          return null
+        if (block.slot)
+          return block.slot.editor
+        const slot = this.acquireSlot(block)
+        this.attachSlot(slot, block)
+        return slot.editor
+      }
+      finally {
+        block.activation = null
+      }
+    })()
+    return block.activation
+  }
+
+  private acquireSlot(requester: PooledBlock) {
+    const free = this.slots.find(slot => slot.block == null)
+    if (free)
+      return free
+    if (this.slots.length < this.maxLiveEditors) {
+      const slot = this.createSlot(requester)
+      this.slots.push(slot)
+      return slot
+    }
+    // Prefer recycling an editor that scrolled out of view; fall back to the
+    // least recently used one when every live block is still visible.
+    const candidates = this.slots
+      .filter(slot => slot.block && slot.block !== requester)
+      .sort((a, b) => {
+        const aVisible = a.block!.visible ? 1 : 0
+        const bVisible = b.block!.visible ? 1 : 0
+        return aVisible - bVisible || a.block!.lastUsed - b.block!.lastUsed
+      })
+    const victim = candidates[0]
+    this.parkBlock(victim.block!)
+    return victim
+  }
+
+  private createSlot(block: PooledBlock): PoolSlot {
+    const host = document.createElement('div')
+    host.className = liveHostClassName
+    host.style.width = '100%'
+    host.style.height = '100%'
+    const model = monaco.editor.createModel(block.code, block.language)
+    const editor = monaco.editor.create(host, {
+      theme: this.currentTheme,
+      scrollBeyondLastLine: false,
+      minimap: { enabled: false },
+      automaticLayout: true,
+      readOnly: this.options.readOnly ?? true,
+      contextmenu: false,
+      ...this.options,
+      scrollbar: {
+        ...defaultScrollbar,
+        ...(this.options.scrollbar || {}),
+      },
+      model,
+    })
+    const slot: PoolSlot = { editor, model, host, block: null, disposables: [] }
+    this.liveLineHeight = editor.getOption?.(monaco.editor.EditorOption.lineHeight) ?? this.liveLineHeight
+    const sizeListener = editor.onDidContentSizeChange?.(() => {
+      slot.block?.heightManager.update()
+    })
+    if (sizeListener)
+      slot.disposables.push(sizeListener)
+    // Edits typed into a writable editor become the block's code.
+    const contentListener = model.onDidChangeContent?.(() => {
+      if (this.applyingCode || !slot.block)
+        return
+      this.cancelCodeFlush(slot.block)
+      slot.block.code = slot.block.liveCode = model.getValue()
+    })
+    if (contentListener)
+      slot.disposables.push(contentListener)
+    return slot
+  }
+
+  private attachSlot(slot: PoolSlot, block: PooledBlock) {
+    slot.block = block
+    block.slot = slot
+    this.cancelCodeFlush(block)
+    if (slot.model.getValue() !== block.code)
+      this.applyCode(() => slot.model.setValue(block.code))
+    block.liveCode = block.code
+    if (slot.model.getLanguageId() !== block.language)
+      monaco.editor.setModelLanguage(slot.model, block.language)
+    // Insert the live editor before removing the static snapshot so the
+    // container never becomes empty (which would collapse its height).
+    block.container.appendChild(slot.host)
+    this.removeStatic(block)
+    slot.editor.setScrollTop?.(0)
+    slot.editor.layout?.()
+    block.heightManager.update()
+  }
+
+  private parkBlock(block: PooledBlock) {
+    const slot = block.slot
+    if (!slot)
+      return
+    this.flushBlockCode(block)
+    const lastApplied = block.heightManager.getLastApplied()
+    block.liveHeight = lastApplied > 0 ? lastApplied : null
+    block.liveHeightCode = block.code
+    this.rafScheduler.cancel(`static-${block.id}`)
+    this.renderStatic(block)
+    slot.host.remove()
+    slot.block = null
+    block.slot = null
+  }
+
+  private updateBlockLanguage(block: PooledBlock, codeLanguage?: string) {
+    if (!codeLanguage)
+      return
+    const language = this.normalizeLanguage(codeLanguage)
+    if (language === block.language)
+      return
+    block.language = language
+    if (block.slot) {
+      const slot = block.slot
+      void this.ensureRegistered(language).then(() => {
+        if (slot.block === block && slot.model.getLanguageId() !== block.language)
+          monaco.editor.setModelLanguage(slot.model, block.language)
+      })
+    }
+  }
+
+  private updateBlockCode(block: PooledBlock, newCode: string, codeLanguage?: string) {
+    if (block.disposed)
+      return
+    this.updateBlockLanguage(block, codeLanguage)
+    if (block.code === newCode)
+      return
+    block.code = newCode
+    if (block.slot)
+      this.scheduleCodeFlush(block)
+    else
+      this.scheduleStaticRender(block)
+  }
+
+  private appendBlockCode(block: PooledBlock, appendText: string, codeLanguage?: string) {
+    if (block.disposed)
+      return
+    this.updateBlockLanguage(block, codeLanguage)
+    if (!appendText)
+      return
+    block.code += appendText
+    if (block.slot)
+      this.scheduleCodeFlush(block)
+    else
+      this.scheduleStaticRender(block)
+  }
+
+  // Tokens arriving within a frame (or within `updateThrottleMs`) reach the
+  // live editor as one edit, like `EditorManager.updateCode`.
+  private scheduleCodeFlush(block: PooledBlock) {
+    const kind = `code-${block.id}`
+    const throttleMs = this.options.updateThrottleMs ?? 0
+    const since = Date.now() - block.lastCodeFlush
+    if (!throttleMs || since >= throttleMs) {
+      this.rafScheduler.schedule(kind, () => this.flushBlockCode(block))
+      return
+    }
+    if (block.codeFlushTimer != null)
+      return
+    block.codeFlushTimer = setTimeout(() => {
+      block.codeFlushTimer = null
+      this.rafScheduler.schedule(kind, () => this.flushBlockCode(block))
+    }, throttleMs - since)
+  }
+
+  private cancelCodeFlush(block: PooledBlock) {
+    this.rafScheduler.cancel(`code-${block.id}`)
+    if (block.codeFlushTimer != null) {
+      clearTimeout(block.codeFlushTimer)
+      block.codeFlushTimer = null
+    }
+  }
+
+  private applyCode(fn: () => void) {
+    this.applyingCode = true
+    try {
+      fn()
+    }
+    finally {
+      this.applyingCode = false
+    }
+  }
+
+  private flushBlockCode(block: PooledBlock) {
+    this.cancelCodeFlush(block)
+    const slot = block.slot
+    if (block.disposed || !slot)
+      return
+    const prev = block.liveCode
+    const next = block.code
+    if (prev === next)
+      return
+    block.lastCodeFlush = Date.now()
+    block.liveCode = next
+    const model = slot.model
+    if (next.startsWith(prev)) {
+      const lastLine = model.getLineCount()
+      const lastColumn = model.getLineMaxColumn(lastLine)
+      const range = new monaco.Range(lastLine, lastColumn, lastLine, lastColumn)
+      this.applyCode(() => model.applyEdits([{ range, text: next.slice(prev.length), forceMoveMarkers: true }]))
+      return
+    }
+    const maxChars = this.options.minimalEditMaxChars ?? minimalEditMaxChars
+    const ratio = this.options.minimalEditMaxChangeRatio ?? minimalEditMaxChangeRatio
+    const maxLen = Math.max(prev.length, next.length)
+    const changeRatio = maxLen > 0 ? Math.abs(next.length - prev.length) / maxLen : 0
+    if (prev.length + next.length > maxChars || changeRatio > ratio) {
+      this.applyCode(() => model.setValue(next))
+      return
+    }
+    const edits = computeMinimalEdits(prev, next, this.options.minimalEditTimeBudgetMs)
+    if (edits.length > 0)
+      this.applyCode(() => model.applyEdits(toEditOperations(model, edits)))
+  }
+
+  private disposeBlock(block: PooledBlock) {
+    if (block.disposed)
+      return
+    const slot = block.slot
+    if (slot) {
+      slot.host.remove()
+      slot.block = null
+      block.slot = null
+    }
+    block.disposed = true
+    this.cancelCodeFlush(block)
+    this.rafScheduler.cancel(`static-${block.id}`)
+    this.observer?.unobserve(block.container)
+    this.removeStatic(block)
+    block.heightManager.dispose()
+    block.container.style.height = ''
+    block.container.style.overflow = block.previousOverflow
+    block.container.style.maxHeight = block.previousMaxHeight
+    this.blocks.delete(block.id)
+    this.blocksByContainer.delete(block.container)
+  }
+
+  private disposeSlot(slot: PoolSlot) {
+    for (const disposable of slot.disposables.splice(0)) {
+      try {
+        disposable.dispose()
+      }
+      catch {}
+    }
+    try {
+      slot.editor.dispose()
+    }
+    catch {}
+    try {
+      slot.model.dispose()
+    }
+    catch {}
+    slot.host.remove()
+  }
+}
+
+/**
+ * Create a pool that shares a bounded number of Monaco editors between many
+ * code block containers (e.g. chat transcripts). Off-screen blocks are parked
+ * as static Shiki HTML and rehydrated when they scroll back into view.
+ */
+export function createMonacoPool(options: MonacoPoolOptions = {}): MonacoPool {
+  return new MonacoPoolManager(options)
+}
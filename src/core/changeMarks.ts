@@ -0,0 +1,139 @@
+import type { MonacoOptions, ShowChangesGranularity } from '../type'
+import * as monaco from '../monaco-shim'
+import { ensureStyleElement } from '../utils/style'
+import { changeMarksCss, changeMarksStyleId } from './chromeStyles'
+
+const maxChangeMarks = 50
+const wordCharRE = /[\p{L}\p{N}_$]/u
+
+/** A replaced range as `[start, end)` offsets into the old and new text. */
+export interface ReplacedSegment {
+  prevStart: number
+  prevEnd: number
+  nextStart: number
+  nextEnd: number
+}
+
+export interface ChangeMarker {
+  /** Mark the replacements that were just applied to the model. */
+  markReplaced: (prev: string, next: string, segments: ReplacedSegment[]) => void
+  clear: () => void
+  dispose: () => void
+}
+
+function isWordChar(ch: string | undefined) {
+  return ch != null && wordCharRE.test(ch)
+}
+
+/**
+ * Grow `segment` to whole words. The text around the segment is the same in
+ * `prev` and `next`, so both ends move together.
+ */
+export function expandToWords(
+  prev: string,
+  next: string,
+  segment: ReplacedSegment,
+): ReplacedSegment {
+  let { prevStart, prevEnd, nextStart, nextEnd } = segment
+  while (prevStart > 0 && nextStart > 0 && isWordChar(next[nextStart - 1])) {
+    prevStart -= 1
+    nextStart -= 1
+  }
+  while (nextEnd < next.length && prevEnd < prev.length && isWordChar(next[nextEnd])) {
+    nextEnd += 1
+    prevEnd += 1
+  }
+  return { prevStart, prevEnd, nextStart, nextEnd }
+}
+
+function rangesTouch(current: monaco.IRange, range: monaco.IRange) {
+  const endsBefore = current.endLineNumber < range.startLineNumber
+    || (current.endLineNumber === range.startLineNumber && current.endColumn < range.startColumn)
+  const startsAfter = current.startLineNumber > range.endLineNumber
+    || (current.startLineNumber === range.endLineNumber && current.startColumn > range.endColumn)
+  return !endsBefore && !startsAfter
+}
+
+function formatPreviousText(text: string, languageId: string) {
+  if (!text)
+    return { value: '*Inserted*' }
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return { value: `Previously:\n\n${fence}${languageId}\n${text}\n${fence}` }
+}
+
+function resolveGranularity(
+  option: MonacoOptions['showChanges'],
+): ShowChangesGranularity | null {
+  if (option === true)
+    return 'word'
+  if (option === 'word' || option === 'char')
+    return option
+  return null
+}
+
+/**
+ * Decorations that keep the ranges rewritten by non-append updates visible,
+ * with the replaced text in a hover. Marks overlapping a new rewrite are
+ * replaced by it and at most `maxChangeMarks` are kept. Returns null when
+ * `options.showChanges` is off.
+ */
+export function createChangeMarker(
+  editor: monaco.editor.ICodeEditor,
+  options: MonacoOptions,
+): ChangeMarker | null {
+  const granularity = resolveGranularity(options.showChanges)
+  if (!granularity)
+    return null
+  let decorationIds: string[] = []
+
+  function overlaps(id: string, ranges: monaco.Range[]) {
+    const current = editor.getModel()?.getDecorationRange?.(id)
+    if (!current)
+      return true
+    return ranges.some(range => rangesTouch(current, range))
+  }
+
+  return {
+    markReplaced(prev, next, segments) {
+      const model = editor.getModel()
+      if (!model || segments.length === 0)
+        return
+      ensureStyleElement(changeMarksStyleId, changeMarksCss, editor.getDomNode(), options)
+      const marks = segments.map((segment) => {
+        const { prevStart, prevEnd, nextStart, nextEnd } = granularity === 'word'
+          ? expandToWords(prev, next, segment)
+          : segment
+        const from = model.getPositionAt(nextStart)
+        const to = model.getPositionAt(nextEnd)
+        return {
+          range: new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column),
+          options: {
+            ...(nextEnd === nextStart
+              ? { beforeContentClassName: 'stream-monaco-change-deleted', showIfCollapsed: true }
+              : { className: 'stream-monaco-change' }),
+            hoverMessage: formatPreviousText(prev.slice(prevStart, prevEnd), model.getLanguageId()),
+          },
+        }
+      })
+      const ranges = marks.map(mark => mark.range)
+      const stale = decorationIds.filter(id => overlaps(id, ranges))
+      const kept = decorationIds.filter(id => !stale.includes(id))
+      const overflow = kept.length + marks.length - maxChangeMarks
+      const dropped = overflow > 0 ? kept.splice(0, overflow) : []
+      const added = editor.deltaDecorations([...stale, ...dropped], marks.slice(-maxChangeMarks))
+      decorationIds = [...kept, ...added]
+    },
+    clear() {
+      if (decorationIds.length === 0)
+        return
+      try {
+        decorationIds = editor.deltaDecorations(decorationIds, [])
+      }
+      catch {}
+    },
+    dispose() {
+      decorationIds = []
+    },
+  }
+}
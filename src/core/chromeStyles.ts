@@ -0,0 +1,1394 @@
+// Static CSS for the editor and diff chrome. Kept free of Monaco imports so
+// the build can write it out as `stream-monaco/diff.css` for apps that load
+// styles themselves (`injectStyles: false`, e.g. under a strict CSP).
+
+export const diffUiStyleId = 'stream-monaco-diff-ui-style'
+
+export const diffUiCss = `
+.stream-monaco-diff-root {
+  --stream-monaco-editor-fg: var(--vscode-editor-foreground, #111827);
+  --stream-monaco-editor-bg: var(--vscode-editor-background, #fff);
+  --stream-monaco-unchanged-fg: var(--vscode-diffEditor-unchangedRegionForeground, var(--stream-monaco-editor-fg));
+  --stream-monaco-unchanged-bg: var(--vscode-diffEditor-unchangedRegionBackground, transparent);
+  --stream-monaco-gutter-marker-width: 4px;
+  --stream-monaco-gutter-gap: 16px;
+  --stream-monaco-widget-shadow: var(--vscode-widget-shadow, rgb(15 23 42 / 26%));
+  --stream-monaco-focus: var(--vscode-focusBorder, color-mix(in srgb, var(--stream-monaco-editor-fg) 56%, transparent));
+  --stream-monaco-frame-radius: 20px;
+  --stream-monaco-frame-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  --stream-monaco-frame-shadow: 0 28px 60px -46px var(--stream-monaco-widget-shadow);
+  --stream-monaco-panel-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 9%, transparent);
+  --stream-monaco-pane-divider: var(--stream-monaco-panel-border);
+  --stream-monaco-line-number: color-mix(in srgb, var(--stream-monaco-editor-fg) 34%, transparent);
+  --stream-monaco-line-number-active: color-mix(in srgb, var(--stream-monaco-editor-fg) 46%, transparent);
+  --stream-monaco-line-number-left: calc(
+    var(--stream-monaco-gutter-marker-width) + var(--stream-monaco-gutter-gap)
+  );
+  --stream-monaco-line-number-width: 36px;
+  --stream-monaco-line-number-align: center;
+  --stream-monaco-original-margin-width: calc(
+    var(--stream-monaco-line-number-left) +
+      var(--stream-monaco-line-number-width)
+  );
+  --stream-monaco-original-scrollable-left: var(
+    --stream-monaco-original-margin-width
+  );
+  --stream-monaco-original-scrollable-width: calc(
+    100% - var(--stream-monaco-original-margin-width)
+  );
+  --stream-monaco-modified-margin-width: calc(
+    var(--stream-monaco-line-number-left) +
+      var(--stream-monaco-line-number-width)
+  );
+  --stream-monaco-modified-scrollable-left: var(
+    --stream-monaco-modified-margin-width
+  );
+  --stream-monaco-modified-scrollable-width: calc(
+    100% - var(--stream-monaco-modified-margin-width)
+  );
+  --stream-monaco-panel-bg:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 97%, white 3%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 92%, var(--stream-monaco-editor-fg) 8%) 100%
+    );
+  --stream-monaco-panel-bg-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, var(--stream-monaco-editor-fg) 6%);
+  --stream-monaco-panel-bg-strong: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
+  --stream-monaco-gutter-bg:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 92%, var(--stream-monaco-editor-fg) 8%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
+    );
+  --stream-monaco-gutter-guide: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
+  --stream-monaco-surface: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 76%, var(--stream-monaco-editor-bg) 24%);
+  --stream-monaco-surface-hover: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 64%, var(--stream-monaco-editor-bg) 36%);
+  --stream-monaco-surface-soft: color-mix(in srgb, var(--stream-monaco-unchanged-bg) 55%, transparent);
+  --stream-monaco-border: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 18%, transparent);
+  --stream-monaco-border-strong: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 30%, transparent);
+  --stream-monaco-muted: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 70%, transparent);
+  --stream-monaco-added-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-insertedLineBackground, #14b8a6) 78%, #0f766e 22%);
+  --stream-monaco-added-line: color-mix(in srgb, var(--vscode-diffEditor-insertedLineBackground, #ddfbe8) 88%, var(--stream-monaco-editor-bg) 12%);
+  --stream-monaco-added-inline: color-mix(in srgb, var(--vscode-diffEditor-insertedTextBackground, #baf5d1) 92%, var(--stream-monaco-editor-bg) 8%);
+  --stream-monaco-added-border: color-mix(in srgb, var(--stream-monaco-added-fg) 24%, transparent);
+  --stream-monaco-added-outline: var(--stream-monaco-added-border);
+  --stream-monaco-added-inline-border: var(--stream-monaco-added-border);
+  --stream-monaco-added-line-shadow:
+    inset 4px 0 0 var(--stream-monaco-added-fg),
+    inset 0 0 0 1px var(--stream-monaco-added-outline);
+  --stream-monaco-added-line-fill:
+    linear-gradient(
+      90deg,
+      color-mix(in srgb, var(--stream-monaco-added-line) 94%, var(--stream-monaco-editor-bg) 6%) 0%,
+      color-mix(in srgb, var(--stream-monaco-added-line) 82%, transparent) 100%
+    );
+  --stream-monaco-added-gutter:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-added-fg) 0 4px,
+      color-mix(in srgb, var(--stream-monaco-added-line) 82%, transparent) 4px 100%
+    );
+  --stream-monaco-removed-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-removedLineBackground, #f43f5e) 74%, #dc2626 26%);
+  --stream-monaco-removed-line: color-mix(in srgb, var(--vscode-diffEditor-removedLineBackground, #fde8ec) 88%, var(--stream-monaco-editor-bg) 12%);
+  --stream-monaco-removed-inline: color-mix(in srgb, var(--vscode-diffEditor-removedTextBackground, #fecdd6) 92%, var(--stream-monaco-editor-bg) 8%);
+  --stream-monaco-removed-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 24%, transparent);
+  --stream-monaco-removed-outline: var(--stream-monaco-removed-border);
+  --stream-monaco-removed-inline-border: var(--stream-monaco-removed-border);
+  --stream-monaco-removed-line-shadow:
+    inset 4px 0 0 var(--stream-monaco-removed-fg),
+    inset 0 0 0 1px var(--stream-monaco-removed-outline);
+  --stream-monaco-removed-line-fill:
+    linear-gradient(
+      90deg,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 94%, var(--stream-monaco-editor-bg) 6%) 0%,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 82%, transparent) 100%
+    );
+  --stream-monaco-removed-gutter:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-removed-fg) 0 4px,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 82%, transparent) 4px 100%
+    );
+  scrollbar-width: none;
+  color-scheme: light;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark {
+  --stream-monaco-frame-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 16%, transparent);
+  --stream-monaco-frame-shadow: 0 30px 60px -42px rgb(2 6 23 / 0.78);
+  --stream-monaco-panel-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 15%, transparent);
+  --stream-monaco-pane-divider: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  --stream-monaco-panel-bg:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, black 6%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, var(--stream-monaco-editor-fg) 18%) 100%
+    );
+  --stream-monaco-panel-bg-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 86%, var(--stream-monaco-editor-fg) 14%);
+  --stream-monaco-panel-bg-strong: color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-editor-fg) 22%);
+  --stream-monaco-gutter-bg:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, black 16%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 76%, var(--stream-monaco-editor-fg) 24%) 100%
+    );
+  --stream-monaco-gutter-guide: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  --stream-monaco-surface: color-mix(in srgb, var(--stream-monaco-editor-bg) 91%, var(--stream-monaco-unchanged-fg) 9%);
+  --stream-monaco-surface-hover: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-unchanged-fg) 16%);
+  --stream-monaco-surface-soft: color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-unchanged-fg) 22%);
+  --stream-monaco-border: color-mix(in srgb, var(--stream-monaco-editor-fg) 22%, transparent);
+  --stream-monaco-border-strong: color-mix(in srgb, var(--stream-monaco-editor-fg) 30%, transparent);
+  --stream-monaco-muted: color-mix(in srgb, var(--stream-monaco-editor-fg) 72%, transparent);
+  --stream-monaco-added-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-insertedLineBackground, #2dd4bf) 88%, #99f6e4 12%);
+  --stream-monaco-added-line: color-mix(in srgb, var(--vscode-diffEditor-insertedLineBackground, rgb(16 185 129 / 0.24)) 54%, var(--stream-monaco-editor-bg) 46%);
+  --stream-monaco-added-inline: color-mix(in srgb, var(--vscode-diffEditor-insertedTextBackground, rgb(45 212 191 / 0.26)) 62%, var(--stream-monaco-editor-bg) 38%);
+  --stream-monaco-added-border: color-mix(in srgb, var(--stream-monaco-added-fg) 32%, transparent);
+  --stream-monaco-added-outline: color-mix(in srgb, var(--stream-monaco-added-fg) 20%, transparent);
+  --stream-monaco-added-inline-border: color-mix(in srgb, var(--stream-monaco-added-fg) 26%, transparent);
+  --stream-monaco-added-line-shadow:
+    inset 4px 0 0 var(--stream-monaco-added-fg),
+    inset 0 0 0 1px var(--stream-monaco-added-outline);
+  --stream-monaco-added-line-fill:
+    linear-gradient(
+      90deg,
+      color-mix(in srgb, var(--stream-monaco-added-line) 96%, var(--stream-monaco-editor-bg) 4%) 0%,
+      color-mix(in srgb, var(--stream-monaco-added-line) 74%, transparent) 100%
+    );
+  --stream-monaco-added-gutter:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-added-fg) 0 4px,
+      color-mix(in srgb, var(--stream-monaco-added-line) 74%, transparent) 4px 100%
+    );
+  --stream-monaco-removed-fg: color-mix(in srgb, var(--vscode-diffEditorGutter-removedLineBackground, #fb7185) 86%, #fecdd3 14%);
+  --stream-monaco-removed-line: color-mix(in srgb, var(--vscode-diffEditor-removedLineBackground, rgb(244 63 94 / 0.22)) 54%, var(--stream-monaco-editor-bg) 46%);
+  --stream-monaco-removed-inline: color-mix(in srgb, var(--vscode-diffEditor-removedTextBackground, rgb(251 113 133 / 0.24)) 62%, var(--stream-monaco-editor-bg) 38%);
+  --stream-monaco-removed-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 32%, transparent);
+  --stream-monaco-removed-outline: color-mix(in srgb, var(--stream-monaco-removed-fg) 20%, transparent);
+  --stream-monaco-removed-inline-border: color-mix(in srgb, var(--stream-monaco-removed-fg) 26%, transparent);
+  --stream-monaco-removed-line-shadow:
+    inset 4px 0 0 var(--stream-monaco-removed-fg),
+    inset 0 0 0 1px var(--stream-monaco-removed-outline);
+  --stream-monaco-removed-line-fill:
+    linear-gradient(
+      90deg,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 96%, var(--stream-monaco-editor-bg) 4%) 0%,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 74%, transparent) 100%
+    );
+  --stream-monaco-removed-gutter:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-removed-fg) 0 4px,
+      color-mix(in srgb, var(--stream-monaco-removed-line) 74%, transparent) 4px 100%
+    );
+  color-scheme: dark;
+}
+.stream-monaco-diff-root::-webkit-scrollbar {
+  width: 0;
+  height: 0;
+  display: none;
+}
+.stream-monaco-diff-root .monaco-diff-editor {
+  overflow: hidden;
+  background: var(--stream-monaco-panel-bg);
+  box-shadow: var(--stream-monaco-frame-shadow);
+}
+.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.original .scrollbar.vertical,
+.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.modified .scrollbar.vertical {
+  display: none !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor.side-by-side {
+  background:
+    radial-gradient(circle at top center, color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, white 18%) 0%, transparent 44%),
+    var(--stream-monaco-panel-bg);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor.side-by-side {
+  background:
+    radial-gradient(circle at top center, color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, black 12%) 0%, transparent 48%),
+    var(--stream-monaco-panel-bg);
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.original,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified {
+  background:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 98%, white 2%) 0%,
+      var(--stream-monaco-editor-bg) 100%
+    );
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .editor.original,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .editor.modified {
+  background:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, black 6%) 0%,
+      var(--stream-monaco-editor-bg) 100%
+    );
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .monaco-editor-background,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-overlays,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-zones,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .lines-content,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .monaco-editor-background,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-overlays,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-zones,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .lines-content {
+  background: var(--stream-monaco-editor-bg) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.modified {
+  box-shadow: none;
+  border-left: 1px solid var(--stream-monaco-pane-divider);
+}
+.stream-monaco-diff-root .monaco-diff-editor.side-by-side .editor.original {
+  box-shadow: none;
+  border-right: 1px solid var(--stream-monaco-pane-divider);
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter {
+  background: var(--stream-monaco-gutter-bg);
+  border-inline: 1px solid var(--stream-monaco-pane-divider);
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter .background {
+  left: 50%;
+  width: 1px;
+  border-left: 0 !important;
+  background: var(--stream-monaco-gutter-guide);
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter .buttons .monaco-toolbar .monaco-action-bar .actions-container {
+  border-radius: 999px;
+  border: 1px solid var(--stream-monaco-panel-border);
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%);
+  box-shadow: 0 14px 24px -18px var(--stream-monaco-widget-shadow);
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter .buttons .monaco-toolbar .monaco-action-bar .actions-container .action-item {
+  border-radius: 999px;
+}
+.stream-monaco-diff-root .monaco-diff-editor .insert-sign,
+.stream-monaco-diff-root .monaco-diff-editor .delete-sign {
+  display: none !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter-insert {
+  background: var(--stream-monaco-added-gutter) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .gutter-delete,
+.stream-monaco-diff-root .monaco-editor .inline-deleted-margin-view-zone {
+  background: var(--stream-monaco-removed-gutter) !important;
+}
+.stream-monaco-diff-root .monaco-editor .line-insert,
+.stream-monaco-diff-root .monaco-diff-editor .line-insert {
+  background: var(--stream-monaco-added-line-fill) !important;
+  border: 0 !important;
+  box-shadow: var(--stream-monaco-added-line-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .line-delete,
+.stream-monaco-diff-root .monaco-diff-editor .line-delete {
+  background: var(--stream-monaco-removed-line-fill) !important;
+  border: 0 !important;
+  box-shadow: var(--stream-monaco-removed-line-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .char-insert,
+.stream-monaco-diff-root .monaco-diff-editor .char-insert {
+  background: var(--stream-monaco-added-inline) !important;
+  border: 1px solid var(--stream-monaco-added-inline-border) !important;
+  border-radius: 6px;
+  box-shadow: inset 0 -1px 0 color-mix(in srgb, var(--stream-monaco-added-fg) 18%, transparent);
+}
+.stream-monaco-diff-root .monaco-editor .char-delete,
+.stream-monaco-diff-root .monaco-diff-editor .char-delete,
+.stream-monaco-diff-root .monaco-editor .inline-deleted-text {
+  background: var(--stream-monaco-removed-inline) !important;
+  border: 1px solid var(--stream-monaco-removed-inline-border) !important;
+  border-radius: 6px;
+  box-shadow: inset 0 -1px 0 color-mix(in srgb, var(--stream-monaco-removed-fg) 18%, transparent);
+}
+.stream-monaco-diff-root .monaco-editor .inline-deleted-text {
+  text-decoration: none;
+}
+.stream-monaco-diff-root .monaco-editor .char-insert.diff-range-empty,
+.stream-monaco-diff-root .monaco-editor .char-delete.diff-range-empty {
+  min-width: 2px;
+  margin: 0 1px;
+  border-radius: 999px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-insert,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-insert,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-delete,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-delete,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .char-insert,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .char-insert,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .char-delete,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .char-delete,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .inline-deleted-text,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .gutter-insert,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .gutter-delete,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .inline-deleted-margin-view-zone {
+  background: transparent !important;
+  border-color: transparent !important;
+  box-shadow: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-delete.line-numbers,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-delete.line-numbers,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-editor .line-insert.line-numbers,
+.stream-monaco-diff-root.stream-monaco-diff-native-stale .monaco-diff-editor .line-insert.line-numbers {
+  color: var(--stream-monaco-line-number) !important;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-insert,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-insert {
+  background: var(--stream-monaco-added-line-fill) !important;
+  border: 0 !important;
+  box-shadow: var(--stream-monaco-added-line-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-delete,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-delete {
+  background: var(--stream-monaco-removed-line-fill) !important;
+  border: 0 !important;
+  box-shadow: var(--stream-monaco-removed-line-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-zone {
+  box-sizing: border-box;
+  width: 100%;
+  pointer-events: none;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-line {
+  box-sizing: border-box;
+  width: 100%;
+  overflow: hidden;
+  white-space: pre;
+  color: inherit;
+  background: var(--stream-monaco-removed-line-fill);
+  box-shadow: var(--stream-monaco-removed-line-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-inline-delete-margin {
+  box-sizing: border-box;
+  width: 100%;
+  background: var(--stream-monaco-removed-gutter);
+  pointer-events: none;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-zone,
+.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-line,
+.stream-monaco-diff-root.stream-monaco-diff-inline-native-ready .stream-monaco-fallback-inline-delete-margin {
+  display: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-gutter-insert,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-gutter-insert {
+  background: var(--stream-monaco-added-gutter) !important;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-gutter-delete,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-gutter-delete {
+  background: var(--stream-monaco-removed-gutter) !important;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-number-delete,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-number-delete {
+  color: var(--stream-monaco-removed-fg) !important;
+}
+.stream-monaco-diff-root .monaco-editor .stream-monaco-fallback-line-number-insert,
+.stream-monaco-diff-root .monaco-diff-editor .stream-monaco-fallback-line-number-insert {
+  color: var(--stream-monaco-added-fg) !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .gutter-insert {
+  background:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-added-fg) 0 4px,
+      transparent 4px 100%
+    ) !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .gutter-delete,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .inline-deleted-margin-view-zone {
+  background:
+    linear-gradient(
+      90deg,
+      var(--stream-monaco-removed-fg) 0 4px,
+      transparent 4px 100%
+    ) !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .line-insert,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .line-insert {
+  background:
+    color-mix(in srgb, var(--stream-monaco-added-line) 34%, transparent) !important;
+  box-shadow: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .line-delete,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .line-delete {
+  background:
+    color-mix(in srgb, var(--stream-monaco-removed-line) 34%, transparent) !important;
+  box-shadow: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .char-insert,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .char-insert {
+  background:
+    color-mix(in srgb, var(--stream-monaco-added-inline) 76%, transparent) !important;
+  border: 0 !important;
+  border-bottom: 1px solid
+    color-mix(in srgb, var(--stream-monaco-added-fg) 30%, transparent) !important;
+  box-shadow: inset 0 -1px 0
+    color-mix(in srgb, var(--stream-monaco-added-fg) 26%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .char-delete,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-diff-editor .char-delete,
+.stream-monaco-diff-root.stream-monaco-diff-style-bar .monaco-editor .inline-deleted-text {
+  background:
+    color-mix(in srgb, var(--stream-monaco-removed-inline) 76%, transparent) !important;
+  border: 0 !important;
+  border-bottom: 1px solid
+    color-mix(in srgb, var(--stream-monaco-removed-fg) 30%, transparent) !important;
+  box-shadow: inset 0 -1px 0
+    color-mix(in srgb, var(--stream-monaco-removed-fg) 26%, transparent);
+}
+.stream-monaco-diff-root .monaco-diff-editor .diffOverview {
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%);
+  border-left: 1px solid var(--stream-monaco-panel-border);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffOverview {
+  background:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 96%, black 4%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 90%, var(--stream-monaco-editor-fg) 10%) 100%
+    );
+  border-left-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 10%, transparent);
+  box-shadow: inset 1px 0 0 rgb(255 255 255 / 0.03);
+}
+.stream-monaco-diff-root .monaco-diff-editor .diffViewport {
+  border-radius: 999px;
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 18%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 24%, transparent);
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.08),
+    0 10px 18px -14px rgb(2 6 23 / 0.92);
+}
+.stream-monaco-diff-root .monaco-diff-editor .diffViewport:hover {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 24%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport:hover {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 31%, transparent);
+}
+.stream-monaco-diff-root .monaco-diff-editor .diffViewport:active {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 32%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-diff-editor .diffViewport:active {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 38%, transparent);
+}
+.stream-monaco-diff-root .monaco-scrollable-element.modified-in-monaco-diff-editor .slider {
+  border-radius: 999px;
+}
+.stream-monaco-diff-root .monaco-editor .line-numbers {
+  color: var(--stream-monaco-line-number) !important;
+  left: var(--stream-monaco-line-number-left) !important;
+  width: var(--stream-monaco-line-number-width) !important;
+  text-align: var(--stream-monaco-line-number-align) !important;
+}
+.stream-monaco-diff-root .monaco-editor .line-numbers.active-line-number {
+  color: var(--stream-monaco-line-number-active) !important;
+}
+.stream-monaco-diff-root .monaco-editor .line-delete.line-numbers,
+.stream-monaco-diff-root .monaco-diff-editor .line-delete.line-numbers {
+  color: var(--stream-monaco-removed-fg) !important;
+}
+.stream-monaco-diff-root .monaco-editor .line-insert.line-numbers,
+.stream-monaco-diff-root .monaco-diff-editor .line-insert.line-numbers {
+  color: var(--stream-monaco-added-fg) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-overlays,
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .margin-view-zones {
+  width: var(--stream-monaco-original-margin-width, auto) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .current-line {
+  width: var(--stream-monaco-original-margin-width, auto) !important;
+  display: none !important;
+  opacity: 0 !important;
+  pointer-events: none !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.original .monaco-scrollable-element.editor-scrollable {
+  left: var(--stream-monaco-original-scrollable-left, auto) !important;
+  width: var(--stream-monaco-original-scrollable-width, auto) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-overlays,
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .margin-view-zones {
+  width: var(--stream-monaco-modified-margin-width) !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .current-line {
+  width: var(--stream-monaco-modified-margin-width) !important;
+  display: none !important;
+  opacity: 0 !important;
+  pointer-events: none !important;
+}
+.stream-monaco-diff-root .monaco-diff-editor .editor.modified .monaco-scrollable-element.editor-scrollable {
+  left: var(--stream-monaco-modified-scrollable-left, var(--stream-monaco-modified-margin-width)) !important;
+  width: var(
+    --stream-monaco-modified-scrollable-width,
+    calc(100% - var(--stream-monaco-modified-margin-width))
+  ) !important;
+}
+.stream-monaco-diff-root .monaco-editor .diagonal-fill {
+  opacity: 0.38;
+  background-size: 10px 10px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-widget {
+  pointer-events: auto;
+  box-sizing: border-box;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diff-hidden-lines-widget,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .fold-unchanged {
+  display: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diff-hidden-lines {
+  display: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original {
+  width: 0 !important;
+  min-width: 0 !important;
+  flex: 0 0 0 !important;
+  border: 0 !important;
+  overflow: hidden !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-editor,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-editor-background,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .lines-content {
+  width: 0 !important;
+  min-width: 0 !important;
+  background: transparent !important;
+  opacity: 0 !important;
+  pointer-events: none !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .monaco-scrollable-element.editor-scrollable {
+  left: 0 !important;
+  width: 0 !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin-view-overlays,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .margin-view-zones,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .overflow-guard {
+  display: none !important;
+  width: 0 !important;
+  min-width: 0 !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.modified {
+  left: 0 !important;
+  width: 100% !important;
+  border-left: 0 !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline.stream-monaco-diff-native-stale .monaco-diff-editor .editor.modified .view-lines.line-delete,
+.stream-monaco-diff-root.stream-monaco-diff-inline.stream-monaco-diff-native-stale .monaco-diff-editor .editor.modified .inline-deleted-margin-view-zone {
+  display: none !important;
+  height: 0 !important;
+  min-height: 0 !important;
+  overflow: hidden !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .gutter-delete,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .gutter-insert,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-delete,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-insert,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .line-numbers,
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-diff-editor .editor.original .diagonal-fill {
+  opacity: 0 !important;
+  background: transparent !important;
+  box-shadow: none !important;
+  pointer-events: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines {
+  height: auto;
+  width: 100%;
+  transform: none;
+  padding: 0 8px;
+  box-sizing: border-box;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines-widget {
+  height: 24px !important;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines {
+  height: 24px;
+  padding: 0 8px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .top,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .bottom {
+  display: none !important;
+  pointer-events: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center {
+  align-items: center;
+  gap: 0;
+  max-width: calc(100% - 4px);
+  min-height: 32px;
+  margin: 0 auto;
+  padding: 0;
+  border-radius: 12px;
+  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 96%,
+    var(--stream-monaco-editor-fg) 4%
+  );
+  box-shadow: 0 18px 28px -28px var(--stream-monaco-widget-shadow);
+  box-sizing: border-box;
+  overflow: hidden;
+  transition: background-color 0.16s ease, border-color 0.16s ease, box-shadow 0.16s ease;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .monaco-editor .diff-hidden-lines .center {
+  min-height: 24px;
+  height: 24px;
+  border-radius: 10px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-simple .monaco-editor .diff-hidden-lines .center {
+  min-height: 28px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-clickable {
+  cursor: pointer;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-bridge-source {
+  opacity: 0;
+  pointer-events: none;
+  border-color: transparent;
+  background: transparent;
+  box-shadow: none;
+  transform: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-bridge-source > * {
+  visibility: hidden;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary {
+  padding-left: 0;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge {
+  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 16%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 88%,
+    var(--stream-monaco-editor-fg) 12%
+  );
+  box-shadow: 0 22px 34px -30px rgb(2 6 23 / 0.92);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center:hover,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-focus-within {
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 94%,
+    var(--stream-monaco-editor-fg) 6%
+  );
+  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  box-shadow: 0 18px 30px -28px var(--stream-monaco-widget-shadow);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center:hover,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center.stream-monaco-focus-within,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 82%,
+    var(--stream-monaco-editor-fg) 18%
+  );
+  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 22%, transparent);
+  box-shadow: 0 24px 36px -30px rgb(2 6 23 / 0.94);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-primary {
+  display: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-primary,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-primary {
+  display: none !important;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-primary {
+  width: 100% !important;
+  justify-content: center !important;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand {
+  appearance: none;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  gap: 6px;
+  min-height: 24px;
+  padding: 0 10px;
+  border-radius: 999px;
+  text-decoration: none;
+  color: inherit;
+  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, var(--stream-monaco-editor-bg) 90%);
+  border: 1px solid color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, transparent);
+  font-size: 11px;
+  font-weight: 700;
+  letter-spacing: 0.01em;
+  white-space: nowrap;
+  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand {
+  min-height: 0;
+  padding: 0;
+  border: 0;
+  border-radius: 0;
+  background: transparent;
+  box-shadow: none;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand::after,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand::after {
+  content: attr(data-stream-monaco-label);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand:hover,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand:focus-visible,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand:hover {
+  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 14%, var(--stream-monaco-editor-bg) 86%);
+  border-color: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 18%, transparent);
+  transform: translateY(-1px);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-expand:hover {
+  background: transparent;
+  border-color: transparent;
+  transform: none;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  min-width: 0;
+  flex: 1 1 auto;
+  overflow: hidden;
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 54%, transparent);
+  white-space: nowrap;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 78%, transparent);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-meta {
+  justify-content: flex-start;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-count,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-count {
+  display: inline-flex;
+  align-items: center;
+  flex: 0 0 auto;
+  padding: 0;
+  border-radius: 0;
+  background: transparent;
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 58%, transparent);
+  font-size: 13px;
+  line-height: 14px;
+  font-weight: 500;
+  letter-spacing: 0;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-count,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-count {
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 92%, transparent);
+  font-weight: 600;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-separator {
+  flex: 0 0 auto;
+  opacity: 0.35;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .breadcrumb-item {
+  min-width: 0;
+  max-width: 100%;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb {
+  display: inline-flex;
+  align-items: center;
+  gap: 4px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  border-radius: 6px;
+  padding: 2px 6px;
+  transition: background-color 0.14s ease, color 0.14s ease;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb:hover {
+  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, transparent);
+  color: var(--stream-monaco-unchanged-fg);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-separator,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center.stream-monaco-unchanged-merged-secondary .stream-monaco-unchanged-breadcrumb {
+  display: none;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
+  justify-content: flex-start;
+  padding: 0 18px 0 16px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-metadata .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
+  padding: 0 28px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-unchanged-style-simple .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-meta {
+  justify-content: center;
+  padding: 0 10px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-separator,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-breadcrumb,
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-expand {
+  display: none !important;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-overlay {
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+  z-index: 12;
+}
+.stream-monaco-diff-root.stream-monaco-diff-inline .stream-monaco-diff-unchanged-overlay {
+  display: none !important;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-overlay [hidden] {
+  display: none !important;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge {
+  position: absolute;
+  display: grid;
+  grid-template-columns: var(--stream-monaco-unchanged-rail-width, 54px) minmax(0, 1fr);
+  align-items: center;
+  column-gap: 0;
+  min-height: 32px;
+  padding: 0;
+  border-radius: 12px;
+  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 96%,
+    var(--stream-monaco-editor-fg) 4%
+  );
+  box-shadow: 0 18px 28px -28px var(--stream-monaco-widget-shadow);
+  box-sizing: border-box;
+  overflow: hidden;
+  pointer-events: auto;
+  transition: background-color 0.16s ease, border-color 0.16s ease, box-shadow 0.16s ease;
+}
+.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge {
+  min-height: 24px;
+  border-radius: 10px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge:not(.stream-monaco-diff-unchanged-bridge-metadata):not(.stream-monaco-diff-unchanged-bridge-simple) {
+  border-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 18%, transparent);
+  background:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 84%, var(--stream-monaco-editor-fg) 16%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
+    );
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.03),
+    0 22px 34px -30px rgb(2 6 23 / 0.92);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata {
+  grid-template-columns: minmax(0, 1fr);
+  min-height: 32px;
+  border-radius: 0;
+  border-left: 0;
+  border-right: 0;
+  box-shadow: none;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata {
+  border-top: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
+  border-bottom: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 92%,
+    var(--stream-monaco-editor-fg) 8%
+  );
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.02),
+    inset 0 -1px 0 rgb(15 23 42 / 0.22);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple {
+  grid-template-columns: minmax(0, 1fr);
+  min-height: 28px;
+  border: 0;
+  border-radius: 0;
+  background: transparent;
+  box-shadow: none;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple {
+  background: transparent;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge:focus {
+  outline: none;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-rail {
+  display: grid;
+  grid-auto-rows: minmax(0, 1fr);
+  align-self: stretch;
+  min-height: 100%;
+  border-right: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 94%,
+    var(--stream-monaco-editor-fg) 6%
+  );
+  z-index: 1;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-rail {
+  border-right-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  background:
+    linear-gradient(
+      180deg,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 82%, var(--stream-monaco-editor-fg) 18%) 0%,
+      color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%) 100%
+    );
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.04),
+    inset -1px 0 0 rgb(15 23 42 / 0.22);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-rail {
+  justify-items: stretch;
+  border-right: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 92%,
+    var(--stream-monaco-editor-fg) 8%
+  );
+  border-radius: 10px 0 0 10px;
+  overflow: hidden;
+  box-shadow: inset -1px 0 0 color-mix(in srgb, var(--stream-monaco-editor-fg) 6%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-rail {
+  border-right-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
+  background: color-mix(
+    in srgb,
+    var(--stream-monaco-editor-bg) 80%,
+    var(--stream-monaco-editor-fg) 20%
+  );
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.04),
+    inset -1px 0 0 rgb(15 23 42 / 0.24);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
+  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 68%, transparent);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
+  appearance: none;
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  width: 100%;
+  min-height: 15px;
+  padding: 0;
+  border: 0;
+  border-bottom: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
+  background: transparent;
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 54%, transparent);
+  cursor: pointer;
+  font: inherit;
+  transition: background-color 0.14s ease, color 0.14s ease;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal {
+  width: 100%;
+  min-width: 100%;
+  margin-left: 0;
+  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
+  background: transparent;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:first-child {
+  border-radius: 10px 0 0 0;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:last-child {
+  border-radius: 0 0 0 10px;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal:first-child:last-child {
+  border-radius: 10px 0 0 10px;
+}
+.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal {
+  min-height: 12px;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal .codicon {
+  font-size: 18px;
+  line-height: 1;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:last-child {
+  border-bottom: 0;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:hover,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:focus-visible,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal.stream-monaco-focus-visible {
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 68%, transparent);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:hover,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal:focus-visible,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-reveal.stream-monaco-focus-visible {
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 74%, var(--stream-monaco-editor-fg) 26%);
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 90%, transparent);
+  box-shadow: inset 0 1px 0 rgb(255 255 255 / 0.06);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-line-info .stream-monaco-unchanged-reveal {
+  border-bottom-color: color-mix(in srgb, var(--stream-monaco-editor-fg) 14%, transparent);
+  background: transparent;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary {
+  appearance: none;
+  display: flex;
+  align-items: center;
+  justify-content: flex-start;
+  min-width: 0;
+  min-height: 30px;
+  padding: 0 18px 0 16px;
+  border: 0;
+  background: transparent;
+  box-sizing: border-box;
+  color: inherit;
+  text-align: left;
+  cursor: pointer;
+  font: inherit;
+  z-index: 1;
+  transition: background-color 0.14s ease;
+}
+.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary {
+  min-height: 22px;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-metadata {
+  min-height: 30px;
+  padding: 0 28px;
+  cursor: default;
+  pointer-events: none;
+}
+.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-metadata {
+  min-height: 22px;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-simple {
+  justify-content: center;
+  min-height: 28px;
+  padding: 0 10px;
+  cursor: default;
+  pointer-events: none;
+}
+.stream-monaco-diff-root.stream-monaco-diff-side-by-side .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-unchanged-summary-simple {
+  min-height: 22px;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 91%, var(--stream-monaco-editor-fg) 9%);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: transparent;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 96%, transparent);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: transparent;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:hover,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary:focus-visible,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-metadata .stream-monaco-unchanged-summary.stream-monaco-focus-visible {
+  background: transparent;
+  box-shadow: none;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta {
+  justify-self: stretch;
+  justify-content: flex-start;
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-meta.stream-monaco-unchanged-meta-simple {
+  justify-content: center;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-metadata-label,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-metadata-label {
+  display: inline-flex;
+  align-items: center;
+  min-width: 0;
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 60%, transparent);
+  font-size: 13px;
+  line-height: 14px;
+  font-weight: 500;
+  letter-spacing: 0.01em;
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-metadata-label,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-metadata-label {
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 88%, transparent);
+  font-weight: 550;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-simple-bar,
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-simple-bar {
+  width: min(100%, calc(100% - 20px));
+  height: 10px;
+  border-radius: 999px;
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
+  box-shadow: inset 0 1px 0 rgb(255 255 255 / 0.7);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .monaco-editor .diff-hidden-lines .center .stream-monaco-unchanged-simple-bar,
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-simple-bar {
+  height: 9px;
+  background: linear-gradient(
+    90deg,
+    color-mix(in srgb, var(--stream-monaco-editor-bg) 78%, var(--stream-monaco-editor-fg) 22%) 0%,
+    color-mix(in srgb, var(--stream-monaco-editor-bg) 72%, var(--stream-monaco-editor-fg) 28%) 100%
+  );
+  box-shadow:
+    inset 0 1px 0 rgb(255 255 255 / 0.04),
+    inset 0 0 0 1px rgb(148 163 184 / 0.06);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-pane-divider {
+  position: absolute;
+  top: 0;
+  bottom: 0;
+  left: var(--stream-monaco-unchanged-split-offset, 50%);
+  width: 1px;
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 7%, transparent);
+  pointer-events: none;
+  transform: translateX(-0.5px);
+}
+.stream-monaco-diff-root.stream-monaco-diff-appearance-dark .stream-monaco-diff-unchanged-bridge .stream-monaco-unchanged-pane-divider {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+}
+.stream-monaco-diff-root .stream-monaco-diff-unchanged-bridge.stream-monaco-diff-unchanged-bridge-simple .stream-monaco-unchanged-pane-divider {
+  top: 8px;
+  bottom: 8px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-compact {
+  align-items: center;
+  gap: 6px;
+  height: 16px;
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines-compact .text {
+  padding: 0 6px;
+  border-radius: 999px;
+  background: color-mix(in srgb, var(--stream-monaco-unchanged-fg) 10%, var(--stream-monaco-editor-bg) 90%);
+  color: var(--stream-monaco-unchanged-fg);
+}
+.stream-monaco-diff-root .monaco-editor .fold-unchanged {
+  display: flex !important;
+  align-items: center;
+  justify-content: center;
+  width: 18px !important;
+  height: 18px !important;
+  margin-left: 4px;
+  border-radius: 999px;
+  color: var(--stream-monaco-unchanged-fg);
+  background: color-mix(in srgb, var(--stream-monaco-surface) 92%, var(--stream-monaco-editor-bg) 8%);
+  border: 1px solid var(--stream-monaco-border);
+  box-shadow: 0 12px 20px -18px var(--stream-monaco-widget-shadow);
+  opacity: 0.92 !important;
+  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease, opacity 0.14s ease, box-shadow 0.14s ease;
+}
+.stream-monaco-diff-root .monaco-editor .fold-unchanged.stream-monaco-fold-unchanged-hidden {
+  display: none !important;
+}
+.stream-monaco-diff-root .monaco-editor .fold-unchanged:hover,
+.stream-monaco-diff-root .monaco-editor .fold-unchanged.stream-monaco-focus-visible {
+  opacity: 1 !important;
+  transform: translateY(-1px);
+  background: var(--stream-monaco-surface-hover);
+  border-color: var(--stream-monaco-border-strong);
+  box-shadow: 0 16px 26px -18px var(--stream-monaco-widget-shadow);
+}
+.stream-monaco-diff-root .monaco-editor .diff-hidden-lines .center:focus,
+.stream-monaco-diff-root .monaco-editor .fold-unchanged:focus {
+  outline: none;
+}
+.stream-monaco-diff-hunk-overlay {
+  position: absolute;
+  inset: 0;
+  pointer-events: none;
+  z-index: 20;
+}
+.stream-monaco-diff-hunk-actions {
+  position: absolute;
+  left: 0;
+  top: 0;
+  display: none;
+  gap: 6px;
+  pointer-events: auto;
+  padding: 6px;
+  border-radius: 999px;
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 80%, var(--stream-monaco-editor-fg) 20%);
+  border: 1px solid color-mix(in srgb, var(--stream-monaco-editor-fg) 12%, transparent);
+  box-shadow: 0 18px 34px -24px var(--stream-monaco-widget-shadow);
+  backdrop-filter: blur(14px);
+}
+.stream-monaco-diff-hunk-actions button {
+  appearance: none;
+  border: 1px solid transparent;
+  border-radius: 999px;
+  padding: 4px 10px;
+  font-size: 11px;
+  line-height: 1.35;
+  font-weight: 700;
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 94%, var(--stream-monaco-editor-fg) 6%);
+  color: var(--stream-monaco-editor-fg);
+  cursor: pointer;
+  transition: background-color 0.14s ease, border-color 0.14s ease, transform 0.14s ease;
+}
+.stream-monaco-diff-hunk-actions button[data-action="revert"] {
+  background: color-mix(in srgb, var(--stream-monaco-removed-line) 78%, var(--stream-monaco-editor-bg) 22%);
+  border-color: var(--stream-monaco-removed-border);
+  color: color-mix(in srgb, var(--stream-monaco-removed-fg) 82%, var(--stream-monaco-editor-fg) 18%);
+}
+.stream-monaco-diff-hunk-actions button[data-action="stage"] {
+  background: color-mix(in srgb, var(--stream-monaco-added-line) 78%, var(--stream-monaco-editor-bg) 22%);
+  border-color: var(--stream-monaco-added-border);
+  color: color-mix(in srgb, var(--stream-monaco-added-fg) 82%, var(--stream-monaco-editor-fg) 18%);
+}
+.stream-monaco-diff-hunk-actions button[data-action="reject"] {
+  background: color-mix(in srgb, var(--stream-monaco-removed-line) 78%, var(--stream-monaco-editor-bg) 22%);
+  border-color: var(--stream-monaco-removed-border);
+  color: color-mix(in srgb, var(--stream-monaco-removed-fg) 82%, var(--stream-monaco-editor-fg) 18%);
+}
+.stream-monaco-diff-hunk-actions button[data-action="accept"] {
+  background: color-mix(in srgb, var(--stream-monaco-added-line) 78%, var(--stream-monaco-editor-bg) 22%);
+  border-color: var(--stream-monaco-added-border);
+  color: color-mix(in srgb, var(--stream-monaco-added-fg) 82%, var(--stream-monaco-editor-fg) 18%);
+}
+.stream-monaco-diff-hunk-actions button[aria-pressed="true"] {
+  box-shadow: inset 0 0 0 1px currentColor;
+}
+.stream-monaco-diff-hunk-counter {
+  position: absolute;
+  top: 8px;
+  right: 18px;
+  z-index: 21;
+  pointer-events: none;
+  padding: 2px 8px;
+  border-radius: 999px;
+  font-size: 11px;
+  line-height: 1.5;
+  font-weight: 600;
+  font-variant-numeric: tabular-nums;
+  color: color-mix(in srgb, var(--stream-monaco-editor-fg) 72%, transparent);
+  background: color-mix(in srgb, var(--stream-monaco-editor-bg) 88%, var(--stream-monaco-editor-fg) 12%);
+  border: 1px solid var(--stream-monaco-panel-border);
+}
+.stream-monaco-merge-marker {
+  background: color-mix(in srgb, var(--stream-monaco-editor-fg) 8%, transparent);
+}
+.stream-monaco-merge-ours,
+.stream-monaco-merge-theirs,
+.stream-monaco-merge-resolved {
+  width: 3px !important;
+  margin-left: 2px;
+}
+.stream-monaco-merge-ours {
+  background: var(--stream-monaco-focus);
+}
+.stream-monaco-merge-theirs {
+  background: var(--stream-monaco-added-border);
+}
+.stream-monaco-merge-resolved {
+  background: var(--stream-monaco-panel-border);
+}
+.stream-monaco-diff-review-accepted,
+.stream-monaco-diff-review-rejected {
+  width: 3px !important;
+  margin-left: 2px;
+}
+.stream-monaco-diff-review-accepted {
+  background: var(--stream-monaco-added-border);
+}
+.stream-monaco-diff-review-rejected {
+  background: var(--stream-monaco-removed-border);
+}
+.stream-monaco-diff-hunk-actions button:hover {
+  transform: translateY(-1px);
+}
+.stream-monaco-diff-hunk-actions button:disabled {
+  opacity: 0.45;
+  cursor: default;
+  transform: none;
+}
+`
+
+export const streamingIndicatorStyleId = 'stream-monaco-streaming-indicator-style'
+// `--stream-monaco-editor-fg` is resolved from the theme on the diff root;
+// the plain editor falls back to Monaco's cursor color.
+export const streamingIndicatorCss = `
+.stream-monaco-streaming-indicator {
+  --stream-monaco-streaming-indicator-color: var(
+    --stream-monaco-editor-fg,
+    var(--vscode-editorCursor-foreground, currentColor)
+  );
+  display: inline-block;
+  pointer-events: none;
+}
+.stream-monaco-streaming-indicator-caret {
+  width: 2px;
+  height: 1.15em;
+  margin-left: 1px;
+  vertical-align: text-bottom;
+  background: var(--stream-monaco-streaming-indicator-color);
+  animation: stream-monaco-streaming-caret 1s steps(1, end) infinite;
+}
+.stream-monaco-streaming-indicator-pulse {
+  width: 0.5em;
+  height: 0.5em;
+  margin-left: 0.35em;
+  border-radius: 50%;
+  vertical-align: middle;
+  background: var(--stream-monaco-streaming-indicator-color);
+  animation: stream-monaco-streaming-pulse 1.2s ease-in-out infinite;
+}
+@keyframes stream-monaco-streaming-caret {
+  50% { opacity: 0; }
+}
+@keyframes stream-monaco-streaming-pulse {
+  0%, 100% { opacity: 0.35; transform: scale(0.8); }
+  50% { opacity: 0.9; transform: scale(1); }
+}
+@media (prefers-reduced-motion: reduce) {
+  .stream-monaco-streaming-indicator {
+    animation: none;
+  }
+}
+`
+
+export const changeMarksStyleId = 'stream-monaco-change-marks-style'
+export const changeMarksCss = `
+.stream-monaco-change {
+  background: var(
+    --stream-monaco-change-bg,
+    var(--vscode-diffEditor-insertedTextBackground, rgb(155 185 85 / 20%))
+  );
+  border-bottom: 1px dotted var(
+    --stream-monaco-change-border,
+    var(--vscode-editorWarning-foreground, rgb(205 151 49))
+  );
+}
+.stream-monaco-change-deleted {
+  display: inline-block;
+  width: 2px;
+  height: 1em;
+  vertical-align: text-bottom;
+  background: var(
+    --stream-monaco-change-deleted,
+    var(--vscode-diffEditor-removedTextBorder, var(--vscode-editorError-foreground, rgb(241 76 76)))
+  );
+}
+`
+
+export const streamingHighlightStyleId = 'stream-monaco-streaming-highlight-style'
+export const streamingHighlightCss = `
+.stream-monaco-streaming-highlight {
+  background: var(
+    --stream-monaco-streaming-highlight-bg,
+    color-mix(
+      in srgb,
+      var(--stream-monaco-editor-fg, var(--vscode-editor-foreground, currentColor)) 14%,
+      transparent
+    )
+  );
+  pointer-events: none;
+}
+.stream-monaco-streaming-highlight-1 { opacity: 0.7; }
+.stream-monaco-streaming-highlight-2 { opacity: 0.45; }
+.stream-monaco-streaming-highlight-3 { opacity: 0.2; }
+`
+
+export const elementStyleId = 'stream-monaco-element-style'
+export const elementCss = `
+:where(stream-monaco, stream-monaco-diff) { display: block; }
+`
+
+/** Everything above in one sheet; the contents of `stream-monaco/diff.css`. */
+export const streamMonacoCss = [
+  diffUiCss,
+  streamingIndicatorCss,
+  changeMarksCss,
+  streamingHighlightCss,
+  elementCss,
+].join('')
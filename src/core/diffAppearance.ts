@@ -255,6 +255,32 @@ function syncDiffRootThemeVariables(
   }
 }
 
+/**
+ * DOM-free variant of the appearance resolution used for the live diff root:
+ * explicit option first, then the theme name, then an already known editor
+ * background color.
+ */
+export function resolveStaticDiffAppearance(
+  diffAppearance: DiffAppearanceOption,
+  themeName: string | null | undefined,
+  backgroundColor?: string | null,
+): DiffAppearance {
+  if (diffAppearance === 'light')
+    return 'light'
+  if (diffAppearance === 'dark')
+    return 'dark'
+  if (looksLikeDarkThemeName(themeName))
+    return 'dark'
+  if (looksLikeLightThemeName(themeName))
+    return 'light'
+  const luminance = backgroundColor
+    ? resolveCssColorLuminance(backgroundColor)
+    : null
+  if (luminance != null)
+    return luminance <= 0.42 ? 'dark' : 'light'
+  return 'light'
+}
+
 export function resolveDiffUnchangedLineInfoRailMetrics(
   node: HTMLElement,
 ): DiffUnchangedLineInfoRailMetrics {
@@ -1,15 +1,25 @@
 import type {
   DiffHunkActionContext,
   DiffHunkActionKind,
+  DiffHunkReviewDecision,
   DiffHunkSide,
 } from '../type'
+import type { DiffHunkLineRange } from './diffLineChanges'
 import * as monaco from '../monaco-shim'
 
 export type DiffEditorSide = 'original' | 'modified'
 
+const diffHunkActionLabels: Record<DiffHunkActionKind, string> = {
+  revert: 'Revert',
+  stage: 'Stage',
+  accept: 'Accept',
+  reject: 'Reject',
+}
+
 export function createDiffHunkActionNode(
   side: DiffHunkSide,
   onAction: (side: DiffHunkSide, action: DiffHunkActionKind) => void,
+  actions: DiffHunkActionKind[] = ['revert', 'stage'],
 ): HTMLDivElement {
   const node = document.createElement('div')
   node.className = 'stream-monaco-diff-hunk-actions'
@@ -29,8 +39,7 @@ export function createDiffHunkActionNode(
   }
 
   node.append(
-    createButton('revert', 'Revert'),
-    createButton('stage', 'Stage'),
+    ...actions.map(action => createButton(action, diffHunkActionLabels[action])),
   )
 
   return node
@@ -50,6 +59,34 @@ export function hasModifiedLines(change: monaco.editor.ILineChange) {
   )
 }
 
+/**
+ * Line of the modified editor that represents a hunk: its first added line,
+ * or the line next to which lines were removed.
+ */
+export function getDiffHunkModifiedAnchorLine(change: monaco.editor.ILineChange) {
+  return Math.max(
+    1,
+    change.modifiedStartLineNumber || change.modifiedEndLineNumber || 1,
+  )
+}
+
+/** Index of the hunk whose modified lines contain `line`, or -1. */
+export function findDiffHunkIndexAtLine(
+  lineChanges: monaco.editor.ILineChange[],
+  line: number,
+) {
+  return lineChanges.findIndex((change) => {
+    const anchor = getDiffHunkModifiedAnchorLine(change)
+    const end = hasModifiedLines(change) ? change.modifiedEndLineNumber : anchor
+    return line >= anchor && line <= end
+  })
+}
+
+export function formatDiffHunkCounterLabel(index: number, total: number) {
+  const noun = total === 1 ? 'change' : 'changes'
+  return index >= 0 ? `${index + 1} / ${total} ${noun}` : `${total} ${noun}`
+}
+
 export function inferInlineDiffHunkHoverSide(
   change: monaco.editor.ILineChange,
   hoverLine: number,
@@ -305,3 +342,51 @@ export function positionDiffHunkNode(
   node.style.transform = `translate(${Math.round(left)}px, ${Math.round(top)}px)`
   node.style.display = 'flex'
 }
+
+export function setDiffHunkNodeDecision(
+  node: HTMLDivElement | null,
+  decision: DiffHunkReviewDecision,
+) {
+  if (!node)
+    return
+  node.dataset.decision = decision
+  node.querySelectorAll('button').forEach((button) => {
+    const action = (button as HTMLButtonElement).dataset.action
+    const pressed = (action === 'accept' && decision === 'accepted')
+      || (action === 'reject' && decision === 'rejected')
+    button.setAttribute('aria-pressed', String(pressed))
+  })
+}
+
+export function getDiffHunkReviewKey(range: DiffHunkLineRange) {
+  return `${range.originalIndex},${range.originalCount}:${range.modifiedIndex},${range.modifiedCount}`
+}
+
+/**
+ * Rebuild the original with the accepted hunks taken from the modified
+ * side. Both texts are split like model lines, so final newlines follow the
+ * hunks that cover them.
+ */
+export function mergeReviewedDiffHunks(
+  originalText: string,
+  modifiedText: string,
+  ranges: DiffHunkLineRange[],
+  isAccepted: (index: number) => boolean,
+) {
+  const eol = originalText.includes('\r\n') ? '\r\n' : '\n'
+  const originalLines = originalText.split(/\r?\n/)
+  const modifiedLines = modifiedText.split(/\r?\n/)
+  const merged: string[] = []
+  let cursor = 0
+  ranges.forEach((range, index) => {
+    if (range.originalIndex < cursor)
+      return
+    merged.push(...originalLines.slice(cursor, range.originalIndex))
+    merged.push(...(isAccepted(index)
+      ? modifiedLines.slice(range.modifiedIndex, range.modifiedIndex + range.modifiedCount)
+      : originalLines.slice(range.originalIndex, range.originalIndex + range.originalCount)))
+    cursor = range.originalIndex + range.originalCount
+  })
+  merged.push(...originalLines.slice(cursor))
+  return merged.join(eol)
+}
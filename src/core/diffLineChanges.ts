@@ -0,0 +1,139 @@
+import type * as monaco from '../monaco-shim'
+import { countDiffLines } from './diffUnchanged'
+
+/**
+ * LCS-based line diff used when Monaco's own diff result is unavailable or
+ * stale, and by DOM-free renderers that have no diff worker at all. The result
+ * mirrors Monaco's `ILineChange` shape (empty sides use `end = start - 1`).
+ */
+export function computeLineChanges(
+  originalText: string,
+  modifiedText: string,
+): monaco.editor.ILineChange[] {
+  const original = originalText.split(/\r?\n/)
+  const modified = modifiedText.split(/\r?\n/)
+  const n = original.length
+  const m = modified.length
+  if (n === 0 && m === 0)
+    return []
+
+  // Bound worst-case CPU/memory for fallback mode.
+  const maxCells = 1_500_000
+  if ((n + 1) * (m + 1) > maxCells) {
+    return originalText === modifiedText
+      ? []
+      : [
+          {
+            originalStartLineNumber: 1,
+            originalEndLineNumber: n,
+            modifiedStartLineNumber: 1,
+            modifiedEndLineNumber: m,
+            charChanges: [],
+          },
+        ]
+  }
+
+  const cols = m + 1
+  const dp = new Uint32Array((n + 1) * (m + 1))
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const idx = i * cols + j
+      if (original[i - 1] === modified[j - 1]) {
+        dp[idx] = dp[(i - 1) * cols + (j - 1)] + 1
+      }
+      else {
+        const top = dp[(i - 1) * cols + j]
+        const left = dp[i * cols + (j - 1)]
+        dp[idx] = top >= left ? top : left
+      }
+    }
+  }
+
+  const matches: Array<{ o: number, m: number }> = []
+  let i = n
+  let j = m
+  while (i > 0 && j > 0) {
+    if (original[i - 1] === modified[j - 1]) {
+      matches.push({ o: i, m: j })
+      i--
+      j--
+    }
+    else {
+      const top = dp[(i - 1) * cols + j]
+      const left = dp[i * cols + (j - 1)]
+      if (top >= left)
+        i--
+      else j--
+    }
+  }
+  matches.reverse()
+  matches.push({ o: n + 1, m: m + 1 })
+
+  const lineChanges: monaco.editor.ILineChange[] = []
+  let prevO = 1
+  let prevM = 1
+  for (const match of matches) {
+    const oStart = prevO
+    const oEnd = match.o - 1
+    const mStart = prevM
+    const mEnd = match.m - 1
+    const hasOriginal = oStart <= oEnd
+    const hasModified = mStart <= mEnd
+    if (hasOriginal || hasModified) {
+      lineChanges.push({
+        originalStartLineNumber: hasOriginal ? oStart : oStart,
+        originalEndLineNumber: hasOriginal ? oEnd : oStart - 1,
+        modifiedStartLineNumber: hasModified ? mStart : mStart,
+        modifiedEndLineNumber: hasModified ? mEnd : mStart - 1,
+        charChanges: [],
+      })
+    }
+    prevO = match.o + 1
+    prevM = match.m + 1
+  }
+  return lineChanges
+}
+
+export interface DiffHunkLineRange {
+  /** 0-based line index of the hunk in the original. */
+  originalIndex: number
+  originalCount: number
+  /** 0-based line index of the hunk in the modified. */
+  modifiedIndex: number
+  modifiedCount: number
+}
+
+/**
+ * Resolve line changes to 0-based model line ranges. Monaco marks an empty
+ * side with `end = 0` (and `start = 0` at the top of the file), the fallback
+ * diff with `end = start - 1`, so the position of an empty side is derived
+ * from the other side instead.
+ */
+export function resolveDiffHunkLineRanges(
+  lineChanges: monaco.editor.ILineChange[],
+): DiffHunkLineRange[] {
+  let delta = 0
+  return lineChanges.map((change) => {
+    const originalCount = countDiffLines(
+      change.originalStartLineNumber,
+      change.originalEndLineNumber,
+    )
+    const modifiedCount = countDiffLines(
+      change.modifiedStartLineNumber,
+      change.modifiedEndLineNumber,
+    )
+    const originalIndex = originalCount > 0
+      ? change.originalStartLineNumber - 1
+      : change.modifiedStartLineNumber - 1 - delta
+    const modifiedIndex = modifiedCount > 0
+      ? change.modifiedStartLineNumber - 1
+      : change.originalStartLineNumber - 1 + delta
+    delta += modifiedCount - originalCount
+    return {
+      originalIndex: Math.max(0, originalIndex),
+      originalCount,
+      modifiedIndex: Math.max(0, modifiedIndex),
+      modifiedCount,
+    }
+  })
+}
@@ -54,8 +54,13 @@ export function formatDiffUnchangedCountLabel(text: string) {
   return text.replace(/hidden/gi, 'unmodified')
 }
 
+/**
+ * Lines in one side of a line change. Monaco marks an empty side with
+ * `end = 0` (`start = 0` too at the top of the file), the fallback diff with
+ * `end = start - 1`.
+ */
 export function countDiffLines(startLineNumber: number, endLineNumber: number) {
-  return endLineNumber >= startLineNumber
+  return startLineNumber > 0 && endLineNumber >= startLineNumber
     ? endLineNumber - startLineNumber + 1
     : 0
 }
@@ -102,7 +107,10 @@ export function measureDiffUnchangedSurroundingLines(
 }
 
 function formatDiffMetadataRange(startLineNumber: number, lineCount: number) {
-  return `${startLineNumber},${Math.max(0, lineCount)}`
+  // Unified diff names the line *before* an empty range (`-3,0` inserts after
+  // line 3), so `applyUnifiedPatch` and `git apply` read it back correctly.
+  const count = Math.max(0, lineCount)
+  return `${count === 0 ? startLineNumber - 1 : startLineNumber},${count}`
 }
 
 export function buildDiffHunkMetadataLabel(
@@ -0,0 +1,141 @@
+// Incremental splitter for Markdown with fenced code blocks (CommonMark
+// rules): a fence opens with 3+ backticks or tildes indented by at most three
+// spaces, and only a line of the same character, at least as long, closes it.
+// Shorter fences and fences of the other character are plain code lines, so
+// ```` blocks can contain ``` examples.
+
+const openFenceRE = /^( {0,3})(`{3,}(?!`)|~{3,}(?!~))(.*)$/
+const closeFenceRE = /^ {0,3}(`{3,}|~{3,})[ \t]*$/
+// A partial line that may still turn into a fence is held back until its
+// newline arrives.
+const pendingFenceRE = /^ {0,3}(?:[`~]|$)/
+
+export interface FencedStreamHandlers {
+  /** Markdown outside of fences, streamed as it arrives. */
+  onText?: (text: string) => void
+  /** A fence opened; `info` is the trimmed info string (`ts title="a.ts"`). */
+  onOpen: (info: string) => void
+  /**
+   * More code of the open block. Lines are joined with `\n`; the newline
+   * before the closing fence is not part of the code.
+   */
+  onCode: (text: string) => void
+  /** The open block ended; `terminated` is false when `end()` closed it. */
+  onClose: (terminated: boolean) => void
+}
+
+export interface FencedStreamParser {
+  push: (text: string) => void
+  /** Flush the last line and close an unterminated final fence. */
+  end: () => void
+}
+
+interface OpenFence {
+  char: string
+  length: number
+  indent: number
+  lines: number
+}
+
+export function createFencedStreamParser(handlers: FencedStreamHandlers): FencedStreamParser {
+  let fence: OpenFence | null = null
+  let buffer = ''
+  // Characters of `buffer` already reported; for code lines they are counted
+  // after the fence indentation is stripped.
+  let emitted = 0
+
+  function stripIndent(line: string, indent: number) {
+    let i = 0
+    while (i < indent && line[i] === ' ')
+      i++
+    return line.slice(i)
+  }
+
+  function emitCode(open: OpenFence, line: string) {
+    const code = stripIndent(line, open.indent)
+    const text = emitted === 0
+      ? `${open.lines > 0 ? '\n' : ''}${code}`
+      : code.slice(emitted)
+    if (text)
+      handlers.onCode(text)
+    emitted = code.length
+  }
+
+  function mayStillBeFence(line: string) {
+    if (!fence)
+      return pendingFenceRE.test(line)
+    const rest = line.trim()
+    return line.length - line.trimStart().length <= 3
+      && [...rest].every(char => char === fence!.char)
+  }
+
+  function consumeLine(line: string, newline: boolean) {
+    const open = fence
+    if (!open) {
+      const match = emitted === 0 ? openFenceRE.exec(line) : null
+      if (match && !(match[2][0] === '`' && match[3].includes('`'))) {
+        fence = { char: match[2][0], length: match[2].length, indent: match[1].length, lines: 0 }
+        handlers.onOpen(match[3].trim())
+      }
+      else {
+        const text = `${line.slice(emitted)}${newline ? '\n' : ''}`
+        if (text)
+          handlers.onText?.(text)
+      }
+      emitted = 0
+      return
+    }
+    const close = emitted === 0 ? closeFenceRE.exec(line) : null
+    if (close && close[1][0] === open.char && close[1].length >= open.length) {
+      fence = null
+      handlers.onClose(true)
+    }
+    else {
+      emitCode(open, line)
+      open.lines++
+    }
+    emitted = 0
+  }
+
+  function consumePartialLine() {
+    const line = buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer
+    if (!line)
+      return
+    if (emitted === 0 && mayStillBeFence(line))
+      return
+    if (fence) {
+      emitCode(fence, line)
+    }
+    else {
+      handlers.onText?.(line.slice(emitted))
+      emitted = line.length
+    }
+  }
+
+  return {
+    push(text) {
+      buffer += text
+      let start = 0
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        const line = buffer.slice(start, newline)
+        consumeLine(line.endsWith('\r') ? line.slice(0, -1) : line, true)
+        start = newline + 1
+        newline = buffer.indexOf('\n', start)
+      }
+      buffer = buffer.slice(start)
+      consumePartialLine()
+    },
+    end() {
+      if (buffer) {
+        consumeLine(buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer, false)
+        buffer = ''
+      }
+      emitted = 0
+      if (fence) {
+        fence = null
+        handlers.onClose(false)
+      }
+    },
+  }
+}
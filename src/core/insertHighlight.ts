@@ -0,0 +1,118 @@
+import type { MonacoOptions } from '../type'
+import { defaultStreamingHighlightMs } from '../constant'
+import * as monaco from '../monaco-shim'
+import { ensureStyleElement } from '../utils/style'
+import { streamingHighlightCss, streamingHighlightStyleId } from './chromeStyles'
+
+// Monaco rebuilds overlay nodes whenever a line re-renders, which restarts
+// CSS animations; the fade is stepped through classes instead.
+const fadeSteps = 4
+const maxLiveHighlights = 24
+
+interface HighlightEntry {
+  range: monaco.Range
+  born: number
+}
+
+export interface InsertHighlighter {
+  /** Highlight the text from `(line, column)` to the end of the model. */
+  markAppended: (line: number, column: number) => void
+  /** Drop every highlight, e.g. after an edit that was not an append. */
+  clear: () => void
+  dispose: () => void
+}
+
+/**
+ * Fading background for text that was just appended to `editor`. Appends
+ * within one fade step extend the previous range instead of adding a
+ * decoration, and at most `maxLiveHighlights` ranges are kept. Returns null
+ * when `options.streamingHighlight` is off.
+ */
+export function createInsertHighlighter(
+  editor: monaco.editor.ICodeEditor,
+  options: MonacoOptions,
+): InsertHighlighter | null {
+  const durationMs = options.streamingHighlightMs ?? defaultStreamingHighlightMs
+  if (!options.streamingHighlight || !(durationMs > 0))
+    return null
+  const stepMs = durationMs / fadeSteps
+  let entries: HighlightEntry[] = []
+  let decorationIds: string[] = []
+  let timer: number | null = null
+
+  function clearTimer() {
+    if (timer != null) {
+      clearTimeout(timer)
+      timer = null
+    }
+  }
+
+  function render(now: number) {
+    entries = entries.filter(entry => now - entry.born < durationMs)
+    decorationIds = editor.deltaDecorations(decorationIds, entries.map((entry) => {
+      const step = Math.min(fadeSteps - 1, Math.floor((now - entry.born) / stepMs))
+      return {
+        range: entry.range,
+        options: {
+          className: `stream-monaco-streaming-highlight stream-monaco-streaming-highlight-${step}`,
+        },
+      }
+    }))
+    if (timer == null && entries.length > 0) {
+      timer = setTimeout(() => {
+        timer = null
+        render(Date.now())
+      }, stepMs) as unknown as number
+    }
+  }
+
+  return {
+    markAppended(line, column) {
+      const model = editor.getModel()
+      if (!model)
+        return
+      const endLine = model.getLineCount()
+      const endColumn = model.getLineMaxColumn(endLine)
+      if (endLine < line || (endLine === line && endColumn <= column))
+        return
+      ensureStyleElement(streamingHighlightStyleId, streamingHighlightCss, editor.getDomNode(), options)
+      const now = Date.now()
+      const last = entries[entries.length - 1]
+      const touchesLast = last
+        && (last.range.endLineNumber > line
+          || (last.range.endLineNumber === line && last.range.endColumn >= column))
+      if (last && touchesLast && now - last.born < stepMs) {
+        last.range = new monaco.Range(
+          last.range.startLineNumber,
+          last.range.startColumn,
+          endLine,
+          endColumn,
+        )
+      }
+      else {
+        entries.push({
+          range: new monaco.Range(line, column, endLine, endColumn),
+          born: now,
+        })
+        if (entries.length > maxLiveHighlights)
+          entries.splice(0, entries.length - maxLiveHighlights)
+      }
+      render(now)
+    },
+    clear() {
+      clearTimer()
+      entries = []
+      if (decorationIds.length === 0)
+        return
+      try {
+        decorationIds = editor.deltaDecorations(decorationIds, [])
+      }
+      catch {}
+    },
+    dispose() {
+      clearTimer()
+      entries = []
+      decorationIds = []
+    },
+  }
+}
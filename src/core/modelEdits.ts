@@ -0,0 +1,42 @@
+import type { MinimalTextEdit } from '../minimalEdit'
+import type { ReplacedSegment } from './changeMarks'
+import * as monaco from '../monaco-shim'
+import { utf8ByteLength } from '../utils/textChunks'
+
+/** Monaco edit operations for `edits`, whose offsets point into `model`. */
+export function toEditOperations(
+  model: monaco.editor.ITextModel,
+  edits: MinimalTextEdit[],
+): monaco.editor.IIdentifiedSingleEditOperation[] {
+  return edits.map((edit) => {
+    const from = model.getPositionAt(edit.start)
+    const to = model.getPositionAt(edit.end)
+    return {
+      range: new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column),
+      text: edit.text,
+      forceMoveMarkers: true,
+    }
+  })
+}
+
+export function getEditsByteDelta(prev: string, edits: MinimalTextEdit[]) {
+  let delta = 0
+  for (const edit of edits)
+    delta += utf8ByteLength(edit.text) - utf8ByteLength(prev.slice(edit.start, edit.end))
+  return delta
+}
+
+/** Where each edit landed in the new text. */
+export function toReplacedSegments(edits: MinimalTextEdit[]): ReplacedSegment[] {
+  let shift = 0
+  return edits.map((edit) => {
+    const nextStart = edit.start + shift
+    shift += edit.text.length - (edit.end - edit.start)
+    return {
+      prevStart: edit.start,
+      prevEnd: edit.end,
+      nextStart,
+      nextEnd: nextStart + edit.text.length,
+    }
+  })
+}
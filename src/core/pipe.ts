@@ -0,0 +1,142 @@
+import type { PipeTextOptions, TextStreamSource } from '../type'
+import { nextFrame } from '../utils/raf'
+
+const defaultHighWaterMark = 16 * 1024
+
+export interface TextSink {
+  /** Buffer `text` for the editor; returns false once the editor is gone. */
+  append: (text: string) => boolean
+  /** Appended text is still waiting for the next (throttled) flush. */
+  hasPendingAppend: () => boolean
+}
+
+interface ChunkReader {
+  read: () => Promise<IteratorResult<string | Uint8Array>>
+  cancel: (reason?: unknown) => void
+}
+
+function createChunkReader(source: TextStreamSource): ChunkReader {
+  if (typeof (source as ReadableStream).getReader === 'function') {
+    const reader = (source as ReadableStream<string | Uint8Array>).getReader()
+    return {
+      read: () => reader.read() as Promise<IteratorResult<string | Uint8Array>>,
+      cancel: (reason) => {
+        reader.cancel(reason).catch(() => {})
+      },
+    }
+  }
+  const iterator = (source as AsyncIterable<string | Uint8Array>)[Symbol.asyncIterator]()
+  return {
+    read: () => iterator.next(),
+    cancel: () => {
+      iterator.return?.().catch(() => {})
+    },
+  }
+}
+
+function abortReason(signal: AbortSignal) {
+  if (signal.reason !== undefined)
+    return signal.reason
+  const err = new Error('The operation was aborted')
+  ;(err as any).name = 'AbortError'
+  return err
+}
+
+/**
+ * Feed a WHATWG stream or async iterable into an editor. Once
+ * `highWaterMark` characters were appended since the editor last drained
+ * its append buffer, reading pauses until the buffer is flushed, so a fast
+ * source cannot run ahead of `updateThrottleMs`. Rejects with the abort
+ * reason when `signal` aborts and cancels the source.
+ */
+export async function pipeTextSource(
+  source: TextStreamSource,
+  sink: TextSink,
+  options: PipeTextOptions = {},
+) {
+  const { signal, highWaterMark = defaultHighWaterMark } = options
+  if (signal?.aborted)
+    throw abortReason(signal)
+
+  const reader = createChunkReader(source)
+  let decoder: TextDecoder | null = null
+  let removeAbortListener = () => {}
+  const aborted = new Promise<never>((_, reject) => {
+    if (!signal)
+      return
+    const onAbort = () => {
+      // Reject first: cancelling settles a pending read synchronously.
+      reject(abortReason(signal))
+      reader.cancel(signal.reason)
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    removeAbortListener = () => signal.removeEventListener('abort', onAbort)
+  })
+  // Only observed through `Promise.race`; keep it from reporting as unhandled.
+  aborted.catch(() => {})
+
+  try {
+    let sinceDrain = 0
+    while (true) {
+      const result = await Promise.race([reader.read(), aborted])
+      if (result.done)
+        break
+      const chunk = result.value
+      let text: string
+      if (typeof chunk === 'string') {
+        text = chunk
+      }
+      else {
+        decoder ??= new TextDecoder()
+        text = decoder.decode(chunk, { stream: true })
+      }
+      if (!text)
+        continue
+      if (!sink.append(text)) {
+        reader.cancel()
+        return
+      }
+      sinceDrain += text.length
+      if (sinceDrain < highWaterMark)
+        continue
+      while (sink.hasPendingAppend()) {
+        await Promise.race([nextFrame(), aborted])
+      }
+      sinceDrain = 0
+    }
+    const tail = decoder?.decode() ?? ''
+    if (tail)
+      sink.append(tail)
+  }
+  finally {
+    removeAbortListener()
+  }
+}
+
+/**
+ * Run several pipes into the same editor. When one of them fails the others
+ * are cancelled, and the returned promise rejects with the first error.
+ */
+export async function pipeTextSources(
+  pipes: Array<{ source: TextStreamSource, sink: TextSink }>,
+  options: PipeTextOptions = {},
+) {
+  const controller = new AbortController()
+  const { signal } = options
+  const forwardAbort = () => controller.abort(signal!.reason)
+  if (signal?.aborted)
+    forwardAbort()
+  else
+    signal?.addEventListener('abort', forwardAbort, { once: true })
+  try {
+    await Promise.all(pipes.map(({ source, sink }) =>
+      pipeTextSource(source, sink, { ...options, signal: controller.signal })
+        .catch((err) => {
+          controller.abort(err)
+          throw err
+        })))
+  }
+  finally {
+    signal?.removeEventListener('abort', forwardAbort)
+  }
+}
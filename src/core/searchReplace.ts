@@ -0,0 +1,240 @@
+// SEARCH/REPLACE edit blocks as emitted by coding assistants:
+//
+//   <<<<<<< SEARCH
+//   old lines
+//   =======
+//   new lines
+//   >>>>>>> REPLACE
+//
+// Text outside blocks (prose, code fences, file names) is ignored.
+import type { SearchReplaceBlock } from '../type'
+
+const searchMarkerRE = /^<{5,9} SEARCH\s*$/
+const dividerMarkerRE = /^={5,9}\s*$/
+const replaceMarkerRE = /^>{5,9} REPLACE\s*$/
+
+type SearchReplaceSection = 'outside' | 'search' | 'replace'
+
+export interface SearchReplaceChunkResult {
+  /** Blocks that started or changed status, in order. */
+  changed: SearchReplaceBlock[]
+  /** Whether `getCode()` changed. */
+  codeChanged: boolean
+}
+
+export interface SearchReplaceStream {
+  push: (text: string) => SearchReplaceChunkResult
+  /**
+   * The stream is over: the unterminated last line is consumed, and a block
+   * cut off before its REPLACE marker becomes `incomplete`.
+   */
+  end: () => SearchReplaceChunkResult
+  getBlocks: () => SearchReplaceBlock[]
+  /** The document with every applied block, plus the streaming replacement. */
+  getCode: () => string
+}
+
+function splitDocumentLines(code: string) {
+  const lines = code === '' ? [] : code.split('\n')
+  const finalNewline = code.endsWith('\n')
+  if (finalNewline)
+    lines.pop()
+  return { lines, finalNewline }
+}
+
+function trimCarriageReturn(line: string) {
+  return line.endsWith('\r') ? line.slice(0, -1) : line
+}
+
+// An unterminated replace line that may still turn into `>>>>>>> REPLACE`.
+function isReplaceMarkerPrefix(partial: string) {
+  const arrows = /^>*/.exec(partial)![0].length
+  if (arrows === partial.length)
+    return arrows <= 9
+  const rest = partial.slice(arrows)
+  return arrows >= 5 && arrows <= 9 && (' REPLACE'.startsWith(rest) || replaceMarkerRE.test(partial))
+}
+
+function findLines(lines: string[], search: string[], normalize: (line: string) => string) {
+  const wanted = search.map(normalize)
+  for (let start = 0; start + wanted.length <= lines.length; start++) {
+    let matched = true
+    for (let i = 0; i < wanted.length; i++) {
+      if (normalize(lines[start + i]) !== wanted[i]) {
+        matched = false
+        break
+      }
+    }
+    if (matched)
+      return start
+  }
+  return -1
+}
+
+/**
+ * Locate `search` in `lines`: exact match first, then ignoring trailing
+ * whitespace, then ignoring indentation. An empty search matches the end of
+ * the document, so blocks can append or fill a new file.
+ */
+function findSearchBlock(lines: string[], search: string[]) {
+  if (!search.length)
+    return lines.length
+  const exact = findLines(lines, search, line => line)
+  if (exact !== -1)
+    return exact
+  const trimmedEnd = findLines(lines, search, line => line.trimEnd())
+  if (trimmedEnd !== -1)
+    return trimmedEnd
+  return findLines(lines, search, line => line.trim())
+}
+
+/**
+ * Incrementally parse SEARCH/REPLACE blocks and apply them to `baseCode`.
+ * A block is located as soon as its SEARCH section is complete; its
+ * replacement then streams into the document line by line until the
+ * REPLACE marker arrives.
+ */
+export function createSearchReplaceStream(baseCode: string): SearchReplaceStream {
+  const blocks: SearchReplaceBlock[] = []
+  const document = splitDocumentLines(baseCode)
+  let lines = document.lines
+  let section: SearchReplaceSection = 'outside'
+  let buffer = ''
+  let current: SearchReplaceBlock | null = null
+  let searchLines: string[] = []
+  let replaceLines: string[] = []
+  // Where the current block's search matched, once known.
+  let matchIndex = -1
+  // The unterminated replace line last included in `getCode()`.
+  let shownPartial: string | null = null
+
+  function isStreamingReplacement() {
+    return !!current && current.status === 'pending' && matchIndex >= 0 && section === 'replace'
+  }
+
+  function partialReplaceLine() {
+    if (!buffer || !isStreamingReplacement())
+      return null
+    const partial = trimCarriageReturn(buffer)
+    return isReplaceMarkerPrefix(partial) ? null : partial
+  }
+
+  // `withPartial` adds the replace line still being received.
+  function currentLines(withPartial: boolean) {
+    if (!isStreamingReplacement())
+      return lines
+    const partial = withPartial ? partialReplaceLine() : null
+    return [
+      ...lines.slice(0, matchIndex),
+      ...replaceLines,
+      ...(partial == null ? [] : [partial]),
+      ...lines.slice(matchIndex + searchLines.length),
+    ]
+  }
+
+  function consumeLine(line: string, result: SearchReplaceChunkResult) {
+    const changed = result.changed
+    if (section === 'outside') {
+      if (searchMarkerRE.test(line)) {
+        current = {
+          index: blocks.length,
+          search: '',
+          replace: '',
+          status: 'pending',
+        }
+        blocks.push(current)
+        searchLines = []
+        replaceLines = []
+        matchIndex = -1
+        section = 'search'
+        changed.push(current)
+      }
+      return
+    }
+    const block = current!
+    if (section === 'search') {
+      if (dividerMarkerRE.test(line)) {
+        section = 'replace'
+        block.search = searchLines.join('\n')
+        matchIndex = findSearchBlock(lines, searchLines)
+        if (matchIndex < 0) {
+          block.status = 'search-not-found'
+          changed.push(block)
+        }
+        else {
+          // The searched lines disappear until the replacement streams in.
+          result.codeChanged = true
+        }
+        return
+      }
+      searchLines.push(line)
+      return
+    }
+    if (replaceMarkerRE.test(line)) {
+      if (block.status === 'pending') {
+        lines = currentLines(false)
+        block.status = 'applied'
+        changed.push(block)
+      }
+      section = 'outside'
+      current = null
+      return
+    }
+    replaceLines.push(line)
+    block.replace = replaceLines.join('\n')
+    if (block.status === 'pending')
+      result.codeChanged = true
+  }
+
+  function syncPartial(result: SearchReplaceChunkResult) {
+    const partial = partialReplaceLine()
+    if (partial !== shownPartial) {
+      shownPartial = partial
+      result.codeChanged = true
+    }
+  }
+
+  return {
+    push(text) {
+      const result: SearchReplaceChunkResult = { changed: [], codeChanged: false }
+      buffer += text
+      let start = 0
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        consumeLine(trimCarriageReturn(buffer.slice(start, newline)), result)
+        start = newline + 1
+        newline = buffer.indexOf('\n', start)
+      }
+      buffer = buffer.slice(start)
+      syncPartial(result)
+      return result
+    },
+    end() {
+      const result: SearchReplaceChunkResult = { changed: [], codeChanged: false }
+      if (buffer) {
+        const line = buffer
+        buffer = ''
+        consumeLine(trimCarriageReturn(line), result)
+      }
+      if (current) {
+        if (current.status === 'pending') {
+          // A truncated replacement is dropped rather than half applied.
+          if (matchIndex >= 0 && section === 'replace')
+            result.codeChanged = true
+          current.status = 'incomplete'
+          result.changed.push(current)
+        }
+        section = 'outside'
+        current = null
+      }
+      shownPartial = null
+      return result
+    },
+    getBlocks: () => blocks,
+    getCode() {
+      const next = currentLines(true)
+      const text = next.join('\n')
+      return document.finalNewline && next.length ? `${text}\n` : text
+    },
+  }
+}
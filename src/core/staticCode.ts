@@ -0,0 +1,177 @@
+import type { MonacoOptions } from '../type'
+import { countLineBreaks } from '../utils/textChunks'
+
+// Monaco's own font defaults (see `EDITOR_FONT_DEFAULTS` in monaco-editor).
+// Static snapshots must use the same metrics, otherwise a block would change
+// height when Monaco takes over the container.
+const macFontFamily = 'Menlo, Monaco, "Courier New", monospace'
+const linuxFontFamily = '"Droid Sans Mono", "monospace", monospace'
+const windowsFontFamily = 'Consolas, "Courier New", monospace'
+const minLineHeightPx = 8
+
+export const staticCodeClassName = 'stream-monaco-static'
+
+export interface StaticCodeMetrics {
+  fontFamily: string
+  fontSize: number
+  lineHeight: number
+  paddingTop: number
+  paddingBottom: number
+}
+
+function detectPlatform(): 'mac' | 'windows' | 'linux' {
+  const nav = typeof navigator !== 'undefined' ? navigator : null
+  const source = `${(nav as any)?.userAgentData?.platform ?? ''} ${nav?.userAgent ?? ''}`
+  if (/mac/i.test(source))
+    return 'mac'
+  if (/win/i.test(source))
+    return 'windows'
+  return 'linux'
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Resolve the font/line metrics a Monaco editor created with `options` would
+ * use. `lineHeight` follows Monaco's rules: values below 8 are multipliers of
+ * the font size and 0 means "derive from the font size".
+ */
+export function resolveStaticCodeMetrics(
+  options: Pick<MonacoOptions, 'fontFamily' | 'fontSize' | 'lineHeight' | 'padding'> = {},
+): StaticCodeMetrics {
+  const platform = detectPlatform()
+  const fontSize = options.fontSize && options.fontSize > 0
+    ? options.fontSize
+    : platform === 'mac' ? 12 : 14
+  const rawLineHeight = options.lineHeight ?? 0
+  let lineHeight: number
+  if (rawLineHeight <= 0)
+    lineHeight = Math.round((platform === 'mac' ? 1.5 : 1.35) * fontSize)
+  else if (rawLineHeight < minLineHeightPx)
+    lineHeight = Math.round(rawLineHeight * fontSize)
+  else
+    lineHeight = rawLineHeight
+  const fontFamily = options.fontFamily
+    || (platform === 'mac'
+      ? macFontFamily
+      : platform === 'windows' ? windowsFontFamily : linuxFontFamily)
+  return {
+    fontFamily,
+    fontSize,
+    lineHeight,
+    paddingTop: Math.max(0, options.padding?.top ?? 0),
+    paddingBottom: Math.max(0, options.padding?.bottom ?? 0),
+  }
+}
+
+/**
+ * Height Monaco reports through `getContentHeight()` for `code` when lines do
+ * not wrap, clamped to `maxHeight`.
+ */
+export function estimateStaticCodeHeight(
+  code: string,
+  metrics: StaticCodeMetrics,
+  maxHeight = Number.POSITIVE_INFINITY,
+) {
+  const lineCount = countLineBreaks(code) + 1
+  const height = lineCount * metrics.lineHeight
+    + metrics.paddingTop
+    + metrics.paddingBottom
+  return Math.min(height, maxHeight)
+}
+
+/**
+ * Render `code` to HTML with a Shiki highlighter, falling back to escaped
+ * plain text when the highlighter is unavailable or does not know the
+ * language/theme yet.
+ */
+export function renderStaticCodeHtml(
+  highlighter: any,
+  code: string,
+  language: string,
+  theme: string,
+) {
+  if (highlighter && typeof highlighter.codeToHtml === 'function') {
+    const loaded: string[] = typeof highlighter.getLoadedLanguages === 'function'
+      ? highlighter.getLoadedLanguages()
+      : []
+    const lang = !loaded.length || loaded.includes(language) ? language : 'text'
+    try {
+      return highlighter.codeToHtml(code, { lang, theme }) as string
+    }
+    catch {
+      try {
+        return highlighter.codeToHtml(code, { lang: 'text', theme }) as string
+      }
+      catch {}
+    }
+  }
+  return `<pre class="shiki"><code>${escapeHtml(code)}</code></pre>`
+}
+
+/**
+ * Inline styles for the static `<pre>` so its lines sit exactly where Monaco
+ * will draw them. Keys are CSSStyleDeclaration property names.
+ */
+export function resolveStaticCodePreStyle(metrics: StaticCodeMetrics): Record<string, string> {
+  return {
+    margin: '0',
+    padding: `${metrics.paddingTop}px 0 ${metrics.paddingBottom}px`,
+    fontFamily: metrics.fontFamily,
+    fontSize: `${metrics.fontSize}px`,
+    lineHeight: `${metrics.lineHeight}px`,
+    minHeight: '100%',
+    boxSizing: 'border-box',
+  }
+}
+
+/** Serialize a style record into a `style` attribute value. */
+export function serializeInlineStyle(style: Record<string, string>) {
+  return Object.entries(style)
+    .map(([key, value]) => `${key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`)}:${value}`)
+    .join(';')
+}
+
+export function applyStaticCodeStyle(host: HTMLElement, metrics: StaticCodeMetrics) {
+  const pre = host.firstElementChild as HTMLElement | null
+  if (!pre)
+    return
+  Object.assign(pre.style, resolveStaticCodePreStyle(metrics))
+}
+
+/**
+ * Ensure `container` has a static code host and return it. The host is the
+ * only node this module adds, so `clearStaticCode` can remove it without
+ * touching anything else the consumer put into the container.
+ */
+export function ensureStaticCodeHost(container: HTMLElement) {
+  const existing = findStaticCodeHost(container)
+  if (existing)
+    return existing
+  const host = document.createElement('div')
+  host.className = staticCodeClassName
+  host.style.height = '100%'
+  host.style.overflow = 'auto'
+  container.appendChild(host)
+  return host
+}
+
+function findStaticCodeHost(container: HTMLElement) {
+  const children = Array.from(container.children ?? []) as HTMLElement[]
+  return children.find(child => child.className === staticCodeClassName) ?? null
+}
+
+export function clearStaticCode(container: HTMLElement) {
+  const host = findStaticCodeHost(container)
+  if (!host)
+    return false
+  host.remove()
+  return true
+}
@@ -0,0 +1,103 @@
+import type { MonacoOptions, StreamingIndicatorStyle } from '../type'
+import { defaultStreamingIndicatorIdleMs } from '../constant'
+import * as monaco from '../monaco-shim'
+import { ensureStyleElement } from '../utils/style'
+import { streamingIndicatorCss, streamingIndicatorStyleId } from './chromeStyles'
+
+export interface StreamingIndicator {
+  /** Move the indicator to the end of the model and restart the idle timer. */
+  touch: () => void
+  /** Keep the indicator visible until `hide()`, e.g. while awaiting a token. */
+  hold: () => void
+  hide: () => void
+  isVisible: () => boolean
+  dispose: () => void
+}
+
+function resolveIndicatorStyle(
+  option: MonacoOptions['streamingIndicator'],
+): StreamingIndicatorStyle | null {
+  if (option === true)
+    return 'caret'
+  if (option === 'caret' || option === 'pulse')
+    return option
+  return null
+}
+
+/**
+ * Decoration that marks the generation tail of `editor`. Returns null when
+ * `options.streamingIndicator` is off.
+ */
+export function createStreamingIndicator(
+  editor: monaco.editor.ICodeEditor,
+  options: MonacoOptions,
+): StreamingIndicator | null {
+  const style = resolveIndicatorStyle(options.streamingIndicator)
+  if (!style)
+    return null
+  const idleMs = options.streamingIndicatorIdleMs ?? defaultStreamingIndicatorIdleMs
+  const className = `stream-monaco-streaming-indicator stream-monaco-streaming-indicator-${style}`
+  let decorationIds: string[] = []
+  let idleTimer: number | null = null
+  let held = false
+  let visible = false
+
+  function clearIdleTimer() {
+    if (idleTimer != null) {
+      clearTimeout(idleTimer)
+      idleTimer = null
+    }
+  }
+
+  function render() {
+    const model = editor.getModel()
+    if (!model)
+      return
+    ensureStyleElement(streamingIndicatorStyleId, streamingIndicatorCss, editor.getDomNode(), options)
+    const line = model.getLineCount()
+    const column = model.getLineMaxColumn(line)
+    decorationIds = editor.deltaDecorations(decorationIds, [{
+      range: new monaco.Range(line, column, line, column),
+      options: { afterContentClassName: className, showIfCollapsed: true },
+    }])
+    visible = true
+  }
+
+  function hide() {
+    held = false
+    clearIdleTimer()
+    if (!visible)
+      return
+    visible = false
+    try {
+      decorationIds = editor.deltaDecorations(decorationIds, [])
+    }
+    catch {}
+  }
+
+  return {
+    touch() {
+      render()
+      if (held)
+        return
+      clearIdleTimer()
+      idleTimer = setTimeout(() => {
+        idleTimer = null
+        hide()
+      }, idleMs) as unknown as number
+    },
+    hold() {
+      held = true
+      clearIdleTimer()
+      render()
+    },
+    hide,
+    isVisible: () => visible,
+    dispose() {
+      clearIdleTimer()
+      held = false
+      visible = false
+      decorationIds = []
+    },
+  }
+}
@@ -0,0 +1,229 @@
+import type {
+  MergeConflictResolution,
+  MergeEditorSides,
+} from '../type'
+import type { DiffHunkLineRange } from './diffLineChanges'
+import { computeLineChanges, resolveDiffHunkLineRanges } from './diffLineChanges'
+
+export type MergeRegion
+  = | { kind: 'stable', lines: string[] }
+    | { kind: 'ours' | 'theirs' | 'same', lines: string[] }
+    | {
+      kind: 'conflict'
+      /** 0-based line in `base` where the conflicting range starts. */
+      baseIndex: number
+      base: string[]
+      ours: string[]
+      theirs: string[]
+    }
+
+export interface RenderedMergeConflict {
+  index: number
+  resolution: MergeConflictResolution
+  /** 1-based line range of the conflict in the rendered text. */
+  startLineNumber: number
+  endLineNumber: number
+  /**
+   * Line ranges of the two sides while unresolved; the marker lines sit
+   * around them.
+   */
+  oursLineRange: [number, number] | null
+  theirsLineRange: [number, number] | null
+}
+
+export interface RenderedMerge {
+  text: string
+  conflicts: RenderedMergeConflict[]
+}
+
+export const mergeConflictMarkers = {
+  start: '<<<<<<< ours',
+  separator: '=======',
+  end: '>>>>>>> theirs',
+}
+
+interface SideRange extends DiffHunkLineRange {
+  side: 'ours' | 'theirs'
+}
+
+function splitLines(text: string) {
+  return text.split(/\r?\n/)
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Three-way line merge in the spirit of diff3. Changes of `ours` and
+ * `theirs` against `base` that overlap or touch form one region: taken from
+ * the side that changed it, or a conflict when both sides changed it
+ * differently.
+ *
+ * The side diffs come from `computeLineChanges`, which gives up above about
+ * 1.5M line pairs and reports the whole file as one change. Past that size a
+ * side changed by both `ours` and `theirs` turns into a single whole-file
+ * conflict.
+ */
+export function computeMergeRegions(sides: MergeEditorSides): MergeRegion[] {
+  const base = splitLines(sides.base)
+  const text = { ours: splitLines(sides.ours), theirs: splitLines(sides.theirs) }
+  const ranges: SideRange[] = []
+  for (const side of ['ours', 'theirs'] as const) {
+    const lineChanges = computeLineChanges(sides.base, sides[side])
+    for (const range of resolveDiffHunkLineRanges(lineChanges))
+      ranges.push({ ...range, side })
+  }
+  // Stable sort keeps `ours` first for ranges starting on the same line.
+  ranges.sort((a, b) => a.originalIndex - b.originalIndex)
+
+  const regions: MergeRegion[] = []
+  // Line count difference each side accumulated before `cursor`.
+  const delta = { ours: 0, theirs: 0 }
+  let cursor = 0
+  let i = 0
+  while (i < ranges.length) {
+    const groupStart = ranges[i].originalIndex
+    let groupEnd = groupStart + ranges[i].originalCount
+    const members = [ranges[i]]
+    i++
+    while (i < ranges.length && ranges[i].originalIndex <= groupEnd) {
+      members.push(ranges[i])
+      groupEnd = Math.max(groupEnd, ranges[i].originalIndex + ranges[i].originalCount)
+      i++
+    }
+
+    if (groupStart > cursor)
+      regions.push({ kind: 'stable', lines: base.slice(cursor, groupStart) })
+
+    const changed = { ours: false, theirs: false }
+    const sideLines = { ours: [] as string[], theirs: [] as string[] }
+    for (const side of ['ours', 'theirs'] as const) {
+      const own = members.filter(member => member.side === side)
+      const start = groupStart + delta[side]
+      const growth = own.reduce(
+        (sum, member) => sum + member.modifiedCount - member.originalCount,
+        0,
+      )
+      changed[side] = own.length > 0
+      sideLines[side] = text[side].slice(start, start + groupEnd - groupStart + growth)
+      delta[side] += growth
+    }
+
+    if (changed.ours && changed.theirs) {
+      if (sameLines(sideLines.ours, sideLines.theirs)) {
+        regions.push({ kind: 'same', lines: sideLines.ours })
+      }
+      else {
+        regions.push({
+          kind: 'conflict',
+          baseIndex: groupStart,
+          base: base.slice(groupStart, groupEnd),
+          ours: sideLines.ours,
+          theirs: sideLines.theirs,
+        })
+      }
+    }
+    else {
+      const side = changed.ours ? 'ours' : 'theirs'
+      regions.push({ kind: side, lines: sideLines[side] })
+    }
+    cursor = groupEnd
+  }
+  if (cursor < base.length)
+    regions.push({ kind: 'stable', lines: base.slice(cursor) })
+  return regions
+}
+
+/**
+ * Identity of a conflict that survives recomputing the regions: its base
+ * range plus the contents of both sides. Conflict indices shift when a new
+ * conflict appears earlier in the text, this key does not.
+ */
+export function mergeConflictKey(region: Extract<MergeRegion, { kind: 'conflict' }>) {
+  return JSON.stringify([region.baseIndex, region.base, region.ours, region.theirs])
+}
+
+/**
+ * Join merge regions into the text shown in the editor. Unresolved
+ * conflicts are written with git-style conflict markers.
+ */
+export function renderMergeRegions(
+  regions: MergeRegion[],
+  getResolution: (index: number) => MergeConflictResolution,
+): RenderedMerge {
+  const lines: string[] = []
+  const conflicts: RenderedMergeConflict[] = []
+  for (const region of regions) {
+    if (region.kind !== 'conflict') {
+      lines.push(...region.lines)
+      continue
+    }
+    const index = conflicts.length
+    const resolution = getResolution(index)
+    const startLineNumber = lines.length + 1
+    let oursLineRange: [number, number] | null = null
+    let theirsLineRange: [number, number] | null = null
+    if (resolution === 'unresolved') {
+      lines.push(mergeConflictMarkers.start)
+      oursLineRange = [lines.length + 1, lines.length + region.ours.length]
+      lines.push(...region.ours, mergeConflictMarkers.separator)
+      theirsLineRange = [lines.length + 1, lines.length + region.theirs.length]
+      lines.push(...region.theirs, mergeConflictMarkers.end)
+    }
+    else {
+      if (resolution !== 'theirs')
+        lines.push(...region.ours)
+      if (resolution !== 'ours')
+        lines.push(...region.theirs)
+    }
+    conflicts.push({
+      index,
+      resolution,
+      startLineNumber,
+      endLineNumber: lines.length,
+      oursLineRange,
+      theirsLineRange,
+    })
+  }
+  return { text: lines.join('\n'), conflicts }
+}
+
+const mergeConflictActionLabels: Array<[Exclude<MergeConflictResolution, 'unresolved'>, string]> = [
+  ['ours', 'Ours'],
+  ['theirs', 'Theirs'],
+  ['both', 'Both'],
+]
+
+export function createMergeConflictActionNode(
+  onResolve: (resolution: Exclude<MergeConflictResolution, 'unresolved'>) => void,
+): HTMLDivElement {
+  const node = document.createElement('div')
+  node.className = 'stream-monaco-diff-hunk-actions stream-monaco-merge-actions'
+  for (const [resolution, label] of mergeConflictActionLabels) {
+    const button = document.createElement('button')
+    button.type = 'button'
+    button.textContent = label
+    button.dataset.action = resolution
+    button.addEventListener('click', (event) => {
+      event.preventDefault()
+      event.stopPropagation()
+      onResolve(resolution)
+    })
+    node.append(button)
+  }
+  return node
+}
+
+export function setMergeConflictNodeResolution(
+  node: HTMLDivElement,
+  resolution: MergeConflictResolution,
+) {
+  node.dataset.resolution = resolution
+  node.querySelectorAll('button').forEach((button) => {
+    button.setAttribute(
+      'aria-pressed',
+      String((button as HTMLButtonElement).dataset.action === resolution),
+    )
+  })
+}
@@ -0,0 +1,617 @@
+// Minimal unified diff support: the `@@ -a,b +c,d @@` hunks emitted by
+// `git diff` and by `buildDiffHunkMetadataLabel`. Only single-file patches
+// are supported; file headers (`diff --git`, `index`, `---`, `+++`) are
+// skipped when parsing.
+import type * as monaco from '../monaco-shim'
+import type { UnifiedPatchOptions } from '../type'
+import type { DiffHunkLineRange } from './diffLineChanges'
+import { resolveDiffHunkLineRanges } from './diffLineChanges'
+import { buildDiffHunkMetadataLabel } from './diffUnchanged'
+
+export interface UnifiedPatchLine {
+  type: ' ' | '-' | '+'
+  text: string
+  /** Followed by `\ No newline at end of file`. */
+  noNewline?: boolean
+}
+
+export interface UnifiedPatchHunk {
+  originalStart: number
+  originalLength: number
+  modifiedStart: number
+  modifiedLength: number
+  lines: UnifiedPatchLine[]
+}
+
+export interface ApplyUnifiedPatchOptions {
+  /**
+   * Treat `patchText` as a prefix of a patch that is still streaming: an
+   * unterminated last line is ignored until its newline arrives, and a
+   * truncated last hunk is applied as far as it goes.
+   */
+  partial?: boolean
+}
+
+const hunkHeaderRE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+const fileHeaderRE = /^(?:diff |index |--- |\+\+\+ |new file mode|deleted file mode|old mode|new mode|similarity index|rename (?:from|to) )/
+
+function trimCarriageReturn(line: string) {
+  return line.endsWith('\r') ? line.slice(0, -1) : line
+}
+
+export interface UnifiedPatchStream {
+  /**
+   * Feed the next chunk of patch text. Returns the hunk body lines completed
+   * by this chunk, in order.
+   */
+  push: (text: string) => UnifiedPatchLine[]
+  /** Treat the buffered unterminated line as complete. */
+  end: () => UnifiedPatchLine[]
+  getHunks: () => UnifiedPatchHunk[]
+  /**
+   * The unterminated hunk body line received so far, once its marker is
+   * known. Header lines are never reported until their newline arrives.
+   */
+  getPendingLine: () => UnifiedPatchLine | null
+}
+
+/**
+ * Incremental unified diff parser. Lines are consumed as their newline
+ * arrives, so chunks may split anywhere, including inside `@@` headers.
+ */
+export function createUnifiedPatchStream(): UnifiedPatchStream {
+  const hunks: UnifiedPatchHunk[] = []
+  let current: UnifiedPatchHunk | null = null
+  // Lines still expected on each side of `current`, from its header.
+  let originalLeft = 0
+  let modifiedLeft = 0
+  let buffer = ''
+
+  function inHunkBody() {
+    return !!current && (originalLeft > 0 || modifiedLeft > 0)
+  }
+
+  function consumeLine(raw: string, completed: UnifiedPatchLine[]) {
+    const line = trimCarriageReturn(raw)
+    const marker = line[0]
+    if (current && marker === '\\') {
+      const last = current.lines[current.lines.length - 1]
+      if (last)
+        last.noNewline = true
+      return
+    }
+    if (
+      current
+      && inHunkBody()
+      && (marker === ' ' || marker === '-' || marker === '+' || line === '')
+    ) {
+      // Some tools strip the leading space of empty context lines.
+      const type = line === '' ? ' ' : marker as UnifiedPatchLine['type']
+      const entry: UnifiedPatchLine = { type, text: line.slice(1) }
+      current.lines.push(entry)
+      completed.push(entry)
+      if (type !== '+')
+        originalLeft--
+      if (type !== '-')
+        modifiedLeft--
+      return
+    }
+    const header = hunkHeaderRE.exec(line)
+    if (header) {
+      current = {
+        originalStart: Number(header[1]),
+        originalLength: header[2] == null ? 1 : Number(header[2]),
+        modifiedStart: Number(header[3]),
+        modifiedLength: header[4] == null ? 1 : Number(header[4]),
+        lines: [],
+      }
+      originalLeft = current.originalLength
+      modifiedLeft = current.modifiedLength
+      hunks.push(current)
+      return
+    }
+    if (hunks.length && fileHeaderRE.test(line))
+      throw new Error('Unified patch contains more than one file')
+    current = null
+  }
+
+  return {
+    push(text) {
+      const completed: UnifiedPatchLine[] = []
+      buffer += text
+      let start = 0
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        consumeLine(buffer.slice(start, newline), completed)
+        start = newline + 1
+        newline = buffer.indexOf('\n', start)
+      }
+      buffer = buffer.slice(start)
+      return completed
+    },
+    end() {
+      const completed: UnifiedPatchLine[] = []
+      if (buffer !== '')
+        consumeLine(buffer, completed)
+      buffer = ''
+      return completed
+    },
+    getHunks: () => hunks,
+    getPendingLine() {
+      if (!buffer || !inHunkBody())
+        return null
+      const marker = buffer[0]
+      if (marker !== ' ' && marker !== '-' && marker !== '+')
+        return null
+      return { type: marker, text: trimCarriageReturn(buffer.slice(1)) }
+    },
+  }
+}
+
+export interface UnifiedPatchSideDeltas {
+  original: string
+  modified: string
+}
+
+export interface UnifiedPatchBodyStream
+  extends Pick<UnifiedPatchStream, 'getHunks' | 'getPendingLine'> {
+  /**
+   * Feed the next chunk and return the text to append to each side. Context
+   * and removed lines go to the original, context and added lines to the
+   * modified side; a line is streamed as soon as its marker is known.
+   */
+  push: (text: string) => UnifiedPatchSideDeltas
+  /** Treat the buffered unterminated line as complete. */
+  end: () => UnifiedPatchSideDeltas
+}
+
+/**
+ * Stream the bodies of all hunks into two append-only texts, for patches
+ * whose original file is not available.
+ */
+export function createUnifiedPatchBodyStream(): UnifiedPatchBodyStream {
+  const parser = createUnifiedPatchStream()
+  const lineCounts = { original: 0, modified: 0 }
+  // The unterminated line whose text has already been streamed.
+  let streamedPending: UnifiedPatchLine | null = null
+
+  function sidesOf(type: UnifiedPatchLine['type']) {
+    if (type === '-')
+      return ['original'] as const
+    if (type === '+')
+      return ['modified'] as const
+    return ['original', 'modified'] as const
+  }
+
+  function startLine(deltas: UnifiedPatchSideDeltas, line: UnifiedPatchLine) {
+    for (const side of sidesOf(line.type)) {
+      deltas[side] += `${lineCounts[side] ? '\n' : ''}${line.text}`
+      lineCounts[side]++
+    }
+  }
+
+  function extendLine(
+    deltas: UnifiedPatchSideDeltas,
+    line: UnifiedPatchLine,
+    streamed: string,
+  ) {
+    for (const side of sidesOf(line.type))
+      deltas[side] += line.text.slice(streamed.length)
+  }
+
+  function completeLines(deltas: UnifiedPatchSideDeltas, lines: UnifiedPatchLine[]) {
+    for (const line of lines) {
+      if (streamedPending) {
+        extendLine(deltas, line, streamedPending.text)
+        streamedPending = null
+      }
+      else {
+        startLine(deltas, line)
+      }
+    }
+  }
+
+  return {
+    push(text) {
+      const deltas = { original: '', modified: '' }
+      completeLines(deltas, parser.push(text))
+      const pending = parser.getPendingLine()
+      if (pending) {
+        if (streamedPending)
+          extendLine(deltas, pending, streamedPending.text)
+        else
+          startLine(deltas, pending)
+        streamedPending = pending
+      }
+      return deltas
+    },
+    end() {
+      const deltas = { original: '', modified: '' }
+      completeLines(deltas, parser.end())
+      return deltas
+    },
+    getHunks: parser.getHunks,
+    getPendingLine: parser.getPendingLine,
+  }
+}
+
+export function parseUnifiedPatch(
+  patchText: string,
+  options: ApplyUnifiedPatchOptions = {},
+): UnifiedPatchHunk[] {
+  const stream = createUnifiedPatchStream()
+  stream.push(patchText)
+  // In partial mode the unterminated tail is still being received.
+  if (!options.partial)
+    stream.end()
+  return stream.getHunks()
+}
+
+function matchesAt(lines: string[], index: number, expected: string[]) {
+  if (index < 0 || index + expected.length > lines.length)
+    return false
+  for (let i = 0; i < expected.length; i++) {
+    if (trimCarriageReturn(lines[index + i]) !== expected[i])
+      return false
+  }
+  return true
+}
+
+// Like `patch`/`git apply`, tolerate hunks whose line numbers drifted (for
+// example after an earlier hunk was edited by hand) by searching outward from
+// the position the header names.
+function locateHunk(
+  lines: string[],
+  expected: string[],
+  preferred: number,
+  minIndex: number,
+) {
+  const start = Math.max(preferred, minIndex)
+  if (matchesAt(lines, start, expected))
+    return start
+  for (let offset = 1; offset <= lines.length; offset++) {
+    const after = start + offset
+    const before = start - offset
+    if (after <= lines.length && matchesAt(lines, after, expected))
+      return after
+    if (before >= minIndex && matchesAt(lines, before, expected))
+      return before
+    if (after > lines.length && before < minIndex)
+      break
+  }
+  return -1
+}
+
+interface PatchApplyState {
+  out: string[]
+  cursor: number
+  finalNewline: boolean
+}
+
+function splitOriginalLines(originalCode: string) {
+  const lines = originalCode === '' ? [] : originalCode.split('\n')
+  if (originalCode.endsWith('\n'))
+    lines.pop()
+  return lines
+}
+
+// Copy the original up to `hunk` and apply it, advancing `state`.
+function applyHunk(originalLines: string[], state: PatchApplyState, hunk: UnifiedPatchHunk) {
+  const expected = hunk.lines
+    .filter(line => line.type !== '+')
+    .map(line => line.text)
+  // `-a,0` means "insert after line a".
+  const preferred = hunk.originalLength === 0
+    ? hunk.originalStart
+    : hunk.originalStart - 1
+  const index = locateHunk(originalLines, expected, preferred, state.cursor)
+  if (index < 0) {
+    throw new Error(
+      `Unified patch hunk @@ -${hunk.originalStart},${hunk.originalLength} does not match the original text`,
+    )
+  }
+  for (; state.cursor < index; state.cursor++)
+    state.out.push(originalLines[state.cursor])
+  for (const line of hunk.lines) {
+    if (line.type !== '-')
+      state.out.push(line.text)
+    if (line.type !== '+')
+      state.cursor++
+  }
+  const touchesEnd = state.cursor >= originalLines.length
+  if (touchesEnd && hunk.lines.length) {
+    const lastNew = [...hunk.lines].reverse().find(line => line.type !== '-')
+    const lastOld = [...hunk.lines].reverse().find(line => line.type !== '+')
+    if (lastNew?.noNewline)
+      state.finalNewline = false
+    // Without new lines the hunk only removed the old last line; the new
+    // last line comes from before the hunk and keeps its newline.
+    else if (lastOld?.noNewline)
+      state.finalNewline = true
+  }
+}
+
+/**
+ * Apply a unified patch to `originalCode` and return the modified text.
+ * Throws when a hunk's context or removed lines cannot be found.
+ */
+export function applyUnifiedPatch(
+  originalCode: string,
+  patch: string | UnifiedPatchHunk[],
+  options: ApplyUnifiedPatchOptions = {},
+) {
+  const hunks = typeof patch === 'string'
+    ? parseUnifiedPatch(patch, options)
+    : patch
+  const originalLines = splitOriginalLines(originalCode)
+  const state: PatchApplyState = {
+    out: [],
+    cursor: 0,
+    // A new file (empty original) ends with a newline unless the patch says
+    // otherwise.
+    finalNewline: originalCode === '' || originalCode.endsWith('\n'),
+  }
+  for (const hunk of hunks)
+    applyHunk(originalLines, state, hunk)
+  for (; state.cursor < originalLines.length; state.cursor++)
+    state.out.push(originalLines[state.cursor])
+
+  const text = state.out.join('\n')
+  return state.finalNewline && state.out.length ? `${text}\n` : text
+}
+
+export interface UnifiedPatchApplier {
+  /**
+   * The modified text for `hunks`, the hunks parsed so far. Every hunk but
+   * the last is complete and applied only once; the last is applied again
+   * on each call.
+   */
+  apply: (hunks: UnifiedPatchHunk[]) => string
+}
+
+/**
+ * `applyUnifiedPatch` for a patch that keeps growing, so a streamed patch
+ * costs one pass over each hunk instead of one over all hunks per chunk.
+ */
+export function createUnifiedPatchApplier(originalCode: string): UnifiedPatchApplier {
+  const originalLines = splitOriginalLines(originalCode)
+  // Offset of each original line, to take the unchanged tail as one slice.
+  const lineOffsets: number[] = []
+  let offset = 0
+  for (const line of originalLines) {
+    lineOffsets.push(offset)
+    offset += line.length + 1
+  }
+  const tailEnd = originalCode.endsWith('\n') ? originalCode.length - 1 : originalCode.length
+  const settled: PatchApplyState = {
+    out: [],
+    cursor: 0,
+    finalNewline: originalCode === '' || originalCode.endsWith('\n'),
+  }
+  let settledText = ''
+  let settledLineCount = 0
+  let settledHunks = 0
+
+  return {
+    apply(hunks) {
+      for (; settledHunks < hunks.length - 1; settledHunks++) {
+        applyHunk(originalLines, settled, hunks[settledHunks])
+        if (settled.out.length) {
+          settledText += `${settledLineCount ? '\n' : ''}${settled.out.join('\n')}`
+          settledLineCount += settled.out.length
+          settled.out = []
+        }
+      }
+      const open: PatchApplyState = { ...settled, out: [] }
+      if (settledHunks < hunks.length)
+        applyHunk(originalLines, open, hunks[settledHunks])
+      const parts: string[] = []
+      if (settledLineCount)
+        parts.push(settledText)
+      if (open.out.length)
+        parts.push(open.out.join('\n'))
+      if (open.cursor < originalLines.length)
+        parts.push(originalCode.slice(lineOffsets[open.cursor], tailEnd))
+      const text = parts.join('\n')
+      return open.finalNewline && parts.length ? `${text}\n` : text
+    },
+  }
+}
+
+const noNewlineMarker = '\\ No newline at end of file'
+
+interface PatchTextLines {
+  lines: string[]
+  finalNewline: boolean
+}
+
+function splitPatchText(text: string): PatchTextLines {
+  const lines = text === '' ? [] : text.split(/\r?\n/)
+  const finalNewline = text === '' || /\n$/.test(text)
+  if (text !== '' && finalNewline)
+    lines.pop()
+  return { lines, finalNewline }
+}
+
+// Line ranges of `lineChanges` in the lines a unified diff lists. Line
+// changes count model lines, where a final newline adds an empty last line
+// and the last line is the only one without a newline. An unchanged model
+// line that is last on one side only differs in the patch (its newline), so
+// it becomes a change; the empty model line after a final newline is not a
+// patch line and is clipped away.
+function normalizeLineChanges(
+  lineChanges: monaco.editor.ILineChange[],
+  original: PatchTextLines,
+  modified: PatchTextLines,
+) {
+  const originalModelLines = original.lines.length + (original.finalNewline ? 1 : 0)
+  const modifiedModelLines = modified.lines.length + (modified.finalNewline ? 1 : 0)
+  const ranges: DiffHunkLineRange[] = []
+  const pushRange = (range: DiffHunkLineRange) => {
+    const previous = ranges[ranges.length - 1]
+    if (
+      previous
+      && range.originalIndex <= previous.originalIndex + previous.originalCount
+      && range.modifiedIndex <= previous.modifiedIndex + previous.modifiedCount
+    ) {
+      previous.originalCount = Math.max(
+        previous.originalIndex + previous.originalCount,
+        range.originalIndex + range.originalCount,
+      ) - previous.originalIndex
+      previous.modifiedCount = Math.max(
+        previous.modifiedIndex + previous.modifiedCount,
+        range.modifiedIndex + range.modifiedCount,
+      ) - previous.modifiedIndex
+      return
+    }
+    ranges.push({ ...range })
+  }
+  // Unchanged lines from `originalIndex` up to `originalEnd`, aligned with
+  // `modifiedIndex` onwards.
+  const pushUnchanged = (originalIndex: number, originalEnd: number, modifiedIndex: number) => {
+    const count = originalEnd - originalIndex
+    for (const pair of [
+      originalModelLines - 1 - originalIndex,
+      modifiedModelLines - 1 - modifiedIndex,
+    ]) {
+      if (pair < 0 || pair >= count)
+        continue
+      const originalLast = originalIndex + pair === originalModelLines - 1
+      const modifiedLast = modifiedIndex + pair === modifiedModelLines - 1
+      if (originalLast !== modifiedLast) {
+        pushRange({
+          originalIndex: originalIndex + pair,
+          originalCount: 1,
+          modifiedIndex: modifiedIndex + pair,
+          modifiedCount: 1,
+        })
+      }
+    }
+  }
+  let originalCursor = 0
+  let modifiedCursor = 0
+  for (const range of resolveDiffHunkLineRanges(lineChanges)) {
+    pushUnchanged(originalCursor, range.originalIndex, modifiedCursor)
+    pushRange(range)
+    originalCursor = range.originalIndex + range.originalCount
+    modifiedCursor = range.modifiedIndex + range.modifiedCount
+  }
+  pushUnchanged(originalCursor, originalModelLines, modifiedCursor)
+
+  const normalized: DiffHunkLineRange[] = []
+  for (const range of ranges) {
+    const originalIndex = Math.min(range.originalIndex, original.lines.length)
+    const modifiedIndex = Math.min(range.modifiedIndex, modified.lines.length)
+    const originalCount = Math.max(
+      0,
+      Math.min(range.originalCount, original.lines.length - originalIndex),
+    )
+    const modifiedCount = Math.max(
+      0,
+      Math.min(range.modifiedCount, modified.lines.length - modifiedIndex),
+    )
+    if (originalCount > 0 || modifiedCount > 0)
+      normalized.push({ originalIndex, originalCount, modifiedIndex, modifiedCount })
+  }
+  return normalized
+}
+
+/**
+ * Serialize line changes between `originalCode` and `modifiedCode` as
+ * unified diff text. Changes closer than `2 * contextLines` share a hunk,
+ * like `git diff`. Returns an empty string when there are no changes.
+ */
+export function formatUnifiedPatch(
+  originalCode: string,
+  modifiedCode: string,
+  lineChanges: monaco.editor.ILineChange[],
+  options: UnifiedPatchOptions = {},
+) {
+  const contextLines = Math.max(0, Math.floor(options.contextLines ?? 3))
+  const original = splitPatchText(originalCode)
+  const modified = splitPatchText(modifiedCode)
+  const changes = normalizeLineChanges(lineChanges, original, modified)
+  if (!changes.length)
+    return ''
+
+  const groups: DiffHunkLineRange[][] = []
+  for (const change of changes) {
+    const group = groups[groups.length - 1]
+    const previous = group?.[group.length - 1]
+    if (
+      previous
+      && change.originalIndex - (previous.originalIndex + previous.originalCount)
+      <= contextLines * 2
+    ) {
+      group.push(change)
+    }
+    else {
+      groups.push([change])
+    }
+  }
+
+  const fileName = options.fileName
+  const out = fileName
+    ? [`--- a/${fileName}`, `+++ b/${fileName}`]
+    : ['--- original', '+++ modified']
+  const pushLine = (
+    prefix: string,
+    text: string,
+    originalIndex: number | null,
+    modifiedIndex: number | null,
+  ) => {
+    out.push(`${prefix}${text}`)
+    const originalLast = originalIndex === original.lines.length - 1
+      && !original.finalNewline
+    const modifiedLast = modifiedIndex === modified.lines.length - 1
+      && !modified.finalNewline
+    if (originalLast || modifiedLast)
+      out.push(noNewlineMarker)
+  }
+
+  for (const group of groups) {
+    const first = group[0]
+    const last = group[group.length - 1]
+    const { label, originalStart } = buildDiffHunkMetadataLabel(
+      {
+        originalStartLineNumber: first.originalIndex + 1,
+        originalEndLineNumber: last.originalIndex + last.originalCount,
+        modifiedStartLineNumber: first.modifiedIndex + 1,
+        modifiedEndLineNumber: last.modifiedIndex + last.modifiedCount,
+      } as monaco.editor.ILineChange,
+      {
+        contextLineCount: contextLines,
+        originalTotalLines: original.lines.length,
+        modifiedTotalLines: modified.lines.length,
+      },
+    )
+    out.push(label)
+
+    const delta = first.modifiedIndex - first.originalIndex
+    const hunkEnd = Math.min(
+      original.lines.length,
+      last.originalIndex + last.originalCount + contextLines,
+    )
+    let cursor = Math.min(originalStart - 1, first.originalIndex)
+    const pushContextUntil = (end: number, offset: number) => {
+      for (; cursor < end; cursor++)
+        pushLine(' ', original.lines[cursor], cursor, cursor + offset)
+    }
+    let offset = delta
+    for (const change of group) {
+      pushContextUntil(change.originalIndex, offset)
+      for (let i = 0; i < change.originalCount; i++) {
+        const index = change.originalIndex + i
+        pushLine('-', original.lines[index], index, null)
+      }
+      for (let i = 0; i < change.modifiedCount; i++) {
+        const index = change.modifiedIndex + i
+        pushLine('+', modified.lines[index], null, index)
+      }
+      cursor = change.originalIndex + change.originalCount
+      offset = change.modifiedIndex + change.modifiedCount - cursor
+    }
+    pushContextUntil(hunkEnd, offset)
+  }
+  return `${out.join('\n')}\n`
+}
@@ -0,0 +1,365 @@
+// Custom element entry (`stream-monaco/element`). `<stream-monaco>` and
+// `<stream-monaco-diff>` wrap one `useMonaco()` instance each: the editor is
+// created when the element is connected and cleaned up when it is
+// disconnected. The classes are built inside `defineStreamMonacoElements()`
+// so importing this module on the server does not touch `HTMLElement`.
+import type * as monaco from './monaco-shim'
+import type { MonacoEventName, MonacoOptions, UseMonacoReturn } from './type'
+import { monacoEventNames } from './constant'
+import { elementCss, elementStyleId } from './core/chromeStyles'
+import { isCreateSupersededError, useMonaco } from './index'
+import { ensureStyleElement } from './utils/style'
+
+export const streamMonacoElementTag = 'stream-monaco'
+export const streamMonacoDiffElementTag = 'stream-monaco-diff'
+
+// Read when the diff editor is created; every `diff-*` attribute maps to the
+// camel-cased `MonacoOptions` field.
+const diffOptionAttributes = [
+  'diff-auto-scroll',
+  'diff-hide-unchanged-regions',
+  'diff-line-style',
+  'diff-appearance',
+  'diff-unchanged-region-style',
+  'diff-hunk-actions-on-hover',
+  'diff-hunk-hover-hide-delay-ms',
+  'diff-hunk-keybindings',
+  'diff-hunk-counter',
+  'diff-review-mode',
+  'diff-update-throttle-ms',
+]
+
+interface StreamMonacoElementBase<TView> extends HTMLElement {
+  /** Extra `useMonaco()` options; attributes take precedence. */
+  options: MonacoOptions
+  language: string
+  /** The `useMonaco()` instance while connected. */
+  readonly monaco: UseMonacoReturn | null
+  /** The editor once `ready` fired; null while disconnected. */
+  readonly view: TView | null
+}
+
+export interface StreamMonacoElement
+  extends StreamMonacoElementBase<monaco.editor.IStandaloneCodeEditor> {
+  /** Current text; setting it is the same as `update(text)`. */
+  value: string
+  /** Stream `text` to the end of the editor. */
+  append: (text: string) => void
+  /** Replace the editor text with a minimal edit. */
+  update: (text: string) => void
+}
+
+export interface StreamMonacoDiffElement
+  extends StreamMonacoElementBase<monaco.editor.IStandaloneDiffEditor> {
+  original: string
+  modified: string
+  /** Stream `text` to the end of the modified side. */
+  append: (text: string) => void
+  /** Replace the modified side. */
+  update: (text: string) => void
+  appendOriginal: (text: string) => void
+  updateOriginal: (text: string) => void
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'stream-monaco': StreamMonacoElement
+    'stream-monaco-diff': StreamMonacoDiffElement
+  }
+}
+
+function toCamelCase(name: string) {
+  return name.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase())
+}
+
+function toEventName(name: MonacoEventName) {
+  return name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)
+}
+
+function parseAttributeValue(value: string): boolean | number | string {
+  if (value === '' || value === 'true')
+    return true
+  if (value === 'false')
+    return false
+  const numeric = Number(value)
+  return value.trim() && Number.isFinite(numeric) ? numeric : value
+}
+
+function parseLength(value: string): number | string {
+  const numeric = Number(value)
+  return value.trim() && Number.isFinite(numeric) ? numeric : value
+}
+
+function createElementClasses() {
+  abstract class BaseElement<TView> extends HTMLElement {
+    options: MonacoOptions = {}
+    protected instance: UseMonacoReturn | null = null
+    protected created: TView | null = null
+    private offs: Array<() => void> = []
+    private initialized = false
+
+    get monaco() {
+      return this.instance
+    }
+
+    get view() {
+      return this.created
+    }
+
+    get language() {
+      return this.getAttribute('language') || 'plaintext'
+    }
+
+    set language(language: string) {
+      this.setAttribute('language', language)
+    }
+
+    connectedCallback() {
+      if (!this.initialized) {
+        this.initialized = true
+        this.readInitialContent()
+      }
+      this.mount()
+    }
+
+    disconnectedCallback() {
+      this.unmount()
+    }
+
+    attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null) {
+      const instance = this.instance
+      if (!instance || oldValue === newValue)
+        return
+      if (name === 'language') {
+        instance.setLanguage(this.language)
+      }
+      else if (name === 'theme') {
+        if (newValue)
+          instance.setTheme(newValue).catch(err => this.emit('error', err))
+      }
+      else {
+        // Everything else is a creation option; build the editor again.
+        this.unmount()
+        this.mount()
+      }
+    }
+
+    protected emit(type: string, detail?: unknown) {
+      this.dispatchEvent(new CustomEvent(type, { detail }))
+    }
+
+    protected resolveOptions(): MonacoOptions {
+      const options: MonacoOptions = { ...this.options }
+      const theme = this.getAttribute('theme')
+      if (theme)
+        options.theme = theme
+      const maxHeight = this.getAttribute('max-height')
+      if (maxHeight != null)
+        options.MAX_HEIGHT = parseLength(maxHeight)
+      const readOnly = this.getAttribute('read-only')
+      if (readOnly != null)
+        options.readOnly = readOnly !== 'false'
+      return options
+    }
+
+    /** Take over the initial text written between the tags. */
+    protected abstract readInitialContent(): void
+    /** Remember the current text, so reconnecting shows it again. */
+    protected abstract saveContent(instance: UseMonacoReturn): void
+    protected abstract create(instance: UseMonacoReturn, container: HTMLElement): Promise<TView>
+
+    private mount() {
+      const options = this.resolveOptions()
+      ensureStyleElement(elementStyleId, elementCss, this, options)
+      const instance = useMonaco(options)
+      this.instance = instance
+      this.offs = monacoEventNames.map(name =>
+        instance.on(name, payload => this.emit(toEventName(name), payload)))
+      const container = document.createElement('div')
+      this.appendChild(container)
+      this.create(instance, container).then(
+        (view) => {
+          if (this.instance !== instance)
+            return
+          this.created = view
+          this.emit('ready', view)
+        },
+        (err) => {
+          // Disconnected (or re-created) before the editor was ready.
+          if (!isCreateSupersededError(err))
+            this.emit('error', err)
+        },
+      )
+    }
+
+    private unmount() {
+      const instance = this.instance
+      if (!instance)
+        return
+      if (this.created)
+        this.saveContent(instance)
+      this.instance = null
+      this.created = null
+      instance.cleanupEditor()
+      this.offs.forEach(off => off())
+      this.offs = []
+      this.replaceChildren()
+    }
+  }
+
+  class StreamMonacoEditorElement
+    extends BaseElement<monaco.editor.IStandaloneCodeEditor>
+    implements StreamMonacoElement {
+    static observedAttributes = ['language', 'theme', 'max-height', 'read-only']
+    private text = ''
+
+    get value() {
+      const code = this.created ? this.instance?.getCode() : null
+      return typeof code === 'string' ? code : this.text
+    }
+
+    set value(text: string) {
+      this.update(text)
+    }
+
+    append(text: string) {
+      if (this.created) {
+        this.instance!.appendCode(text, this.language)
+        return
+      }
+      // `appendCode` needs a mounted editor; a pending create takes updates.
+      this.text += text
+      this.instance?.updateCode(this.text, this.language)
+    }
+
+    update(text: string) {
+      this.text = text
+      this.instance?.updateCode(text, this.language)
+    }
+
+    protected readInitialContent() {
+      this.text = this.textContent ?? ''
+      this.replaceChildren()
+    }
+
+    protected saveContent(instance: UseMonacoReturn) {
+      const code = instance.getCode()
+      if (typeof code === 'string')
+        this.text = code
+    }
+
+    protected create(instance: UseMonacoReturn, container: HTMLElement) {
+      return instance.createEditor(container, this.text, this.language)
+    }
+  }
+
+  class StreamMonacoDiffEditorElement
+    extends BaseElement<monaco.editor.IStandaloneDiffEditor>
+    implements StreamMonacoDiffElement {
+    static observedAttributes = [
+      'language',
+      'theme',
+      'max-height',
+      'read-only',
+      ...diffOptionAttributes,
+    ]
+
+    private sides = { original: '', modified: '' }
+
+    get original() {
+      return this.readSides().original
+    }
+
+    set original(text: string) {
+      this.updateOriginal(text)
+    }
+
+    get modified() {
+      return this.readSides().modified
+    }
+
+    set modified(text: string) {
+      this.update(text)
+    }
+
+    append(text: string) {
+      if (this.created)
+        this.instance!.appendModified(text, this.language)
+      else this.sides.modified += text
+    }
+
+    update(text: string) {
+      this.sides.modified = text
+      if (this.created)
+        this.instance!.updateModified(text, this.language)
+    }
+
+    appendOriginal(text: string) {
+      if (this.created)
+        this.instance!.appendOriginal(text, this.language)
+      else this.sides.original += text
+    }
+
+    updateOriginal(text: string) {
+      this.sides.original = text
+      if (this.created)
+        this.instance!.updateOriginal(text, this.language)
+    }
+
+    protected resolveOptions() {
+      const options = super.resolveOptions() as Record<string, unknown>
+      for (const name of diffOptionAttributes) {
+        const value = this.getAttribute(name)
+        if (value != null)
+          options[toCamelCase(name)] = parseAttributeValue(value)
+      }
+      return options as MonacoOptions
+    }
+
+    protected readInitialContent() {}
+
+    protected saveContent(instance: UseMonacoReturn) {
+      const code = instance.getCode()
+      if (code && typeof code === 'object')
+        this.sides = { ...code }
+    }
+
+    protected async create(instance: UseMonacoReturn, container: HTMLElement) {
+      const { original, modified } = this.sides
+      const diffEditor = await instance.createDiffEditor(container, original, modified, this.language)
+      // Side updates are dropped while the diff editor is still being created.
+      if (this.sides.original !== original || this.sides.modified !== modified)
+        instance.updateDiff(this.sides.original, this.sides.modified, this.language)
+      return diffEditor
+    }
+
+    private readSides() {
+      const code = this.created ? this.instance?.getCode() : null
+      return code && typeof code === 'object' ? code : this.sides
+    }
+  }
+
+  return { StreamMonacoEditorElement, StreamMonacoDiffEditorElement }
+}
+
+/**
+ * Register `<stream-monaco>` and `<stream-monaco-diff>`. Safe to call more
+ * than once and a no-op outside the browser.
+ *
+ * Attributes: `language`, `theme`, `max-height`, `read-only` and, on the
+ * diff element, every `diff-*` option (`diff-line-style="bar"`, ...).
+ * Lifecycle and `useMonaco().on` events are dispatched as DOM events
+ * (`ready`, `error`, `flush`, `height-changed`, ...) with the payload in
+ * `detail`.
+ */
+export function defineStreamMonacoElements() {
+  if (typeof customElements === 'undefined')
+    return
+  if (customElements.get(streamMonacoElementTag) && customElements.get(streamMonacoDiffElementTag))
+    return
+  const { StreamMonacoEditorElement, StreamMonacoDiffEditorElement } = createElementClasses()
+  if (!customElements.get(streamMonacoElementTag))
+    customElements.define(streamMonacoElementTag, StreamMonacoEditorElement)
+  if (!customElements.get(streamMonacoDiffElementTag))
+    customElements.define(streamMonacoDiffElementTag, StreamMonacoDiffEditorElement)
+}
@@ -1,9 +1,23 @@
 import type {
+  DiffHunkReviewDecision,
   DiffModelPair,
   DiffModelTransitionOptions,
+  DiffReviewResult,
+  EndStreamOptions,
+  FencedStreamRouter,
+  FencedStreamRouterOptions,
+  MergeConflictResolution,
+  MergeEditorSides,
+  MergeResult,
+  MonacoCheckpoint,
+  MonacoEventMap,
   MonacoLanguage,
   MonacoOptions,
   MonacoTheme,
+  PipeTextOptions,
+  SearchReplaceBlock,
+  TextStreamSource,
+  UnifiedPatchOptions,
   UseMonacoReturn,
 } from './type'
 
@@ -15,8 +29,23 @@ import {
 } from './constant'
 import { DiffEditorManager } from './core/DiffEditorManager'
 import { EditorManager } from './core/EditorManager'
+import { FencedStreamRouterManager } from './core/FencedStreamRouter'
+import { MergeEditorManager } from './core/MergeEditorManager'
+import { createMonacoPool } from './core/MonacoPool'
+import { pipeTextSource, pipeTextSources } from './core/pipe'
+import {
+  applyStaticCodeStyle,
+  ensureStaticCodeHost,
+  estimateStaticCodeHeight,
+  renderStaticCodeHtml,
+  resolveStaticCodeMetrics,
+} from './core/staticCode'
+import { applyUnifiedPatch } from './core/unifiedPatch'
 import * as monaco from './monaco-shim'
 import { computed } from './reactivity'
+import { createSupersededError, isCreateSupersededError } from './utils/createSuperseded'
+import { createEventEmitter } from './utils/events'
+import { nextFrame } from './utils/raf'
 import {
   clearHighlighterCache,
   getOrCreateHighlighter,
@@ -57,6 +86,21 @@ let globalAppliedThemeName: string | null = null
  *     modifiedCode: string,
  *     language: string,
  *   ) => Promise<monaco.editor.IStandaloneDiffEditor>,
+ *   createDiffEditorFromPatch: (
+ *     container: HTMLElement,
+ *     originalCode: string,
+ *     patchText: string,
+ *     language: string,
+ *   ) => Promise<monaco.editor.IStandaloneDiffEditor>,
+ *   createMergeEditor: (
+ *     container: HTMLElement,
+ *     sides: MergeEditorSides,
+ *     language: string,
+ *   ) => Promise<monaco.editor.IStandaloneDiffEditor>,
+ *   updateMerge: (sides: Partial<MergeEditorSides>, codeLanguage?: string) => void,
+ *   resolveMergeConflict: (index: number, resolution: MergeConflictResolution) => void,
+ *   getMergeResult: () => MergeResult,
+ *   renderStatic: (container: HTMLElement, code: string, language: string) => Promise<void>,
  *   cleanupEditor: () => void,
  *   updateCode: (newCode: string, codeLanguage: string) => void,
  *   appendCode: (appendText: string, codeLanguage?: string) => void,
@@ -65,6 +109,18 @@ let globalAppliedThemeName: string | null = null
  *     modifiedCode: string,
  *     codeLanguage?: string,
  *   ) => void,
+ *   applyPatch: (patchText: string, codeLanguage?: string) => void,
+ *   appendPatchChunk: (text: string, codeLanguage?: string) => void,
+ *   endPatchStream: (codeLanguage?: string) => void,
+ *   appendSearchReplaceChunk: (text: string, codeLanguage?: string) => void,
+ *   endSearchReplaceStream: (codeLanguage?: string) => void,
+ *   getSearchReplaceBlocks: () => SearchReplaceBlock[],
+ *   goToNextHunk: () => void,
+ *   goToPreviousHunk: () => void,
+ *   acceptAll: () => void,
+ *   rejectAll: () => void,
+ *   setHunkReviewDecision: (index: number, decision: DiffHunkReviewDecision) => void,
+ *   getReviewResult: () => DiffReviewResult,
  *   updateOriginal: (newCode: string, codeLanguage?: string) => void,
  *   updateModified: (newCode: string, codeLanguage?: string) => void,
  *   appendOriginal: (appendText: string, codeLanguage?: string) => void,
@@ -72,6 +128,15 @@ let globalAppliedThemeName: string | null = null
  *   setDiffModels: (models: DiffModelPair, options?: DiffModelTransitionOptions) => Promise<void>,
  *   setTheme: (theme: MonacoTheme) => Promise<void>,
  *   refreshDiffPresentation: () => void,
+ *   flush: () => Promise<void>,
+ *   whenIdle: () => Promise<void>,
+ *   beginStream: () => void,
+ *   endStream: (options?: EndStreamOptions) => Promise<void>,
+ *   endDiffStream: (options?: EndStreamOptions) => Promise<void>,
+ *   pipeToEditor: (source: TextStreamSource, options?: PipeTextOptions) => Promise<void>,
+ *   pipeToDiff: (sources: { original?: TextStreamSource, modified?: TextStreamSource }, options?: PipeTextOptions) => Promise<void>,
+ *   createCheckpoint: () => Promise<MonacoCheckpoint | null>,
+ *   rollbackTo: (checkpoint: MonacoCheckpoint) => void,
  *   setLanguage: (language: MonacoLanguage) => void,
  *   getCurrentTheme: () => string,
  *   getEditor: () => typeof monaco.editor,
@@ -79,14 +144,34 @@ let globalAppliedThemeName: string | null = null
  *   getDiffEditorView: () => monaco.editor.IStandaloneDiffEditor | null,
  *   getDiffModels: () => { original: monaco.editor.ITextModel | null, modified: monaco.editor.ITextModel | null },
  *   getCode: () => string | { original: string, modified: string } | null,
+ *   getUnifiedPatch: (options?: UnifiedPatchOptions) => string,
+ *   on: <K extends MonacoEventName>(event: K, handler: (payload: MonacoEventMap[K]) => void) => () => void,
  * }} 返回对象包含以下方法和属性：
  *
  * @property {Function} createEditor - 创建并挂载 Monaco 编辑器到指定容器
+ * @property {Function} renderStatic - 在 Monaco 加载前用 Shiki 静态 HTML 占位，度量与编辑器一致，createEditor 接管时无布局跳动
  * @property {Function} cleanupEditor - 销毁编辑器并清理容器
  * @property {Function} updateCode - 更新编辑器内容和语言，必要时滚动到底部
  * @property {Function} appendCode - 在编辑器末尾追加文本，必要时滚动到底部
  * @property {Function} createDiffEditor - 创建并挂载 Diff 编辑器
+ * @property {Function} createDiffEditorFromPatch - 由 original 与 unified patch（@@ -a,b +c,d @@ 格式）重建 modified 并创建 Diff 编辑器
+ * @property {Function} createMergeEditor - 创建三方合并视图：original 为 base，modified 为合并结果，冲突以 <<<<<<< / >>>>>>> 标记显示并可选择 ours / theirs / both
+ * @property {Function} updateMerge - 更新合并编辑器的任意一侧（按帧合并，可用于流式场景）
+ * @property {Function} resolveMergeConflict - 为指定冲突选择 ours / theirs / both，或传 unresolved 撤销
+ * @property {Function} getMergeResult - 获取合并后的文本及各冲突的状态
  * @property {Function} updateDiff - 更新 Diff 编辑器的 original/modified 内容（RAF 合并、增量更新）
+ * @property {Function} applyPatch - updateDiff 的 patch 版本：将（可能仍在流式增长的）patch 应用到当前 original 并更新 modified
+ * @property {Function} appendPatchChunk - 增量解析流式 unified patch 片段（可在 hunk 头中间截断），逐 token 更新 Diff；hunk 与 original 不匹配时抛出异常
+ * @property {Function} endPatchStream - 结束 unified patch 流：应用没有换行结尾的最后一行（endDiffStream 也会调用）
+ * @property {Function} appendSearchReplaceChunk - 增量解析 SEARCH/REPLACE 编辑块并应用到当前 original，modified 随每个块的替换内容流式更新
+ * @property {Function} endSearchReplaceStream - 结束 SEARCH/REPLACE 流：应用没有换行结尾的最后一行，未收到 REPLACE 标记的块标记为 incomplete（endDiffStream 也会调用）
+ * @property {Function} getSearchReplaceBlocks - 获取已接收的 SEARCH/REPLACE 块及其状态（pending / applied / search-not-found / incomplete）
+ * @property {Function} goToNextHunk - 将 Diff 光标移动到下一个变更 hunk（循环），并展开其周围折叠的未改动区域
+ * @property {Function} goToPreviousHunk - 将 Diff 光标移动到上一个变更 hunk（循环）
+ * @property {Function} acceptAll - 审阅模式：接受当前所有 hunk
+ * @property {Function} rejectAll - 审阅模式：拒绝当前所有 hunk
+ * @property {Function} setHunkReviewDecision - 审阅模式：设置指定 hunk 的决定（pending / accepted / rejected）
+ * @property {Function} getReviewResult - 获取每个 hunk 的审阅决定，以及把已接受 hunk 合并进 original 后的文本
  * @property {Function} updateOriginal - 仅更新 Diff 的 original 内容（增量更新）
  * @property {Function} updateModified - 仅更新 Diff 的 modified 内容（增量更新）
  * @property {Function} appendOriginal - 在 Diff 的 original 末尾追加（显式流式场景）
@@ -94,6 +179,15 @@ let globalAppliedThemeName: string | null = null
  * @property {Function} setDiffModels - 切换为一对新的 Diff models；当内容未变化时自动走保留视图状态的无抖动路径
  * @property {Function} setTheme - 切换编辑器主题，返回 Promise，在主题应用完成时 resolve
  * @property {Function} refreshDiffPresentation - 在不 remount 的情况下，重算 diff chrome / unchanged overlay 的表现层
+ * @property {Function} flush - 立即应用尚未落地的 updateCode / appendCode / updateDiff 缓冲（忽略节流），Diff 分块追加完成后 resolve
+ * @property {Function} whenIdle - 在没有待执行的更新、滚动与高度调整时 resolve
+ * @property {Function} beginStream - 标记流式输出开始：编辑器切换为只读，Diff 编辑器推迟折叠未改动区域
+ * @property {Function} endStream - 标记编辑器流式输出结束：落地缓冲、立即执行最终滚动、重新完整分词，并恢复 beginStream 之前的只读状态（或按 editable 设置）
+ * @property {Function} endDiffStream - endStream 的 Diff 版本：另外会立即结束 inline 流式展示并恢复被推迟的 hideUnchangedRegions
+ * @property {Function} pipeToEditor - 将 ReadableStream（fetch / SSE）或异步可迭代对象通过 appendCode 写入编辑器；按 appendBuffer 积压与 updateThrottleMs 施加背压，支持 AbortSignal，流结束时 resolve
+ * @property {Function} pipeToDiff - pipeToEditor 的 Diff 版本：并发读取 original / modified 两个来源，分别写入 appendOriginal / appendModified
+ * @property {Function} createCheckpoint - 落地缓冲后为当前编辑器（或 Diff 编辑器）记录快照：文本、滚动位置与自动滚动状态
+ * @property {Function} rollbackTo - 回滚到快照：以一次程序化编辑替换文本（不 setValue、不重建编辑器），丢弃未落地的流式内容并恢复滚动位置与高度
  * @property {Function} setLanguage - 切换编辑器语言
  * @property {Function} getCurrentTheme - 获取当前主题名称
  * @property {Function} getEditor - 获取 Monaco 的静态 editor 对象（用于静态方法调用）
@@ -101,6 +195,8 @@ let globalAppliedThemeName: string | null = null
  * @property {Function} getDiffEditorView - 获取当前 Diff 编辑器实例
  * @property {Function} getDiffModels - 获取 Diff 的 original/modified 两个模型
  * @property {Function} getCode - 获取当前编辑器或 Diff 编辑器中的代码内容
+ * @property {Function} getUnifiedPatch - 将当前 Diff（两侧模型 + 生效的行变更）序列化为 unified patch 文本
+ * @property {Function} on - 订阅生命周期/流式事件（flush、autoScrollPaused、autoScrollResumed、heightChanged、diffComputed、themeApplied、userEdit、disposed），返回取消订阅函数
  *
  * @throws {Error} 当主题数组不是数组或长度小于2时抛出错误
  *
@@ -132,8 +228,10 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   let editorMgr: EditorManager | null = null
   let diffEditorView: monaco.editor.IStandaloneDiffEditor | null = null
   let diffMgr: DiffEditorManager | null = null
+  let mergeMgr: MergeEditorManager | null = null
   let originalModel: monaco.editor.ITextModel | null = null
   let modifiedModel: monaco.editor.ITextModel | null = null
+  const events = createEventEmitter<MonacoEventMap>()
 
   const themes
     = monacoOptions.themes && monacoOptions.themes?.length
@@ -175,6 +273,9 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   let createRequestSeq = 0
   let activeCreateRequestId: number | null = null
   let activeCreateKind: 'editor' | 'diff' | null = null
+  // Bumped by every create/cleanup so a static render that resolves late
+  // never paints over an editor that already took over the container.
+  let staticRenderTicket = 0
   let queuedEditorUpdateDuringCreate: {
     requestId: number
     code: string
@@ -315,14 +416,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     }
 
     // call user callback if provided; await to allow callers to observe completion
-    try {
-      if (typeof monacoOptions.onThemeChange === 'function') {
-        await monacoOptions.onThemeChange(themeName as any)
-      }
-    }
-    catch (err) {
-      console.warn('onThemeChange callback threw an error:', err)
-    }
+    await notifyThemeApplied(themeName)
   }
 
   function normalizeLanguage(language: string | undefined | null) {
@@ -349,14 +443,17 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     return primary ? [primary] : ['typescript']
   }
 
-  async function ensureThemeRegistered(themeName: string, requestedLanguages = languages) {
+  function resolveThemeList(themeName: string) {
     const availableNames = themes.map(t =>
       typeof t === 'string' ? t : (t as any).name,
     )
-    const list = availableNames.includes(themeName)
+    return availableNames.includes(themeName)
       ? themes
       : (themes.concat(themeName) as any)
-    await registerMonacoThemes(list as any, requestedLanguages)
+  }
+
+  async function ensureThemeRegistered(themeName: string, requestedLanguages = languages) {
+    await registerMonacoThemes(resolveThemeList(themeName) as any, requestedLanguages)
   }
 
   function resolveRequestedThemeName() {
@@ -376,6 +473,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   }
 
   async function notifyThemeApplied(themeName: string) {
+    events.emit('themeApplied', { theme: themeName })
     if (typeof monacoOptions.onThemeChange !== 'function')
       return
     try {
@@ -423,6 +521,11 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
       catch {}
     }
 
+    if (mergeMgr) {
+      mergeMgr.cleanup()
+      mergeMgr = null
+    }
+
     if (diffMgr) {
       diffMgr.cleanup()
       diffMgr = null
@@ -448,13 +551,6 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     modifiedModel = null
   }
 
-  function createSupersededError() {
-    const err = new Error('Editor creation was superseded')
-    ;(err as any).name = 'AbortError'
-    ;(err as any).code = 'STREAM_MONACO_CREATE_SUPERSEDED'
-    return err
-  }
-
   function isCreateActive(
     requestId: number,
     kind: 'editor' | 'diff',
@@ -499,6 +595,38 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     }
   }
 
+  async function renderStatic(
+    container: HTMLElement,
+    code: string,
+    language: string,
+  ) {
+    const ticket = ++staticRenderTicket
+    const themeName = resolveRequestedThemeName()
+    let highlighter: any = null
+    try {
+      highlighter = await getOrCreateHighlighter(
+        resolveThemeList(themeName) as any,
+        resolveCreateLanguages(language),
+      )
+    }
+    catch {}
+    if (ticket !== staticRenderTicket)
+      return
+
+    const metrics = resolveStaticCodeMetrics(monacoOptions)
+    const host = ensureStaticCodeHost(container)
+    host.innerHTML = renderStaticCodeHtml(
+      highlighter,
+      code,
+      normalizeLanguage(language) ?? 'plaintext',
+      themeName,
+    )
+    applyStaticCodeStyle(host, metrics)
+    container.style.overflow = 'hidden'
+    container.style.maxHeight = maxHeightCSS
+    container.style.height = `${estimateStaticCodeHeight(code, metrics, maxHeightValue)}px`
+  }
+
   async function createEditor(
     container: HTMLElement,
     code: string,
@@ -506,6 +634,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   ) {
     cancelPendingCreates()
     cleanupInstances()
+    staticRenderTicket += 1
 
     const requestId = ++createRequestSeq
     activeCreateRequestId = requestId
@@ -534,6 +663,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
         autoScrollThresholdLines,
         monacoOptions.revealDebounceMs,
         monacoOptions.updateThrottleMs,
+        events,
       )
       const nextEditorView = await nextEditorMgr.createEditor(
         container,
@@ -594,6 +724,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   ) {
     cancelPendingCreates()
     cleanupInstances()
+    staticRenderTicket += 1
 
     const requestId = ++createRequestSeq
     activeCreateRequestId = requestId
@@ -623,6 +754,7 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
         diffAutoScroll,
         monacoOptions.revealDebounceMs,
         monacoOptions.diffUpdateThrottleMs,
+        events,
       )
       const nextDiffEditorView = await nextDiffMgr.createDiffEditor(
         container,
@@ -670,10 +802,56 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     }
   }
 
+  async function createDiffEditorFromPatch(
+    container: HTMLElement,
+    originalCode: string,
+    patchText: string,
+    language: string,
+  ) {
+    // Parse before tearing down the current editor so a bad patch leaves it
+    // untouched.
+    const modifiedCode = applyUnifiedPatch(originalCode, patchText)
+    return createDiffEditor(container, originalCode, modifiedCode, language)
+  }
+
+  async function createMergeEditor(
+    container: HTMLElement,
+    sides: MergeEditorSides,
+    language: string,
+  ) {
+    const nextMergeMgr = new MergeEditorManager(monacoOptions, sides)
+    const view = await createDiffEditor(
+      container,
+      sides.base,
+      nextMergeMgr.getText(),
+      language,
+    )
+    if (diffMgr) {
+      nextMergeMgr.attach(diffMgr, container, language)
+      mergeMgr = nextMergeMgr
+    }
+    return view
+  }
+
+  function updateMerge(sides: Partial<MergeEditorSides>, codeLanguage?: string) {
+    if (mergeMgr)
+      mergeMgr.update(sides, codeLanguage)
+  }
+
+  function resolveMergeConflict(
+    index: number,
+    resolution: MergeConflictResolution,
+  ) {
+    if (mergeMgr)
+      mergeMgr.resolveConflict(index, resolution)
+  }
+
   function cleanupEditor() {
     cancelPendingCreates()
     cleanupInstances()
+    staticRenderTicket += 1
     disposeDisposables(disposals.splice(0))
+    events.emit('disposed', undefined)
   }
 
   function appendCode(appendText: string, codeLanguage?: string) {
@@ -714,6 +892,31 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
       diffMgr.updateDiff(originalCode, modifiedCode, codeLanguage)
   }
 
+  function applyPatch(patchText: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.applyPatch(patchText, codeLanguage)
+  }
+
+  function appendPatchChunk(text: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.appendPatchChunk(text, codeLanguage)
+  }
+
+  function endPatchStream(codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.endPatchStream(codeLanguage)
+  }
+
+  function appendSearchReplaceChunk(text: string, codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.appendSearchReplaceChunk(text, codeLanguage)
+  }
+
+  function endSearchReplaceStream(codeLanguage?: string) {
+    if (diffMgr)
+      diffMgr.endSearchReplaceStream(codeLanguage)
+  }
+
   function updateOriginal(newCode: string, codeLanguage?: string) {
     if (diffMgr)
       diffMgr.updateOriginal(newCode, codeLanguage)
@@ -751,9 +954,107 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
       diffMgr.refreshDiffPresentation()
   }
 
+  async function flush() {
+    mergeMgr?.flush()
+    editorMgr?.flush()
+    await diffMgr?.flush()
+  }
+
+  function beginStream() {
+    editorMgr?.beginStream()
+    diffMgr?.beginStream()
+  }
+
+  async function endStream(options?: EndStreamOptions) {
+    editorMgr?.endStream(options)
+  }
+
+  async function endDiffStream(options?: EndStreamOptions) {
+    mergeMgr?.flush()
+    await diffMgr?.endStream(options)
+  }
+
+  async function pipeToEditor(source: TextStreamSource, options: PipeTextOptions = {}) {
+    const mgr = editorMgr
+    if (!mgr)
+      throw new Error('pipeToEditor requires an editor created by createEditor')
+    await pipeTextSource(source, {
+      append(text) {
+        if (editorMgr !== mgr)
+          return false
+        mgr.appendCode(text, options.language)
+        return true
+      },
+      hasPendingAppend: () => editorMgr === mgr && mgr.hasPendingAppend(),
+    }, options)
+  }
+
+  async function pipeToDiff(
+    sources: { original?: TextStreamSource, modified?: TextStreamSource },
+    options: PipeTextOptions = {},
+  ) {
+    const mgr = diffMgr
+    if (!mgr)
+      throw new Error('pipeToDiff requires a diff editor created by createDiffEditor')
+    const pipes = (['original', 'modified'] as const)
+      .filter(side => sources[side])
+      .map(side => ({
+        source: sources[side]!,
+        sink: {
+          append(text: string) {
+            if (diffMgr !== mgr)
+              return false
+            if (side === 'original')
+              mgr.appendOriginal(text, options.language)
+            else
+              mgr.appendModified(text, options.language)
+            return true
+          },
+          hasPendingAppend: () => diffMgr === mgr && mgr.hasPendingAppend(),
+        },
+      }))
+    await pipeTextSources(pipes, options)
+  }
+
+  async function createCheckpoint(): Promise<MonacoCheckpoint | null> {
+    if (editorMgr)
+      return editorMgr.createCheckpoint()
+    return await diffMgr?.createCheckpoint() ?? null
+  }
+
+  function rollbackTo(checkpoint: MonacoCheckpoint) {
+    if (checkpoint.kind === 'editor')
+      editorMgr?.rollbackTo(checkpoint)
+    else
+      diffMgr?.rollbackTo(checkpoint)
+  }
+
+  function isIdle() {
+    return activeCreateRequestId == null
+      && (mergeMgr?.isIdle() ?? true)
+      && (editorMgr?.isIdle() ?? true)
+      && (diffMgr?.isIdle() ?? true)
+  }
+
+  async function whenIdle() {
+    // Scheduled work is spread over frames and timers, so poll once per frame
+    // instead of threading completion promises through every scheduler.
+    while (!isIdle())
+      await nextFrame()
+  }
+
   return {
+    on: events.on,
     createEditor,
     createDiffEditor,
+    createDiffEditorFromPatch,
+    createMergeEditor,
+    updateMerge,
+    resolveMergeConflict,
+    getMergeResult(): MergeResult {
+      return mergeMgr?.getResult() ?? { text: '', conflicts: [], resolved: true }
+    },
+    renderStatic,
     cleanupEditor,
     safeClean() {
       if (editorMgr) {
@@ -772,6 +1073,11 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     updateCode,
     appendCode,
     updateDiff,
+    applyPatch,
+    appendPatchChunk,
+    endPatchStream,
+    appendSearchReplaceChunk,
+    endSearchReplaceStream,
     updateOriginal,
     updateModified,
     appendOriginal,
@@ -779,6 +1085,15 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     setDiffModels,
     setTheme: setThemeInternal,
     refreshDiffPresentation,
+    flush,
+    whenIdle,
+    beginStream,
+    endStream,
+    endDiffStream,
+    pipeToEditor,
+    pipeToDiff,
+    createCheckpoint,
+    rollbackTo,
     setLanguage(language: MonacoLanguage) {
       if (editorMgr) {
         editorMgr.setLanguage(language, languages as any)
@@ -834,6 +1149,30 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
     },
     setUpdateThrottleMs,
     getUpdateThrottleMs,
+    getUnifiedPatch(options?: UnifiedPatchOptions) {
+      return diffMgr?.getUnifiedPatch(options) ?? ''
+    },
+    getSearchReplaceBlocks(): SearchReplaceBlock[] {
+      return diffMgr?.getSearchReplaceBlocks() ?? []
+    },
+    goToNextHunk() {
+      diffMgr?.goToNextHunk()
+    },
+    goToPreviousHunk() {
+      diffMgr?.goToPreviousHunk()
+    },
+    acceptAll() {
+      diffMgr?.acceptAll()
+    },
+    rejectAll() {
+      diffMgr?.rejectAll()
+    },
+    setHunkReviewDecision(index: number, decision: DiffHunkReviewDecision) {
+      diffMgr?.setHunkReviewDecision(index, decision)
+    },
+    getReviewResult(): DiffReviewResult {
+      return diffMgr?.getReviewResult() ?? { text: '', hunks: [], complete: true }
+    },
     getCode() {
       if (editorMgr)
         return editorMgr.getCode()
@@ -865,11 +1204,25 @@ function useMonaco(monacoOptions: MonacoOptions = {}): UseMonacoReturn {
   }
 }
 
+/**
+ * 将 LLM 输出的原始 Markdown 流按代码围栏（``` / ~~~）拆分，
+ * 每个代码块通过各自的 useMonaco() 实例以 appendCode 流式写入编辑器。
+ *
+ * @param {FencedStreamRouterOptions} options - onBlock 返回挂载容器；其余为传给每个 useMonaco() 的配置
+ * @returns {FencedStreamRouter} push / end / getBlocks / getBlockEditor / dispose
+ */
+function createFencedStreamRouter(options: FencedStreamRouterOptions): FencedStreamRouter {
+  return new FencedStreamRouterManager(options, useMonaco)
+}
+
 export {
   clearHighlighterCache,
+  createFencedStreamRouter,
+  createMonacoPool,
   defaultRevealDebounceMs,
   detectLanguage,
   getOrCreateHighlighter,
+  isCreateSupersededError,
   registerMonacoThemes,
   useMonaco,
 }
@@ -1,3 +1,5 @@
+import { minimalEditTimeBudgetMs } from './constant'
+
 export interface MinimalEditResult {
   start: number
   endPrevIncl: number
@@ -38,3 +40,176 @@ export function computeMinimalEdit(
     replaceText: next.slice(start, endNext + 1),
   }
 }
+
+/** Replace `prev.slice(start, end)` with `text`. */
+export interface MinimalTextEdit {
+  start: number
+  end: number
+  text: string
+}
+
+function splitLinesKeepEnds(text: string) {
+  const lines: string[] = []
+  let from = 0
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) {
+      lines.push(text.slice(from, i + 1))
+      from = i + 1
+    }
+  }
+  if (from < text.length)
+    lines.push(text.slice(from))
+  return lines
+}
+
+/**
+ * Myers diff over line ids. Returns the matched `[aIndex, bIndex]` pairs in
+ * order, or null when `deadline` passes first.
+ */
+function diffLineIds(a: Int32Array, b: Int32Array, deadline: number) {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  // trace[d] holds v[-d..d] after round d.
+  const trace: Int32Array[] = []
+  let found = -1
+  for (let d = 0; d <= max && found < 0; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]))
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = d
+        break
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+    if (found < 0 && Date.now() > deadline)
+      return null
+  }
+
+  const matches: Array<[number, number]> = []
+  let x = n
+  let y = m
+  for (let d = found; d > 0; d--) {
+    const prevV = trace[d - 1]
+    const k = x - y
+    const prevK = (k === -d || (k !== d && prevV[k - 1 + d - 1] < prevV[k + 1 + d - 1]))
+      ? k + 1
+      : k - 1
+    const prevX = prevV[prevK + d - 1]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+      matches.push([x, y])
+    }
+    x = prevX
+    y = prevY
+  }
+  while (x > 0 && y > 0) {
+    x--
+    y--
+    matches.push([x, y])
+  }
+  return matches.reverse()
+}
+
+function singleMiddleEdit(prev: string, next: string): MinimalTextEdit[] {
+  const res = computeMinimalEdit(prev, next)
+  if (!res)
+    return []
+  return [{ start: res.start, end: res.endPrevIncl + 1, text: res.replaceText }]
+}
+
+/**
+ * Compute non-overlapping edits (ascending, offsets into `prev`) that turn
+ * `prev` into `next`. Changed lines are found with a line-level Myers diff,
+ * and each changed block is trimmed to its changed characters, so text
+ * between two changes is left alone. Falls back to a single middle
+ * replacement when the diff takes longer than `timeBudgetMs`.
+ */
+export function computeMinimalEdits(
+  prev: string,
+  next: string,
+  timeBudgetMs = minimalEditTimeBudgetMs,
+): MinimalTextEdit[] {
+  if (prev === next)
+    return []
+  const deadline = Date.now() + timeBudgetMs
+  const prevLines = splitLinesKeepEnds(prev)
+  const nextLines = splitLinesKeepEnds(next)
+
+  // Common leading and trailing lines never take part in the diff.
+  let head = 0
+  while (
+    head < prevLines.length
+    && head < nextLines.length
+    && prevLines[head] === nextLines[head]
+  ) {
+    head++
+  }
+  let tail = 0
+  while (
+    tail < prevLines.length - head
+    && tail < nextLines.length - head
+    && prevLines[prevLines.length - 1 - tail] === nextLines[nextLines.length - 1 - tail]
+  ) {
+    tail++
+  }
+
+  const ids = new Map<string, number>()
+  const toIds = (lines: string[]) => {
+    const out = new Int32Array(lines.length - head - tail)
+    for (let i = 0; i < out.length; i++) {
+      const line = lines[head + i]
+      let id = ids.get(line)
+      if (id == null) {
+        id = ids.size
+        ids.set(line, id)
+      }
+      out[i] = id
+    }
+    return out
+  }
+  const matches = diffLineIds(toIds(prevLines), toIds(nextLines), deadline)
+  if (!matches)
+    return singleMiddleEdit(prev, next)
+
+  const prevOffsets = [0]
+  for (const line of prevLines)
+    prevOffsets.push(prevOffsets[prevOffsets.length - 1] + line.length)
+
+  const edits: MinimalTextEdit[] = []
+  let a = 0
+  let b = 0
+  const midPrev = prevLines.length - head - tail
+  const midNext = nextLines.length - head - tail
+  for (const [ma, mb] of [...matches, [midPrev, midNext] as [number, number]]) {
+    if (ma > a || mb > b) {
+      const start = prevOffsets[head + a]
+      const end = prevOffsets[head + ma]
+      const replaced = prev.slice(start, end)
+      const text = nextLines.slice(head + b, head + mb).join('')
+      const res = computeMinimalEdit(replaced, text)
+      if (res) {
+        edits.push({
+          start: start + res.start,
+          end: start + res.endPrevIncl + 1,
+          text: res.replaceText,
+        })
+      }
+    }
+    a = ma + 1
+    b = mb + 1
+  }
+  return edits
+}
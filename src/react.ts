@@ -0,0 +1,220 @@
+// React entry (`stream-monaco/react`). A hook that keeps one `useMonaco()`
+// instance per component, and components that create the editor in an
+// effect, stream prop changes into it and clean up on unmount. The effects
+// are safe under StrictMode: the first create is superseded by the cleanup
+// of the simulated unmount, and that rejection is ignored.
+import type { CSSProperties, MutableRefObject } from 'react'
+import type * as monaco from './monaco-shim'
+import type {
+  MonacoEventMap,
+  MonacoEventName,
+  MonacoOptions,
+  UseMonacoReturn,
+} from './type'
+import {
+  createElement,
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from 'react'
+import { monacoEventNames } from './constant'
+import { isCreateSupersededError, useMonaco } from './index'
+
+/** `onFlush`, `onHeightChanged`, ... for every `useMonaco().on` event. */
+export type StreamMonacoEventProps = {
+  [K in MonacoEventName as `on${Capitalize<K>}`]?: (payload: MonacoEventMap[K]) => void
+}
+
+interface SharedProps<TView> extends StreamMonacoEventProps {
+  language: string
+  /** Applied with `setTheme` whenever it changes. */
+  theme?: string
+  /** `useMonaco()` options; read once when the component mounts. */
+  options?: MonacoOptions
+  /** Called with the editor once it is created. */
+  onReady?: (view: TView) => void
+  /** Called when creating the editor or applying the theme failed. */
+  onError?: (error: unknown) => void
+  className?: string
+  style?: CSSProperties
+}
+
+export interface StreamMonacoProps
+  extends SharedProps<monaco.editor.IStandaloneCodeEditor> {
+  code: string
+  /** Called with the editor text after the user edited it. */
+  onChange?: (code: string) => void
+}
+
+export interface StreamMonacoDiffProps
+  extends SharedProps<monaco.editor.IStandaloneDiffEditor> {
+  original: string
+  modified: string
+}
+
+function useStableMonaco(options: MonacoOptions | undefined, theme?: string) {
+  const instance = useRef<UseMonacoReturn | null>(null)
+  if (!instance.current) {
+    const resolved = options ?? {}
+    instance.current = useMonaco(theme ? { ...resolved, theme } : resolved)
+  }
+  return instance.current
+}
+
+/**
+ * One `useMonaco()` instance for the lifetime of the component, cleaned up
+ * on unmount. `options` are read on the first render.
+ */
+export function useStreamMonaco(options?: MonacoOptions): UseMonacoReturn {
+  const instance = useStableMonaco(options)
+  useEffect(() => () => instance.cleanupEditor(), [instance])
+  return instance
+}
+
+function eventHandlerName(name: MonacoEventName) {
+  return `on${name[0].toUpperCase()}${name.slice(1)}` as keyof StreamMonacoEventProps
+}
+
+function useMonacoEditorLifecycle<TView>(
+  instance: UseMonacoReturn,
+  latest: MutableRefObject<SharedProps<TView>>,
+  create: (container: HTMLElement) => Promise<TView>,
+) {
+  const container = useRef<HTMLDivElement | null>(null)
+  const [view, setView] = useState<TView | null>(null)
+
+  useEffect(() => {
+    if (!container.current)
+      return
+    let active = true
+    create(container.current).then(
+      (created) => {
+        if (!active)
+          return
+        setView(created)
+        latest.current.onReady?.(created)
+      },
+      (err) => {
+        // Unmounted (or StrictMode re-ran the effect) before it resolved.
+        if (active && !isCreateSupersededError(err))
+          latest.current.onError?.(err)
+      },
+    )
+    return () => {
+      active = false
+      setView(null)
+      instance.cleanupEditor()
+    }
+  }, [instance])
+
+  // Declared after the create effect so its cleanup, which emits
+  // `disposed`, runs while the handlers are still subscribed.
+  useEffect(() => {
+    const offs = monacoEventNames.map(name => instance.on(name, (payload) => {
+      const handler = latest.current[eventHandlerName(name)] as
+        ((payload: unknown) => void) | undefined
+      handler?.(payload)
+    }))
+    return () => offs.forEach(off => off())
+  }, [instance])
+
+  const appliedTheme = useRef(latest.current.theme)
+  const theme = latest.current.theme
+  useEffect(() => {
+    if (!theme || theme === appliedTheme.current)
+      return
+    appliedTheme.current = theme
+    instance.setTheme(theme).catch(err => latest.current.onError?.(err))
+  }, [instance, theme])
+
+  const appliedLanguage = useRef(latest.current.language)
+  const language = latest.current.language
+  useEffect(() => {
+    if (language === appliedLanguage.current)
+      return
+    appliedLanguage.current = language
+    instance.setLanguage(language)
+  }, [instance, language])
+
+  return { container, view }
+}
+
+/**
+ * `<StreamMonaco code={code} language="typescript" />`. Changes of `code`
+ * go through `updateCode`, so a growing string is appended instead of
+ * remounting. The ref receives `getEditorView()`.
+ */
+export const StreamMonaco = forwardRef<
+  monaco.editor.IStandaloneCodeEditor,
+  StreamMonacoProps
+>((props, ref) => {
+  const instance = useStableMonaco(props.options, props.theme)
+  const latest = useRef(props)
+  latest.current = props
+  // Last text handed to or received from the editor, so the echo of a user
+  // edit coming back through `code` is not applied again.
+  const lastCode = useRef(props.code)
+
+  const { container, view } = useMonacoEditorLifecycle(instance, latest, host =>
+    instance.createEditor(host, lastCode.current, latest.current.language))
+
+  // Throttled flushes can land text older than `code`; only `userEdit`
+  // tells those apart from typing.
+  useEffect(() => instance.on('userEdit', ({ target }) => {
+    const editor = instance.getEditorView()
+    if (target !== 'editor' || !editor)
+      return
+    lastCode.current = editor.getValue()
+    latest.current.onChange?.(lastCode.current)
+  }), [instance])
+
+  useEffect(() => {
+    if (props.code === lastCode.current)
+      return
+    lastCode.current = props.code
+    instance.updateCode(props.code, latest.current.language)
+  }, [instance, props.code])
+
+  useImperativeHandle<typeof view, typeof view>(ref, () => view, [view])
+  return createElement('div', { ref: container, className: props.className, style: props.style })
+})
+StreamMonaco.displayName = 'StreamMonaco'
+
+/**
+ * `<StreamMonacoDiff original={a} modified={b} language="typescript" />`;
+ * side changes go through `updateDiff`. The ref receives
+ * `getDiffEditorView()`.
+ */
+export const StreamMonacoDiff = forwardRef<
+  monaco.editor.IStandaloneDiffEditor,
+  StreamMonacoDiffProps
+>((props, ref) => {
+  const instance = useStableMonaco(props.options, props.theme)
+  const latest = useRef(props)
+  latest.current = props
+  const lastSides = useRef({ original: props.original, modified: props.modified })
+
+  const { container, view } = useMonacoEditorLifecycle(instance, latest, async (host) => {
+    const { original, modified } = lastSides.current
+    const diffEditor = await instance.createDiffEditor(host, original, modified, latest.current.language)
+    // `updateDiff` is dropped while the diff editor is still being created.
+    const latestSides = lastSides.current
+    if (latestSides.original !== original || latestSides.modified !== modified)
+      instance.updateDiff(latestSides.original, latestSides.modified, latest.current.language)
+    return diffEditor
+  })
+
+  useEffect(() => {
+    const sides = lastSides.current
+    if (props.original === sides.original && props.modified === sides.modified)
+      return
+    lastSides.current = { original: props.original, modified: props.modified }
+    instance.updateDiff(props.original, props.modified, latest.current.language)
+  }, [instance, props.original, props.modified])
+
+  useImperativeHandle<typeof view, typeof view>(ref, () => view, [view])
+  return createElement('div', { ref: container, className: props.className, style: props.style })
+})
+StreamMonacoDiff.displayName = 'StreamMonacoDiff'
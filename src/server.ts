@@ -0,0 +1,269 @@
+// DOM-free entry (`stream-monaco/server`). Renders the same markup the
+// browser entry paints before Monaco takes over, so transcripts can be
+// rendered in Node and hydrated with `createEditor` / `createDiffEditor`.
+//
+// Keep this module (and everything it imports) free of `monaco-shim`,
+// `ensureMonacoWorkers` and DOM globals.
+import type {
+  DiffAppearance,
+  DiffLineStyle,
+  DiffUnchangedRegionStyle,
+  MonacoOptions,
+  MonacoTheme,
+} from './type'
+import { processedLanguage } from './code.detect'
+import { defaultThemes } from './constant'
+import { resolveStaticDiffAppearance } from './core/diffAppearance'
+import { computeLineChanges } from './core/diffLineChanges'
+import {
+  escapeHtml,
+  estimateStaticCodeHeight,
+  resolveStaticCodeMetrics,
+  resolveStaticCodePreStyle,
+  serializeInlineStyle,
+  staticCodeClassName,
+} from './core/staticCode'
+import {
+  clearHighlighterEntries,
+  getOrCreateHighlighter,
+} from './utils/shikiHighlighter'
+
+export type ServerRenderOptions = Pick<
+  MonacoOptions,
+  'MAX_HEIGHT' | 'fontFamily' | 'fontSize' | 'lineHeight' | 'padding' | 'themes' | 'theme'
+>
+
+export interface ServerDiffRenderOptions extends ServerRenderOptions {
+  diffAppearance?: DiffAppearance
+  diffLineStyle?: DiffLineStyle
+  diffUnchangedRegionStyle?: DiffUnchangedRegionStyle
+  /** Render both sides next to each other. Default: true */
+  renderSideBySide?: boolean
+}
+
+interface HighlightedLines {
+  lines: string[]
+  fg: string | null
+  bg: string | null
+}
+
+// Shiki `FontStyle` bit flags.
+const fontStyleItalic = 1
+const fontStyleBold = 2
+const fontStyleUnderline = 4
+
+function resolveThemeName(theme: MonacoTheme) {
+  return typeof theme === 'string' ? theme : (theme as any).name as string
+}
+
+function resolveRenderContext(options: ServerRenderOptions) {
+  const themes = options.themes?.length ? options.themes : defaultThemes
+  const themeName = options.theme ?? resolveThemeName(themes[0])
+  const themeList = themes.map(resolveThemeName).includes(themeName)
+    ? themes
+    : themes.concat(themeName)
+  const maxHeight = options.MAX_HEIGHT ?? 500
+  const maxHeightValue = typeof maxHeight === 'number'
+    ? maxHeight
+    : Number.parseFloat(maxHeight.match(/^(\d+(?:\.\d+)?)/)?.[1] ?? '500')
+  const maxHeightCSS = typeof maxHeight === 'number' ? `${maxHeight}px` : maxHeight
+  return {
+    themeName,
+    themeList,
+    maxHeightValue,
+    maxHeightCSS,
+    metrics: resolveStaticCodeMetrics(options),
+  }
+}
+
+function renderToken(token: { content: string, color?: string, fontStyle?: number }) {
+  const styles: string[] = []
+  if (token.color)
+    styles.push(`color:${token.color}`)
+  const fontStyle = token.fontStyle ?? 0
+  if (fontStyle > 0) {
+    if (fontStyle & fontStyleItalic)
+      styles.push('font-style:italic')
+    if (fontStyle & fontStyleBold)
+      styles.push('font-weight:bold')
+    if (fontStyle & fontStyleUnderline)
+      styles.push('text-decoration:underline')
+  }
+  const text = escapeHtml(token.content)
+  return styles.length
+    ? `<span style="${escapeHtml(styles.join(';'))}">${text}</span>`
+    : text
+}
+
+async function highlightLines(
+  code: string,
+  language: string,
+  context: ReturnType<typeof resolveRenderContext>,
+): Promise<HighlightedLines> {
+  const lang = processedLanguage(language) || language
+  try {
+    const highlighter = await getOrCreateHighlighter(context.themeList as any, [lang])
+    const result = highlighter.codeToTokens(code, { lang, theme: context.themeName })
+    return {
+      lines: result.tokens.map((line: any[]) => line.map(renderToken).join('')),
+      fg: result.fg ?? null,
+      bg: result.bg ?? null,
+    }
+  }
+  catch {
+    // Unknown language/theme: keep the layout and fall back to plain text.
+    return {
+      lines: code.split(/\r?\n/).map(escapeHtml),
+      fg: null,
+      bg: null,
+    }
+  }
+}
+
+function renderLine(html: string, className?: string, lineNumber?: number) {
+  const classes = className ? `line ${className}` : 'line'
+  const number = lineNumber != null
+    ? `<span class="line-numbers${className ? ` ${className}` : ''}" aria-hidden="true">${lineNumber}</span>`
+    : ''
+  return `<span class="${classes}">${number}${html}</span>`
+}
+
+function renderPre(
+  body: string,
+  highlighted: Pick<HighlightedLines, 'fg' | 'bg'>,
+  context: ReturnType<typeof resolveRenderContext>,
+) {
+  const style: Record<string, string> = {}
+  if (highlighted.bg)
+    style.backgroundColor = highlighted.bg
+  if (highlighted.fg)
+    style.color = highlighted.fg
+  Object.assign(style, resolveStaticCodePreStyle(context.metrics))
+  return `<pre class="shiki ${escapeHtml(context.themeName)}" style="${escapeHtml(serializeInlineStyle(style))}" tabindex="0"><code>${body}</code></pre>`
+}
+
+/**
+ * Render a single code block to HTML. Insert the result into the container
+ * you later pass to `createEditor`; the editor replaces it without a layout
+ * shift because both use the same font and line metrics.
+ */
+export async function renderCodeToHtml(
+  code: string,
+  language: string,
+  options: ServerRenderOptions = {},
+) {
+  const context = resolveRenderContext(options)
+  const highlighted = await highlightLines(code, language, context)
+  const body = highlighted.lines.map(line => renderLine(line)).join('\n')
+  const height = estimateStaticCodeHeight(code, context.metrics, context.maxHeightValue)
+  const hostStyle = serializeInlineStyle({
+    height: `${height}px`,
+    maxHeight: context.maxHeightCSS,
+    overflow: 'auto',
+  })
+  return `<div class="${staticCodeClassName}" style="${escapeHtml(hostStyle)}">${renderPre(body, highlighted, context)}</div>`
+}
+
+/**
+ * Render a two-sided diff to HTML using the root/layout/appearance classes of
+ * the live diff chrome, with changed lines marked `line-insert` /
+ * `line-delete`. `createDiffEditor` clears the container before mounting.
+ */
+export async function renderDiffToHtml(
+  originalCode: string,
+  modifiedCode: string,
+  language: string,
+  options: ServerDiffRenderOptions = {},
+) {
+  const context = resolveRenderContext(options)
+  const [original, modified] = await Promise.all([
+    highlightLines(originalCode, language, context),
+    highlightLines(modifiedCode, language, context),
+  ])
+  const deleted = new Set<number>()
+  const inserted = new Set<number>()
+  const changes = computeLineChanges(originalCode, modifiedCode)
+  for (const change of changes) {
+    for (let l = change.originalStartLineNumber; l <= change.originalEndLineNumber; l++)
+      deleted.add(l)
+    for (let l = change.modifiedStartLineNumber; l <= change.modifiedEndLineNumber; l++)
+      inserted.add(l)
+  }
+
+  const sideBySide = options.renderSideBySide ?? true
+  const appearance = resolveStaticDiffAppearance(
+    options.diffAppearance,
+    context.themeName,
+    modified.bg ?? original.bg,
+  )
+  const rootClasses = [
+    'stream-monaco-diff-root',
+    `stream-monaco-diff-style-${options.diffLineStyle ?? 'background'}`,
+    `stream-monaco-diff-unchanged-style-${options.diffUnchangedRegionStyle ?? 'line-info'}`,
+    sideBySide ? 'stream-monaco-diff-side-by-side' : 'stream-monaco-diff-inline',
+    `stream-monaco-diff-appearance-${appearance}`,
+  ]
+
+  let panes: string
+  let lineCount: number
+  if (sideBySide) {
+    const originalBody = original.lines
+      .map((line, i) => renderLine(line, deleted.has(i + 1) ? 'line-delete' : undefined, i + 1))
+      .join('\n')
+    const modifiedBody = modified.lines
+      .map((line, i) => renderLine(line, inserted.has(i + 1) ? 'line-insert' : undefined, i + 1))
+      .join('\n')
+    const paneStyle = escapeHtml(serializeInlineStyle({ flex: '1 1 50%', minWidth: '0', overflow: 'auto' }))
+    panes = `<div class="editor original" style="${paneStyle}">${renderPre(originalBody, original, context)}</div>`
+      + `<div class="editor modified" style="${paneStyle}">${renderPre(modifiedBody, modified, context)}</div>`
+    lineCount = Math.max(original.lines.length, modified.lines.length)
+  }
+  else {
+    // Interleave deleted original lines above the modified lines that
+    // replaced them, like Monaco's inline view.
+    const rows: string[] = []
+    let nextModified = 1
+    const pushModifiedUntil = (end: number) => {
+      for (; nextModified <= end; nextModified++) {
+        rows.push(renderLine(
+          modified.lines[nextModified - 1] ?? '',
+          inserted.has(nextModified) ? 'line-insert' : undefined,
+          nextModified,
+        ))
+      }
+    }
+    for (const change of changes) {
+      pushModifiedUntil(change.modifiedStartLineNumber - 1)
+      for (let l = change.originalStartLineNumber; l <= change.originalEndLineNumber; l++)
+        rows.push(renderLine(original.lines[l - 1] ?? '', 'line-delete', l))
+    }
+    pushModifiedUntil(modified.lines.length)
+    const paneStyle = escapeHtml(serializeInlineStyle({ flex: '1 1 100%', minWidth: '0', overflow: 'auto' }))
+    panes = `<div class="editor modified" style="${paneStyle}">${renderPre(rows.join('\n'), modified, context)}</div>`
+    lineCount = rows.length
+  }
+
+  const metrics = context.metrics
+  const height = Math.min(
+    lineCount * metrics.lineHeight + metrics.paddingTop + metrics.paddingBottom,
+    context.maxHeightValue,
+  )
+  const rootStyle: Record<string, string> = {
+    height: `${height}px`,
+    maxHeight: context.maxHeightCSS,
+    overflow: 'hidden',
+  }
+  const bg = modified.bg ?? original.bg
+  const fg = modified.fg ?? original.fg
+  const rootVars = [
+    bg ? `--stream-monaco-editor-bg:${bg}` : '',
+    fg ? `--stream-monaco-editor-fg:${fg}` : '',
+  ].filter(Boolean).join(';')
+  const style = [rootVars, serializeInlineStyle(rootStyle)].filter(Boolean).join(';')
+  return `<div class="${rootClasses.join(' ')}" style="${escapeHtml(style)}">`
+    + `<div class="monaco-diff-editor ${sideBySide ? 'side-by-side' : 'inline'}" style="display:flex;height:100%">${panes}</div>`
+    + `</div>`
+}
+
+export { clearHighlighterEntries as clearHighlighterCache, getOrCreateHighlighter }
+export { detectLanguage } from './code.detect'
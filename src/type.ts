@@ -5,6 +5,7 @@ import type {
   SpecialTheme,
   ThemeInput,
 } from 'shiki'
+import type { LanguageDefinition } from './code.detect'
 
 export type ShikiHighlighter = _ShikiHighlighter | any
 
@@ -307,6 +308,12 @@ export type DiffLineStyle = 'background' | 'bar'
 
 export type DiffAppearance = 'auto' | 'light' | 'dark'
 
+/** Shape of the `streamingIndicator` decoration at the end of the model. */
+export type StreamingIndicatorStyle = 'caret' | 'pulse'
+
+/** How far `showChanges` widens a rewritten range before marking it. */
+export type ShowChangesGranularity = 'word' | 'char'
+
 export type DiffUnchangedRegionStyle
   = | 'line-info'
     | 'line-info-basic'
@@ -336,6 +343,30 @@ export interface DiffCodeValue {
 
 export type MonacoCodeValue = string | DiffCodeValue | null
 
+/**
+ * `incomplete`: the stream ended (`endSearchReplaceStream`) before the
+ * block's REPLACE marker; its replacement is not applied.
+ */
+export type SearchReplaceBlockStatus = 'pending' | 'applied' | 'search-not-found' | 'incomplete'
+
+export interface SearchReplaceBlock {
+  /** Position of the block in the stream, starting at 0. */
+  index: number
+  search: string
+  replace: string
+  status: SearchReplaceBlockStatus
+}
+
+export interface UnifiedPatchOptions {
+  /** Unchanged lines kept around each change. Default: 3 */
+  contextLines?: number
+  /**
+   * File name for the `--- a/<name>` / `+++ b/<name>` headers. Without it the
+   * headers read `--- original` / `+++ modified`.
+   */
+  fileName?: string
+}
+
 export interface MonacoOptions
   extends monaco.editor.IStandaloneEditorConstructionOptions,
   monaco.editor.IDiffEditorConstructionOptions {
@@ -421,13 +452,47 @@ export interface MonacoOptions
    * Default: `160`.
    */
   diffHunkHoverHideDelayMs?: number
+  /**
+   * Bind `F7` / `Shift+F7` in both diff editors to `goToNextHunk` /
+   * `goToPreviousHunk`.
+   * Default: `false`.
+   */
+  diffHunkKeybindings?: boolean
+  /**
+   * Show a `3 / 12 changes` counter in the diff chrome. It follows the
+   * cursor of the modified editor and the `diffAppearance` colors.
+   * Default: `false`.
+   */
+  diffHunkCounter?: boolean
+  /**
+   * Review mode: hunk hover actions become `Accept` / `Reject` and record a
+   * decision instead of editing the models. `Alt+]` / `Alt+[` move between
+   * hunks and `Alt+Y` / `Alt+N` accept or reject the active one. Read the
+   * merged text with `getReviewResult()`.
+   * Default: `false`.
+   */
+  diffReviewMode?: boolean
+  /**
+   * Called whenever a hunk review decision changes.
+   */
+  onReviewChange?: (result: DiffReviewResult) => void
+  /**
+   * Called whenever a conflict of `createMergeEditor` is resolved or reset.
+   */
+  onMergeChange?: (result: MergeResult) => void
   /**
    * Optional interception callback for hunk hover actions.
-   * Return `false` to prevent the built-in model edit behavior.
+   * Return `false` to prevent the built-in model edit behavior, or to keep
+   * the review decision unchanged for `accept` / `reject`.
    */
   onDiffHunkAction?: (
     context: DiffHunkActionContext,
   ) => void | boolean | Promise<void | boolean>
+  /**
+   * Called when a block fed through `appendSearchReplaceChunk` starts
+   * (`pending`) and when it is `applied` or its search text is not found.
+   */
+  onSearchReplaceBlock?: (block: SearchReplaceBlock) => void
   /**
    * Debounce time (ms) to coalesce multiple reveal requests into a single
    * reveal. Useful for streaming/append scenarios. Default: 75
@@ -446,6 +511,46 @@ export interface MonacoOptions
    * to batch many small appends and then perform one final jump to bottom. Default: undefined (disabled).
    */
   revealBatchOnIdleMs?: number
+  /**
+   * Show a blinking caret (`'caret'`, also `true`) or a pulsing dot
+   * (`'pulse'`) at the end of the editor, or of the modified side of the
+   * diff editor, while streamed content keeps arriving. It follows each
+   * flush, uses the resolved theme foreground and disappears after
+   * `streamingIndicatorIdleMs` without new content or on
+   * `endStream()` / `endDiffStream()`. Between `beginStream()` and the end
+   * of the stream it stays visible while waiting for the next token.
+   * Default: false
+   */
+  streamingIndicator?: boolean | StreamingIndicatorStyle
+  /**
+   * Idle time (ms) after the last flush before the streaming indicator hides.
+   * Default: 1000
+   */
+  streamingIndicatorIdleMs?: number
+  /**
+   * Give text that was just streamed in (`appendCode`, prefix-extending
+   * `updateCode`, and appends to the modified side of the diff editor) a
+   * background that fades out over `streamingHighlightMs`. Consecutive
+   * appends share one decoration per fade step and the number of live
+   * decorations is capped, so long streams stay cheap. Any other edit
+   * clears the highlights.
+   * Default: false
+   */
+  streamingHighlight?: boolean
+  /**
+   * Fade-out duration (ms) of `streamingHighlight`.
+   * Default: 1200
+   */
+  streamingHighlightMs?: number
+  /**
+   * "Show changes" mode for `createEditor`: when `updateCode` rewrites text
+   * instead of appending, the replaced range stays decorated and hovering it
+   * shows the previous text. `'word'` (also `true`) widens the range to whole
+   * words, `'char'` marks exactly the characters that changed. Rewrites that
+   * fall back to `setValue` (see `minimalEditMaxChars`) are not marked.
+   * Default: false
+   */
+  showChanges?: boolean | ShowChangesGranularity
   /**
    * Time window (ms) used to throttle `updateCode` calls in addition to RAF batching.
    * - 0 means only RAF-based coalescing (no extra time throttling).
@@ -501,6 +606,29 @@ export interface MonacoOptions
    * library will fall back to full `setValue` instead of attempting minimal edit.
    */
   minimalEditMaxChangeRatio?: number
+  /**
+   * Time budget (ms) for the line diff that lets a rewrite touch only the
+   * changed lines (one edit per changed block). When it runs out, the edit
+   * replaces everything between the first and the last change instead.
+   * Default: 8
+   */
+  minimalEditTimeBudgetMs?: number
+  /**
+   * Nonce set on the `<style>` elements stream-monaco injects (diff chrome,
+   * streaming indicator, ...), for a CSP whose `style-src` lists
+   * `'nonce-...'` instead of `'unsafe-inline'`. Shadow roots get constructed
+   * stylesheets, which need no nonce. The static Shiki HTML (`renderStatic`,
+   * parked pool blocks, `stream-monaco/server`) colors tokens with `style`
+   * attributes, which a nonce does not cover.
+   */
+  cspNonce?: string
+  /**
+   * Whether stream-monaco injects its own stylesheets. Set to false and load
+   * `stream-monaco/diff.css` yourself when styles must come from files.
+   * Monaco's own styles are not affected.
+   * Default: true
+   */
+  injectStyles?: boolean
   // 添加在编辑器创建之前的钩子
   onBeforeCreate?: (
     monaco: typeof monacoApi,
@@ -520,18 +648,157 @@ export enum RevealStrategy {
   Center = 'center',
 }
 
-export type DiffHunkActionKind = 'revert' | 'stage'
+export type DiffHunkActionKind = 'revert' | 'stage' | 'accept' | 'reject'
 export type DiffHunkSide = 'upper' | 'lower'
 
 export interface DiffHunkActionContext {
   action: DiffHunkActionKind
   side: DiffHunkSide
   lineChange: monaco.editor.ILineChange
+  /** Position of `lineChange` among the current hunks. */
+  hunkIndex: number
   originalModel: monaco.editor.ITextModel
   modifiedModel: monaco.editor.ITextModel
 }
 
+export type DiffHunkReviewDecision = 'pending' | 'accepted' | 'rejected'
+
+export interface DiffReviewHunk {
+  index: number
+  lineChange: monaco.editor.ILineChange
+  decision: DiffHunkReviewDecision
+}
+
+export interface DiffReviewResult {
+  /**
+   * The original with every accepted hunk applied. Rejected and pending
+   * hunks keep their original lines.
+   */
+  text: string
+  hunks: DiffReviewHunk[]
+  /** True when no hunk is pending. */
+  complete: boolean
+}
+
+export interface MergeEditorSides {
+  base: string
+  ours: string
+  theirs: string
+}
+
+export type MergeConflictResolution = 'unresolved' | 'ours' | 'theirs' | 'both'
+
+export interface MergeConflict {
+  index: number
+  resolution: MergeConflictResolution
+  base: string
+  ours: string
+  theirs: string
+  /** Line range of the conflict in the merged (modified) model. */
+  startLineNumber: number
+  endLineNumber: number
+}
+
+export interface MergeResult {
+  /** Merged text; unresolved conflicts keep their conflict markers. */
+  text: string
+  conflicts: MergeConflict[]
+  /** True when no conflict is unresolved. */
+  resolved: boolean
+}
+
+/** Text source for `pipeToEditor` / `pipeToDiff`; bytes are decoded as UTF-8. */
+export type TextStreamSource
+  = | ReadableStream<string | Uint8Array>
+    | AsyncIterable<string | Uint8Array>
+
+export interface PipeTextOptions {
+  /** Cancels the source; the pipe then rejects with `signal.reason`. */
+  signal?: AbortSignal
+  /**
+   * Characters appended since the editor last flushed its append buffer
+   * before reading pauses until the next flush. Default: 16384
+   */
+  highWaterMark?: number
+  /** Language passed along with every append. */
+  language?: string
+}
+
+export interface EndStreamOptions {
+  /**
+   * Leave the editor editable (`true`) or read-only (`false`) once the
+   * stream is done. By default the `readOnly` value from before
+   * `beginStream()` is restored.
+   */
+  editable?: boolean
+}
+
+/** Snapshot taken by `createCheckpoint()` while the editor was mounted. */
+export interface EditorCheckpoint {
+  readonly kind: 'editor'
+  readonly code: string
+  readonly scrollTop: number
+  /** Whether auto-scroll was still following the bottom. */
+  readonly autoScroll: boolean
+}
+
+/** Snapshot taken by `createCheckpoint()` while the diff editor was mounted. */
+export interface DiffCheckpoint {
+  readonly kind: 'diff'
+  readonly original: string
+  readonly modified: string
+  /** Scroll position of the modified side. */
+  readonly scrollTop: number
+  readonly autoScroll: boolean
+}
+
+export type MonacoCheckpoint = EditorCheckpoint | DiffCheckpoint
+
+export interface MonacoFlushEvent {
+  /** Model the edit landed in. */
+  target: 'editor' | 'original' | 'modified'
+  /** `update` for replaced content, `append` for text added at the end. */
+  kind: 'update' | 'append'
+  /** Change of the model's size in UTF-8 bytes. */
+  byteDelta: number
+  lineDelta: number
+  lineCount: number
+}
+
+export interface MonacoEventMap {
+  /** A buffered `updateCode` / `appendCode` / diff update was applied. */
+  flush: MonacoFlushEvent
+  /** The user scrolled up while streaming, so auto-scroll stopped. */
+  autoScrollPaused: { target: 'editor' | 'diff' }
+  /** The user scrolled back to the bottom, so auto-scroll resumed. */
+  autoScrollResumed: { target: 'editor' | 'diff' }
+  /** The container height was changed to fit the content. */
+  heightChanged: { target: 'editor' | 'diff', height: number }
+  /** Monaco finished computing the diff. */
+  diffComputed: { lineChanges: monaco.editor.ILineChange[] }
+  themeApplied: { theme: string }
+  /**
+   * The user edited the editor (or the modified side of the diff editor).
+   * Not fired for the library's own writes, such as buffered updates that
+   * land after the text they were created from has moved on.
+   */
+  userEdit: { target: 'editor' | 'diff' }
+  /** `cleanupEditor()` disposed the editor. */
+  disposed: undefined
+}
+
+export type MonacoEventName = keyof MonacoEventMap
+
 export interface UseMonacoReturn {
+  /**
+   * Subscribe to a lifecycle or streaming event. Returns a function that
+   * removes the handler. Handlers survive `cleanupEditor()`, so one
+   * subscription covers editors created later by the same instance.
+   */
+  on: <K extends MonacoEventName>(
+    event: K,
+    handler: (payload: MonacoEventMap[K]) => void,
+  ) => () => void
   createEditor: (
     container: HTMLElement,
     code: string,
@@ -543,6 +810,102 @@ export interface UseMonacoReturn {
     modifiedCode: string,
     language: string,
   ) => Promise<monaco.editor.IStandaloneDiffEditor>
+  /**
+   * Three-way merge view. The original side shows `base` and the modified
+   * side the merged result, where changes of one side are taken over and
+   * conflicting changes are written with `<<<<<<< ours` / `>>>>>>> theirs`
+   * markers until resolved. Hovering a conflict offers Ours / Theirs / Both.
+   */
+  createMergeEditor: (
+    container: HTMLElement,
+    sides: MergeEditorSides,
+    language: string,
+  ) => Promise<monaco.editor.IStandaloneDiffEditor>
+  /**
+   * Update any side of the merge editor. Like `updateDiff`, updates are
+   * batched per frame, so this can be called for every streamed token.
+   */
+  updateMerge: (sides: Partial<MergeEditorSides>, codeLanguage?: string) => void
+  /** Pick a side for the conflict at `index`, or `unresolved` to undo. */
+  resolveMergeConflict: (index: number, resolution: MergeConflictResolution) => void
+  getMergeResult: () => MergeResult
+  /**
+   * Like `createDiffEditor`, but the modified side is reconstructed by
+   * applying a unified patch (`@@ -a,b +c,d @@` hunks) to `originalCode`.
+   * Rejects when a hunk does not match `originalCode`.
+   */
+  createDiffEditorFromPatch: (
+    container: HTMLElement,
+    originalCode: string,
+    patchText: string,
+    language: string,
+  ) => Promise<monaco.editor.IStandaloneDiffEditor>
+  /**
+   * Streaming counterpart of `updateDiff` for unified patches: re-applies the
+   * (possibly still growing) `patchText` to the current original model and
+   * updates the modified side. An unterminated last line is ignored until it
+   * completes. Throws when a hunk does not match the original.
+   */
+  applyPatch: (patchText: string, codeLanguage?: string) => void
+  /**
+   * Feed the next chunk of a streaming unified patch. Chunks may split
+   * anywhere, including inside `@@` headers. When the diff has an original,
+   * hunks are applied to it and the modified side updates as added lines
+   * stream in; when the diff started empty, hunk bodies are streamed into
+   * both sides. A new diff editor or `setDiffModels` starts a new patch.
+   * Like `applyPatch`, throws when a hunk does not match the original.
+   */
+  appendPatchChunk: (text: string, codeLanguage?: string) => void
+  /**
+   * End the patch stream: apply a last line that came without a newline.
+   * Also done by `endDiffStream`. Throws when that line makes a hunk
+   * mismatch the original.
+   */
+  endPatchStream: (codeLanguage?: string) => void
+  /**
+   * Feed the next chunk of `<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE`
+   * blocks. The blocks are applied to the original the diff had when the
+   * first chunk arrived, and the modified side follows as each replacement
+   * streams in. Text outside blocks is ignored. A new diff editor or
+   * `setDiffModels` starts a new sequence.
+   */
+  appendSearchReplaceChunk: (text: string, codeLanguage?: string) => void
+  /**
+   * End the SEARCH/REPLACE stream: apply a last line that came without a
+   * newline and mark blocks without a REPLACE marker `incomplete`. Also done
+   * by `endDiffStream`.
+   */
+  endSearchReplaceStream: (codeLanguage?: string) => void
+  /** Blocks received by `appendSearchReplaceChunk` so far, with status. */
+  getSearchReplaceBlocks: () => SearchReplaceBlock[]
+  /**
+   * Move the cursor of the diff editor to the next hunk, wrapping around at
+   * the end. Collapsed unchanged lines around the hunk are revealed.
+   */
+  goToNextHunk: () => void
+  /** Like `goToNextHunk`, in the other direction. */
+  goToPreviousHunk: () => void
+  /** Accept every current hunk of the diff editor. */
+  acceptAll: () => void
+  /** Reject every current hunk of the diff editor. */
+  rejectAll: () => void
+  /** Record a review decision for the hunk at `index`. */
+  setHunkReviewDecision: (index: number, decision: DiffHunkReviewDecision) => void
+  /**
+   * Current hunks with their review decisions, and the original text with
+   * the accepted hunks applied.
+   */
+  getReviewResult: () => DiffReviewResult
+  /**
+   * Paint Shiki-highlighted static HTML into `container` using the editor's
+   * font, line height and max height, so a later `createEditor` on the same
+   * container takes over without a layout shift.
+   */
+  renderStatic: (
+    container: HTMLElement,
+    code: string,
+    language: string,
+  ) => Promise<void>
   cleanupEditor: () => void
   safeClean: () => void
   updateCode: (newCode: string, codeLanguage: string) => void
@@ -562,6 +925,65 @@ export interface UseMonacoReturn {
   ) => Promise<void>
   setTheme: (theme: MonacoTheme, force?: boolean) => Promise<void>
   refreshDiffPresentation: () => void
+  /**
+   * Apply buffered `updateCode` / `appendCode` / `updateDiff` / `updateMerge`
+   * content now instead of on the next (throttled) frame. Resolves once a
+   * chunked diff append in progress has finished too.
+   */
+  flush: () => Promise<void>
+  /**
+   * Resolves once no update, reveal or height work is scheduled, e.g. before
+   * taking a screenshot or measuring the container.
+   */
+  whenIdle: () => Promise<void>
+  /**
+   * Mark the start of a stream into the mounted editor or diff editor: the
+   * editor becomes read-only and the diff editor defers unchanged-region
+   * folding until `endStream()` / `endDiffStream()`.
+   */
+  beginStream: () => void
+  /**
+   * Mark the end of the stream into the editor: buffered content is
+   * flushed, the final reveal happens right away instead of after
+   * `revealBatchOnIdleMs`, the model is tokenized again from the first line
+   * and the `readOnly` state from before `beginStream()` is restored.
+   */
+  endStream: (options?: EndStreamOptions) => Promise<void>
+  /**
+   * Diff editor counterpart of `endStream`. It also ends the inline
+   * streaming presentation and restores deferred `hideUnchangedRegions`
+   * without waiting for the idle timers.
+   */
+  endDiffStream: (options?: EndStreamOptions) => Promise<void>
+  /**
+   * Stream a `ReadableStream` (e.g. a `fetch` body or SSE) or async iterable
+   * into the editor through `appendCode`. Reading pauses while the append
+   * buffer is backed up, so it follows `updateThrottleMs`. Resolves when the
+   * source ends, or early when the editor is cleaned up; rejects when no
+   * editor is mounted.
+   */
+  pipeToEditor: (source: TextStreamSource, options?: PipeTextOptions) => Promise<void>
+  /**
+   * Like `pipeToEditor` for the diff editor: both sources are read
+   * concurrently into `appendOriginal` / `appendModified`.
+   */
+  pipeToDiff: (
+    sources: { original?: TextStreamSource, modified?: TextStreamSource },
+    options?: PipeTextOptions,
+  ) => Promise<void>
+  /**
+   * Snapshot the mounted editor (or diff editor) once buffered content has
+   * been applied, e.g. before starting a generation that may be rejected.
+   * Resolves to null when nothing is mounted.
+   */
+  createCheckpoint: () => Promise<MonacoCheckpoint | null>
+  /**
+   * Restore a checkpoint in place: the text is replaced with a single
+   * programmatic edit (no `setValue`, no new editor), pending streamed
+   * content is dropped and the scroll position and height are restored.
+   * Ignored when the editor the checkpoint belongs to is not mounted.
+   */
+  rollbackTo: (checkpoint: MonacoCheckpoint) => void
   setLanguage: (language: MonacoLanguage) => void
   getCurrentTheme: () => string
   getEditor: () => typeof monaco.editor
@@ -572,4 +994,92 @@ export interface UseMonacoReturn {
   setUpdateThrottleMs: (ms: number) => void
   getUpdateThrottleMs: () => number
   getCode: () => MonacoCodeValue
+  /**
+   * Serialize the current diff (both models and their effective line
+   * changes) as unified diff text. Returns an empty string when the sides are
+   * equal or no diff editor is mounted.
+   */
+  getUnifiedPatch: (options?: UnifiedPatchOptions) => string
+}
+
+export interface MonacoPoolOptions extends MonacoOptions {
+  /**
+   * Maximum number of live Monaco editors kept by the pool. Blocks beyond this
+   * budget are parked as static Shiki HTML and rehydrated on demand.
+   * Default: 8
+   */
+  maxLiveEditors?: number
+  /**
+   * `rootMargin` for the IntersectionObserver that decides which blocks are
+   * live. Without IntersectionObserver every mounted block asks for a live
+   * editor and the least recently used one is parked.
+   * Default: '200px 0px'
+   */
+  rootMargin?: string
+}
+
+export interface MonacoPoolBlock {
+  readonly container: HTMLElement
+  updateCode: (newCode: string, codeLanguage?: string) => void
+  appendCode: (appendText: string, codeLanguage?: string) => void
+  getCode: () => string
+  isLive: () => boolean
+  /** Force this block into a live editor, parking another block when needed. */
+  activate: () => Promise<monaco.editor.IStandaloneCodeEditor | null>
+  /** Return this block's editor to the pool and show static HTML instead. */
+  park: () => void
+  getEditorView: () => monaco.editor.IStandaloneCodeEditor | null
+  dispose: () => void
+}
+
+export interface MonacoPool {
+  mount: (
+    container: HTMLElement,
+    code: string,
+    language: string,
+  ) => MonacoPoolBlock
+  setTheme: (theme: MonacoTheme) => Promise<void>
+  getCurrentTheme: () => string
+  getLiveCount: () => number
+  dispose: () => void
+}
+
+export interface FencedCodeBlock {
+  index: number
+  /** Info string after the opening fence, e.g. `ts title="a.ts"`. */
+  info: string
+  /**
+   * Monaco language id: taken from the info string, or detected from the
+   * code when the fence has none.
+   */
+  language: string
+  code: string
+  /** True once the closing fence arrived or `end()` finalized the block. */
+  closed: boolean
+}
+
+export interface FencedStreamRouterOptions extends MonacoOptions {
+  /**
+   * Called when a fence opens. Return the container to mount the block's
+   * editor into; return nothing to only track the block.
+   */
+  onBlock: (block: FencedCodeBlock) => HTMLElement | null | undefined | void
+  /** Called when a block's fence closes or `end()` finalizes it. */
+  onBlockClose?: (block: FencedCodeBlock) => void
+  /** Markdown outside of fences, streamed as it arrives. */
+  onText?: (text: string) => void
+  /** Extra `detectLanguage` definitions for fences without an info string. */
+  languageDefinitions?: LanguageDefinition[]
+}
+
+export interface FencedStreamRouter {
+  /** Feed the next chunk of raw model output; chunks may split anywhere. */
+  push: (chunk: string) => void
+  /** The stream is complete: flush the last line and close an open fence. */
+  end: () => void
+  getBlocks: () => FencedCodeBlock[]
+  /** The `useMonaco()` instance behind block `index`, if it has an editor. */
+  getBlockEditor: (index: number) => UseMonacoReturn | null
+  /** Dispose every block editor; later chunks are ignored. */
+  dispose: () => void
 }
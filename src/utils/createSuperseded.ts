@@ -0,0 +1,18 @@
+const createSupersededCode = 'STREAM_MONACO_CREATE_SUPERSEDED'
+
+export function createSupersededError() {
+  const err = new Error('Editor creation was superseded')
+  ;(err as any).name = 'AbortError'
+  ;(err as any).code = createSupersededCode
+  return err
+}
+
+/**
+ * Whether `error` rejected a `createEditor` / `createDiffEditor` call because
+ * a later create or `cleanupEditor()` replaced it. Components that mount and
+ * unmount quickly (e.g. React StrictMode) hit this routinely; it is safe to
+ * ignore.
+ */
+export function isCreateSupersededError(error: unknown) {
+  return (error as { code?: unknown } | null)?.code === createSupersededCode
+}
@@ -0,0 +1,54 @@
+export type EventHandler<T> = (payload: T) => void
+
+export interface EventEmitter<Events extends object> {
+  /** Subscribe to `event`; returns a function that unsubscribes. */
+  on: <K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) => () => void
+  /** Whether `event` has handlers, so callers can skip building payloads. */
+  has: (event: keyof Events) => boolean
+  emit: <K extends keyof Events>(event: K, payload: Events[K]) => void
+  clear: () => void
+}
+
+/**
+ * Minimal typed event emitter. A throwing handler is reported and does not
+ * stop the remaining handlers or the code that emitted the event.
+ */
+export function createEventEmitter<Events extends object>(): EventEmitter<Events> {
+  const handlers = new Map<keyof Events, Set<EventHandler<any>>>()
+
+  function on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+    let set = handlers.get(event)
+    if (!set) {
+      set = new Set()
+      handlers.set(event, set)
+    }
+    set.add(handler)
+    return () => {
+      set!.delete(handler)
+    }
+  }
+
+  function has(event: keyof Events) {
+    return (handlers.get(event)?.size ?? 0) > 0
+  }
+
+  function emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    const set = handlers.get(event)
+    if (!set)
+      return
+    for (const handler of Array.from(set)) {
+      try {
+        handler(payload)
+      }
+      catch (error) {
+        console.warn(`${String(event)} event handler threw an error:`, error)
+      }
+    }
+  }
+
+  function clear() {
+    handlers.clear()
+  }
+
+  return { on, has, emit, clear }
+}
@@ -6,6 +6,8 @@ export interface HeightManagerOptions {
   transitionEasing?: string
   debounceMs?: number
   hysteresisPx?: number
+  /** Called after a new height was written to the container. */
+  onChange?: (height: number) => void
 }
 
 const DEFAULT_TRANSITION_MS = 120
@@ -79,6 +81,7 @@ export function createHeightManager(
     container.style.height = `${next}px`
     lastApplied = next
     log('heightManager', 'applied height ->', next)
+    options.onChange?.(next)
     queueMicrotask(() => {
       suppressed = false
     })
@@ -154,11 +157,14 @@ export function createHeightManager(
   function isSuppressed() {
     return suppressed
   }
+  function isPending() {
+    return raf != null || debounceTimer != null
+  }
   function getLastApplied() {
     return lastApplied
   }
   function getTransitionMs() {
     return transitionEnabled ? transitionMs : 0
   }
-  return { update, updateNow, dispose, isSuppressed, getLastApplied, getTransitionMs }
+  return { update, updateNow, dispose, isSuppressed, isPending, getLastApplied, getTransitionMs }
 }
@@ -10,19 +10,28 @@ export interface TimeSource {
  */
 export function createRafScheduler(timeSource?: TimeSource) {
   const ids: Record<string, number | null> = {}
+  // Async tasks whose promise has not settled yet.
+  let running = 0
   const ts: TimeSource = timeSource ?? {
     requestAnimationFrame: (cb: FrameRequestCallback) => requestAnimationFrame(cb),
     cancelAnimationFrame: (id: number) => cancelAnimationFrame(id),
   }
 
-  function schedule(kind: string, cb: FrameRequestCallback) {
+  function schedule(kind: string, cb: (time: number) => void | Promise<void>) {
     const existing = ids[kind]
     if (existing != null) {
       ts.cancelAnimationFrame(existing)
     }
     ids[kind] = ts.requestAnimationFrame((t) => {
       ids[kind] = null
-      cb(t)
+      const result = cb(t)
+      if (result && typeof result.then === 'function') {
+        running += 1
+        const settle = () => {
+          running -= 1
+        }
+        result.then(settle, settle)
+      }
     })
   }
 
@@ -34,5 +43,20 @@ export function createRafScheduler(timeSource?: TimeSource) {
     }
   }
 
-  return { schedule, cancel }
+  /** No task is scheduled and no async task is still running. */
+  function isIdle() {
+    return running === 0 && Object.values(ids).every(id => id == null)
+  }
+
+  return { schedule, cancel, isIdle }
+}
+
+/** Resolves on the next animation frame (a 16ms timer outside browsers). */
+export function nextFrame() {
+  return new Promise<void>((resolve) => {
+    if (typeof requestAnimationFrame !== 'undefined')
+      requestAnimationFrame(() => resolve())
+    else
+      setTimeout(resolve, 16)
+  })
 }
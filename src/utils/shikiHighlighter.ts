@@ -0,0 +1,143 @@
+import type { SpecialTheme, ThemeInput } from 'shiki'
+import { createHighlighter } from 'shiki'
+
+// Shiki highlighter cache shared by the browser entry (Monaco theme
+// registration) and the DOM-free `stream-monaco/server` entry. This module
+// must not import `monaco-shim` so it stays loadable in Node.
+
+const LEGACY_ONIG_INIT_KEY = '__streamMonacoLegacyOnigurumaInit__'
+const LEGACY_ENGINE_KEY = '__streamMonacoLegacyShikiEngine__'
+const LEGACY_MONACO_LANGS_INIT_KEY = '__streamMonacoLegacyMonacoLangsInit__'
+
+async function awaitLegacyOnigurumaInitIfPresent() {
+  try {
+    const p = (globalThis as any)?.[LEGACY_ONIG_INIT_KEY]
+    if (p && typeof p.then === 'function')
+      await p
+  }
+  catch {}
+}
+
+async function awaitLegacyMonacoLanguageContributionsIfPresent() {
+  try {
+    const p = (globalThis as any)?.[LEGACY_MONACO_LANGS_INIT_KEY]
+    if (p && typeof p.then === 'function')
+      await p
+  }
+  catch {}
+}
+
+async function getLegacyShikiEngineIfPresent() {
+  try {
+    const p = (globalThis as any)?.[LEGACY_ENGINE_KEY]
+    if (p && typeof p.then === 'function')
+      return await p
+  }
+  catch {}
+  return null
+}
+
+export async function createHighlighterWithLegacyEngineIfNeeded(options: any) {
+  await awaitLegacyOnigurumaInitIfPresent()
+  await awaitLegacyMonacoLanguageContributionsIfPresent()
+  const engine = await getLegacyShikiEngineIfPresent()
+  if (engine)
+    return createHighlighter({ ...options, engine })
+  return createHighlighter(options)
+}
+
+interface HighlighterEntry {
+  // promise that resolves to a shiki highlighter
+  promise: Promise<any>
+  // set of languages this highlighter was created with
+  languages: Set<string>
+}
+
+const highlighterCache = new Map<string, HighlighterEntry>()
+
+export function clearHighlighterEntries() {
+  highlighterCache.clear()
+}
+
+/**
+ * Return number of entries currently in the highlighter cache.
+ * Helpful for tests and debugging.
+ */
+export function getHighlighterCacheSize() {
+  return highlighterCache.size
+}
+
+function serializeThemes(themes: (ThemeInput | string | SpecialTheme)[]) {
+  return JSON.stringify(
+    themes.map(t => typeof t === 'string' ? t : (t as any).name ?? JSON.stringify(t)).sort(),
+  )
+}
+
+export async function getOrCreateHighlighter(
+  themes: (ThemeInput | string | SpecialTheme)[],
+  languages: string[],
+): Promise<import('../type').ShikiHighlighter> {
+  const key = serializeThemes(themes)
+  const requestedSet = new Set(languages)
+  let existing = highlighterCache.get(key)
+
+  if (existing) {
+    // if existing entry already covers requested languages, reuse
+    let allIncluded = true
+    for (const l of requestedSet) {
+      if (!existing.languages.has(l)) {
+        allIncluded = false
+        break
+      }
+    }
+    if (allIncluded) {
+      return existing.promise
+    }
+
+    // double-check cache in case a concurrent request already replaced/expanded the entry
+    const prev = existing
+    const current = highlighterCache.get(key)
+    if (current && current !== prev) {
+      // if the current cached entry already covers requested languages, reuse it
+      let allIncludedCurrent = true
+      for (const l of requestedSet) {
+        if (!current.languages.has(l)) {
+          allIncludedCurrent = false
+          break
+        }
+      }
+      if (allIncludedCurrent) {
+        return current.promise
+      }
+      // otherwise prefer the most recent cached entry for the union creation
+      existing = current
+    }
+
+    // otherwise create a new highlighter with the union of languages
+    const union = new Set<string>([...existing.languages, ...requestedSet])
+    const langsArray = Array.from(union)
+    const p = createHighlighterWithLegacyEngineIfNeeded({ themes, langs: langsArray })
+    const newEntry: HighlighterEntry = { promise: p, languages: union }
+    highlighterCache.set(key, newEntry)
+
+    // if creation fails, try to restore previous entry (prev)
+    p.catch(() => {
+      if (highlighterCache.get(key) === newEntry && prev) {
+        highlighterCache.set(key, prev)
+      }
+    })
+
+    return p
+  }
+
+  // no cached entry, create and cache
+  const p = createHighlighterWithLegacyEngineIfNeeded({ themes, langs: Array.from(requestedSet) })
+  const entry: HighlighterEntry = { promise: p, languages: requestedSet }
+  highlighterCache.set(key, entry)
+  p.catch(() => {
+    if (highlighterCache.get(key) === entry) {
+      highlighterCache.delete(key)
+    }
+  })
+  return p
+}
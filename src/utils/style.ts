@@ -0,0 +1,117 @@
+import type { MonacoOptions } from '../type'
+
+type StyleRoot = Document | ShadowRoot
+type StyleOptions = Pick<MonacoOptions, 'cspNonce' | 'injectStyles'>
+
+interface StyleEntry {
+  count: number
+  sheet: CSSStyleSheet | null
+  element: HTMLStyleElement | null
+}
+
+const stylesByRoot = new WeakMap<StyleRoot, Map<string, StyleEntry>>()
+
+/**
+ * The shadow root `target` renders in, or the document. Styles added to the
+ * document head do not reach into shadow trees.
+ */
+function resolveStyleRoot(target?: Node | null): StyleRoot | null {
+  if (typeof document === 'undefined')
+    return null
+  const root = target?.getRootNode?.()
+  if (typeof ShadowRoot !== 'undefined' && root instanceof ShadowRoot)
+    return root
+  return document
+}
+
+function supportsAdoptedStyleSheets(root: StyleRoot) {
+  return 'adoptedStyleSheets' in root
+    && typeof CSSStyleSheet !== 'undefined'
+    && typeof CSSStyleSheet.prototype.replaceSync === 'function'
+}
+
+function attachStyle(root: StyleRoot, id: string, css: string, nonce?: string): StyleEntry {
+  // Shadow roots share one constructed sheet per id instead of a `<style>`
+  // copy each; the document keeps a `<style id>` that is easy to find.
+  // Constructed sheets are not inline styles, so they need no nonce.
+  if (root !== document && supportsAdoptedStyleSheets(root)) {
+    const sheet = new CSSStyleSheet()
+    sheet.replaceSync(css)
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet]
+    return { count: 0, sheet, element: null }
+  }
+  // A style with this id we did not add (e.g. server-rendered) is left alone.
+  if (root.getElementById(id))
+    return { count: 0, sheet: null, element: null }
+  const element = document.createElement('style')
+  element.id = id
+  if (nonce)
+    element.nonce = nonce
+  element.textContent = css
+  if (root === document)
+    document.head.appendChild(element)
+  else root.appendChild(element)
+  return { count: 0, sheet: null, element }
+}
+
+/**
+ * Add `css` under `id` to the root `target` renders in (its shadow root, or
+ * the document) and return a function that releases it. Holders of the
+ * same id and root share one stylesheet, which is removed when the last of
+ * them released it. A `<style>` element carries `options.cspNonce`; with
+ * `options.injectStyles === false` nothing is added. No-op outside the
+ * browser.
+ */
+export function acquireStyle(
+  id: string,
+  css: string,
+  target?: Node | null,
+  options: StyleOptions = {},
+) {
+  const root = options.injectStyles === false ? null : resolveStyleRoot(target)
+  if (!root)
+    return () => {}
+  let styles = stylesByRoot.get(root)
+  if (!styles) {
+    styles = new Map()
+    stylesByRoot.set(root, styles)
+  }
+  let entry = styles.get(id)
+  if (!entry) {
+    entry = attachStyle(root, id, css, options.cspNonce)
+    styles.set(id, entry)
+  }
+  entry.count += 1
+
+  let released = false
+  const held = entry
+  return () => {
+    if (released)
+      return
+    released = true
+    held.count -= 1
+    if (held.count > 0 || styles.get(id) !== held)
+      return
+    styles.delete(id)
+    if (held.sheet)
+      root.adoptedStyleSheets = root.adoptedStyleSheets.filter(sheet => sheet !== held.sheet)
+    held.element?.remove()
+  }
+}
+
+/**
+ * Add `css` under `id` to the root `target` renders in, unless it is there
+ * already. Unlike `acquireStyle` it is never removed; meant for small rules
+ * that any editor may need again.
+ */
+export function ensureStyleElement(
+  id: string,
+  css: string,
+  target?: Node | null,
+  options: StyleOptions = {},
+) {
+  const root = options.injectStyles === false ? null : resolveStyleRoot(target)
+  if (!root || stylesByRoot.get(root)?.has(id))
+    return
+  acquireStyle(id, css, target, options)
+}
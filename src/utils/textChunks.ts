@@ -7,6 +7,34 @@ export function countLineBreaks(text: string) {
   return count
 }
 
+/** UTF-8 byte length of `text`, without allocating an encoded copy. */
+export function utf8ByteLength(text: string) {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    }
+    else if (code < 0x800) {
+      bytes += 2
+    }
+    else if (code >= 0xD800 && code <= 0xDBFF && i + 1 < text.length) {
+      const next = text.charCodeAt(i + 1)
+      if (next >= 0xDC00 && next <= 0xDFFF) {
+        bytes += 4
+        i++
+      }
+      else {
+        bytes += 3
+      }
+    }
+    else {
+      bytes += 3
+    }
+  }
+  return bytes
+}
+
 /**
  * Split text at existing LF boundaries while preserving the exact original
  * bytes/code-units. This intentionally does not normalize CRLF and does not add
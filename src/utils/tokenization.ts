@@ -0,0 +1,23 @@
+import type * as monaco from '../monaco-shim'
+
+/**
+ * Drop the model's incremental tokens so they are rebuilt from the first
+ * line. Streaming appends tokenize line by line, so multi-line constructs
+ * (template strings, block comments) can keep the state of a half-received
+ * line; a fresh pass fixes them once the text is final.
+ *
+ * The pass is left to Monaco: visible lines are tokenized on the next render
+ * and the rest by the background tokenizer in idle slices. Forcing the whole
+ * model here would block the main thread on large files.
+ *
+ * `model.tokenization` is not part of Monaco's public typings, so this is a
+ * no-op on builds that do not expose it.
+ */
+export function retokenizeModel(model: monaco.editor.ITextModel) {
+  const tokenization = (model as any).tokenization
+  try {
+    if (typeof tokenization?.resetTokenization === 'function')
+      tokenization.resetTokenization()
+  }
+  catch {}
+}
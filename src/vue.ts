@@ -0,0 +1,243 @@
+// Vue entry (`stream-monaco/vue`). Components and composables that own the
+// `useMonaco()` lifecycle of one host element: create on mount, stream
+// reactive sources into the editor, clean up on unmount.
+import type { MaybeRefOrGetter, PropType, ShallowRef } from 'vue'
+import type * as monaco from './monaco-shim'
+import type { MonacoOptions, UseMonacoReturn } from './type'
+import {
+  defineComponent,
+  h,
+  onBeforeUnmount,
+  onMounted,
+  shallowRef,
+  toValue,
+  watch,
+} from 'vue'
+import { monacoEventNames } from './constant'
+import { isCreateSupersededError, useMonaco } from './index'
+
+export interface StreamMonacoSource {
+  code: MaybeRefOrGetter<string>
+  language: MaybeRefOrGetter<string>
+  /** Applied with `setTheme` whenever it changes. */
+  theme?: MaybeRefOrGetter<string | undefined>
+  /** Called with the editor text after the user edited it. */
+  onUserChange?: (code: string) => void
+}
+
+export interface StreamMonacoDiffSource {
+  original: MaybeRefOrGetter<string>
+  modified: MaybeRefOrGetter<string>
+  language: MaybeRefOrGetter<string>
+  /** Applied with `setTheme` whenever it changes. */
+  theme?: MaybeRefOrGetter<string | undefined>
+}
+
+export interface UseStreamMonacoReturn<TView> {
+  /** The `useMonaco()` instance behind the editor. */
+  monaco: UseMonacoReturn
+  /** The mounted editor; null before mount and after unmount. */
+  view: ShallowRef<TView | null>
+  /** Last error of creating the editor or applying the theme. */
+  error: ShallowRef<unknown>
+}
+
+function useMountedMonaco<TView>(
+  target: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  options: MonacoOptions,
+  theme: MaybeRefOrGetter<string | undefined> | undefined,
+  create: (instance: UseMonacoReturn, container: HTMLElement) => Promise<TView>,
+): UseStreamMonacoReturn<TView> {
+  const initialTheme = toValue(theme)
+  const instance = useMonaco(initialTheme ? { ...options, theme: initialTheme } : options)
+  const view = shallowRef<TView | null>(null)
+  const error = shallowRef<unknown>(null)
+  let unmounted = false
+
+  onMounted(async () => {
+    const container = toValue(target)
+    if (!container)
+      return
+    try {
+      const created = await create(instance, container)
+      if (!unmounted)
+        view.value = created
+    }
+    catch (err) {
+      // A quick unmount (or a later create) supersedes this one; not an error.
+      if (!isCreateSupersededError(err))
+        error.value = err
+    }
+  })
+
+  onBeforeUnmount(() => {
+    unmounted = true
+    view.value = null
+    instance.cleanupEditor()
+  })
+
+  watch(() => toValue(theme), (next) => {
+    if (next) {
+      instance.setTheme(next).catch((err) => {
+        error.value = err
+      })
+    }
+  })
+
+  return { monaco: instance, view, error }
+}
+
+/**
+ * Mount a streaming editor into `target` once the component is mounted.
+ * Changes of `source.code` go through `updateCode`, so growing text is
+ * appended instead of re-rendering; the instance is cleaned up on unmount.
+ * `options` are read once.
+ */
+export function useStreamMonaco(
+  target: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  source: StreamMonacoSource,
+  options: MonacoOptions = {},
+): UseStreamMonacoReturn<monaco.editor.IStandaloneCodeEditor> {
+  // Last text handed to or received from the editor, so the echo of a user
+  // edit coming back through `source.code` is not applied again.
+  let lastCode = toValue(source.code)
+  const mounted = useMountedMonaco(target, options, source.theme, async (instance, container) => {
+    const editor = await instance.createEditor(
+      container,
+      lastCode,
+      toValue(source.language),
+    )
+    // Throttled flushes can land text older than `source.code`; only
+    // `userEdit` tells those apart from typing.
+    instance.on('userEdit', ({ target }) => {
+      if (target !== 'editor')
+        return
+      lastCode = editor.getValue()
+      source.onUserChange?.(lastCode)
+    })
+    return editor
+  })
+
+  watch(() => toValue(source.code), (code) => {
+    if (code === lastCode)
+      return
+    lastCode = code
+    mounted.monaco.updateCode(code, toValue(source.language))
+  })
+  watch(() => toValue(source.language), (language) => {
+    mounted.monaco.setLanguage(language)
+  })
+  return mounted
+}
+
+/** Diff editor counterpart of `useStreamMonaco`; sides go through `updateDiff`. */
+export function useStreamMonacoDiff(
+  target: MaybeRefOrGetter<HTMLElement | null | undefined>,
+  source: StreamMonacoDiffSource,
+  options: MonacoOptions = {},
+): UseStreamMonacoReturn<monaco.editor.IStandaloneDiffEditor> {
+  const mounted = useMountedMonaco(target, options, source.theme, async (instance, container) => {
+    const original = toValue(source.original)
+    const modified = toValue(source.modified)
+    const diffEditor = await instance.createDiffEditor(
+      container,
+      original,
+      modified,
+      toValue(source.language),
+    )
+    // `updateDiff` is dropped while the diff editor is still being created.
+    const latestOriginal = toValue(source.original)
+    const latestModified = toValue(source.modified)
+    if (latestOriginal !== original || latestModified !== modified)
+      instance.updateDiff(latestOriginal, latestModified, toValue(source.language))
+    return diffEditor
+  })
+
+  watch(
+    () => [toValue(source.original), toValue(source.modified)] as const,
+    ([original, modified]) => {
+      mounted.monaco.updateDiff(original, modified, toValue(source.language))
+    },
+  )
+  watch(() => toValue(source.language), (language) => {
+    mounted.monaco.setLanguage(language)
+  })
+  return mounted
+}
+
+function forwardMonacoEvents(
+  instance: UseMonacoReturn,
+  emit: (event: string, ...args: unknown[]) => void,
+) {
+  const offs = monacoEventNames.map(name =>
+    instance.on(name, payload => emit(name, payload)))
+  onBeforeUnmount(() => {
+    // Registered after the cleanup hook, so `disposed` still gets through.
+    offs.forEach(off => off())
+  })
+}
+
+const sharedProps = {
+  language: { type: String, required: true },
+  theme: String,
+  /** `useMonaco()` options; read once when the component is created. */
+  options: { type: Object as PropType<MonacoOptions>, default: () => ({}) },
+} as const
+
+const sharedEmits = ['ready', 'error', ...monacoEventNames]
+
+/**
+ * `<StreamMonaco v-model="code" language="ts" />`. Emits `ready` with the
+ * editor, `error`, and every `useMonaco().on` event (`flush`,
+ * `heightChanged`, ...).
+ */
+export const StreamMonaco = defineComponent({
+  name: 'StreamMonaco',
+  props: {
+    ...sharedProps,
+    modelValue: { type: String, default: '' },
+  },
+  emits: ['update:modelValue', ...sharedEmits],
+  setup(props, { emit, expose }) {
+    const container = shallowRef<HTMLElement | null>(null)
+    const { monaco, view, error } = useStreamMonaco(container, {
+      code: () => props.modelValue,
+      language: () => props.language,
+      theme: () => props.theme,
+      onUserChange: code => emit('update:modelValue', code),
+    }, props.options)
+    forwardMonacoEvents(monaco, emit)
+    watch(view, editor => editor && emit('ready', editor))
+    watch(error, err => err && emit('error', err))
+    expose({ monaco, view })
+    return () => h('div', { ref: container })
+  },
+})
+
+/**
+ * `<StreamMonacoDiff :original :modified language="ts" />`, with the same
+ * events as `StreamMonaco`.
+ */
+export const StreamMonacoDiff = defineComponent({
+  name: 'StreamMonacoDiff',
+  props: {
+    ...sharedProps,
+    original: { type: String, default: '' },
+    modified: { type: String, default: '' },
+  },
+  emits: sharedEmits,
+  setup(props, { emit, expose }) {
+    const container = shallowRef<HTMLElement | null>(null)
+    const { monaco, view, error } = useStreamMonacoDiff(container, {
+      original: () => props.original,
+      modified: () => props.modified,
+      language: () => props.language,
+      theme: () => props.theme,
+    }, props.options)
+    forwardMonacoEvents(monaco, emit)
+    watch(view, diffEditor => diffEditor && emit('ready', diffEditor))
+    watch(error, err => err && emit('error', err))
+    expose({ monaco, view })
+    return () => h('div', { ref: container })
+  },
+})
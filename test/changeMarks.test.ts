@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest'
+import { expandToWords } from '../src/core/changeMarks'
+
+vi.mock('../src/monaco-shim', () => ({}))
+
+function segmentOf(prev: string, next: string) {
+  let start = 0
+  while (start < prev.length && start < next.length && prev[start] === next[start])
+    start += 1
+  let prevEnd = prev.length
+  let nextEnd = next.length
+  while (prevEnd > start && nextEnd > start && prev[prevEnd - 1] === next[nextEnd - 1]) {
+    prevEnd -= 1
+    nextEnd -= 1
+  }
+  return { prevStart: start, prevEnd, nextStart: start, nextEnd }
+}
+
+describe('expandToWords', () => {
+  it('widens a character change to the surrounding word on both sides', () => {
+    const prev = 'const total = count + 1'
+    const next = 'const total = counter + 1'
+    const segment = expandToWords(prev, next, segmentOf(prev, next))
+    expect(prev.slice(segment.prevStart, segment.prevEnd)).toBe('count')
+    expect(next.slice(segment.nextStart, segment.nextEnd)).toBe('counter')
+  })
+
+  it('leaves changes between words untouched', () => {
+    const prev = 'a + b'
+    const next = 'a - b'
+    const segment = expandToWords(prev, next, segmentOf(prev, next))
+    expect(next.slice(segment.nextStart, segment.nextEnd)).toBe('-')
+  })
+
+  it('treats unicode letters as word characters', () => {
+    const prev = 'let größe = 1'
+    const next = 'let grüße = 1'
+    const segment = expandToWords(prev, next, segmentOf(prev, next))
+    expect(next.slice(segment.nextStart, segment.nextEnd)).toBe('grüße')
+  })
+})
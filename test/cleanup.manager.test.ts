@@ -220,6 +220,7 @@ describe('EditorManager cleanup semantics', () => {
     manager['rafScheduler'] = {
       schedule: vi.fn((_: string, cb: FrameRequestCallback) => cb(0)),
       cancel: vi.fn(),
+      isIdle: vi.fn(() => true),
     }
     manager['editorView'] = {
       getContentHeight: () => 100,
@@ -291,6 +292,7 @@ describe('EditorManager cleanup semantics', () => {
     manager['rafScheduler'] = {
       schedule: vi.fn((_: string, cb: FrameRequestCallback) => cb(0)),
       cancel: vi.fn(),
+      isIdle: vi.fn(() => true),
     }
     manager['editorView'] = oldEditor as any
     manager['editorHeightManager'] = {
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+describe('diff editor flush, endStream and rollback', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('applies a pending update and buffered appends synchronously', async () => {
+    const manager = await createDiffManager('const a = 1\n', 'const a = 1\n')
+    const { original, modified } = manager.getDiffModels()
+
+    manager.appendOriginal('const b = 2\n')
+    manager.updateDiff('const a = 1\nconst b = 2\n', 'let a = 1\n')
+    expect(manager.isIdle()).toBe(false)
+    await manager.flush()
+
+    expect(original.getValue()).toBe('const a = 1\nconst b = 2\n')
+    expect(modified.getValue()).toBe('let a = 1\n')
+    await waitForAsyncWork(80)
+    manager.cleanup()
+  })
+
+  it('waits for a chunked append that is already in progress', async () => {
+    const manager = await createDiffManager('', '')
+    const { modified } = manager.getDiffModels()
+    const text = Array.from({ length: 3000 }, (_, i) => `const v${i} = ${i}`).join('\n')
+
+    manager.appendModified(text)
+    // Let the append frame start the chunked flush.
+    await waitForAsyncWork(0)
+    expect(modified.getValue()).not.toBe(text)
+    expect(manager.isIdle()).toBe(false)
+
+    await manager.flush()
+    expect(modified.getValue()).toBe(text)
+
+    await waitForAsyncWork(400)
+    expect(manager.isIdle()).toBe(true)
+    manager.cleanup()
+  })
+
+  it('endStream folds deferred unchanged regions and restores readOnly', async () => {
+    const manager = await createDiffManager('a\nb\nc\n', 'a\nb\nc\n', {
+      hideUnchangedRegions: true,
+    })
+    manager.schedulePatchDiffUnchangedRegionsAfterInteraction = vi.fn()
+    const view = manager.getDiffEditorView()
+    const updateOptions = vi.spyOn(view, 'updateOptions')
+    const { original, modified } = manager.getDiffModels()
+    for (const model of [original, modified]) {
+      model.tokenization = {
+        resetTokenization: vi.fn(),
+        forceTokenization: vi.fn(),
+      }
+    }
+
+    manager.beginStream()
+    expect(updateOptions).toHaveBeenCalledWith({ readOnly: true })
+    expect(updateOptions).toHaveBeenCalledWith({
+      hideUnchangedRegions: expect.objectContaining({ enabled: false }),
+    })
+    manager.appendModified('d\n')
+
+    updateOptions.mockClear()
+    await manager.endStream({ editable: true })
+    expect(modified.getValue()).toBe('a\nb\nc\nd\n')
+    expect(updateOptions).toHaveBeenCalledWith({
+      hideUnchangedRegions: expect.objectContaining({ enabled: true }),
+    })
+    expect(updateOptions).toHaveBeenLastCalledWith({ readOnly: false })
+    for (const model of [original, modified]) {
+      expect(model.tokenization.resetTokenization).toHaveBeenCalledTimes(1)
+      expect(model.tokenization.forceTokenization).not.toHaveBeenCalled()
+    }
+    await waitForAsyncWork(80)
+    manager.cleanup()
+  })
+
+  it('rollbackTo stops a chunked append and restores both sides', async () => {
+    const manager = await createDiffManager('a\n', 'a\n')
+    const { original, modified } = manager.getDiffModels()
+    manager.appendOriginal('b\n')
+    const checkpoint = await manager.createCheckpoint()
+    expect(checkpoint).toMatchObject({ kind: 'diff', original: 'a\nb\n', modified: 'a\n' })
+
+    const text = Array.from({ length: 3000 }, (_, i) => `const v${i} = ${i}`).join('\n')
+    manager.appendModified(text)
+    await waitForAsyncWork(0)
+    expect(manager.hasPendingAppend()).toBe(true)
+    manager.updateOriginal('x\n')
+    const setValue = vi.spyOn(modified, 'setValue')
+
+    manager.rollbackTo(checkpoint!)
+    expect(original.getValue()).toBe('a\nb\n')
+    expect(modified.getValue()).toBe('a\n')
+    expect(setValue).not.toHaveBeenCalled()
+
+    await waitForAsyncWork(400)
+    expect(modified.getValue()).toBe('a\n')
+    expect(manager.isIdle()).toBe(true)
+    manager.updateModified('a\nc\n')
+    await manager.flush()
+    expect(modified.getValue()).toBe('a\nc\n')
+    manager.cleanup()
+  })
+})
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+const original = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', ''].join('\n')
+const modified = ['A', 'b', 'c', 'd', 'E', 'f', 'g', 'h', 'i', ''].join('\n')
+
+describe('diff hunk navigation', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('moves the modified cursor between hunks and wraps around', async () => {
+    const manager = await createDiffManager(original, modified)
+    await waitForAsyncWork()
+    const modifiedEditor = manager.getDiffEditorView().getModifiedEditor()
+    const lines: number[] = []
+    const step = (move: () => void) => {
+      move()
+      lines.push(modifiedEditor.getPosition().lineNumber)
+    }
+
+    // The cursor starts on line 1, which is the first hunk.
+    step(() => manager.goToNextHunk())
+    step(() => manager.goToNextHunk())
+    step(() => manager.goToNextHunk())
+    step(() => manager.goToNextHunk())
+    step(() => manager.goToPreviousHunk())
+    expect(lines).toEqual([1, 5, 9, 1, 9])
+    expect(modifiedEditor.revealCalls).toContain(9)
+
+    // A cursor moved by the user is the new starting point.
+    modifiedEditor.setPosition({ lineNumber: 3, column: 1 })
+    step(() => manager.goToNextHunk())
+    modifiedEditor.setPosition({ lineNumber: 3, column: 1 })
+    step(() => manager.goToPreviousHunk())
+    expect(lines.slice(-2)).toEqual([5, 1])
+    manager.cleanup()
+  })
+
+  it('does nothing without changes', async () => {
+    const manager = await createDiffManager(original, original)
+    await waitForAsyncWork()
+    const modifiedEditor = manager.getDiffEditorView().getModifiedEditor()
+    manager.goToNextHunk()
+    manager.goToPreviousHunk()
+    expect(modifiedEditor.getPosition()).toEqual({ lineNumber: 1, column: 1 })
+    expect(modifiedEditor.revealCalls).toEqual([])
+    manager.cleanup()
+  })
+})
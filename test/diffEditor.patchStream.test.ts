@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { applyUnifiedPatch, createUnifiedPatchBodyStream } from '../src/core/unifiedPatch'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+const patch = [
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,4 @@',
+  ' const a = 1',
+  '-const b = 2',
+  '+const b = 3',
+  '+const c = 4',
+  ' export { a }',
+  '',
+].join('\n')
+
+function chunk(text: string, size: number) {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size)
+    chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+describe('streaming unified patches', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('streams hunk bodies into both sides regardless of chunk boundaries', () => {
+    for (const size of [1, 3, 7, patch.length]) {
+      const body = createUnifiedPatchBodyStream()
+      let original = ''
+      let modified = ''
+      for (const part of chunk(patch, size)) {
+        const deltas = body.push(part)
+        original += deltas.original
+        modified += deltas.modified
+      }
+      expect(original).toBe('const a = 1\nconst b = 2\nexport { a }')
+      expect(modified).toBe('const a = 1\nconst b = 3\nconst c = 4\nexport { a }')
+    }
+  })
+
+  it('shows added text as soon as its marker arrives', () => {
+    const body = createUnifiedPatchBodyStream()
+    expect(body.push('@@ -1,1 +1,2 @')).toEqual({ original: '', modified: '' })
+    expect(body.push('@\n const a = 1\n+con')).toEqual({
+      original: 'const a = 1',
+      modified: 'const a = 1\ncon',
+    })
+    expect(body.push('st b')).toEqual({ original: '', modified: 'st b' })
+    expect(body.push(' = 2\n')).toEqual({ original: '', modified: ' = 2' })
+  })
+
+  it('applies a streamed patch to the original of the diff editor', async () => {
+    const manager = await createDiffManager(
+      'const a = 1\nconst b = 2\nexport { a }\n',
+      'const a = 1\nconst b = 2\nexport { a }\n',
+    )
+    const { original, modified } = manager.getDiffModels()
+
+    const parts = chunk(patch, 4)
+    let sawPartialInsert = false
+    for (const part of parts) {
+      manager.appendPatchChunk(part, 'typescript')
+      await waitForAsyncWork()
+      if (/const c = $|const c$/m.test(modified.getValue()))
+        sawPartialInsert = true
+    }
+    await waitForAsyncWork(80)
+
+    expect(sawPartialInsert).toBe(true)
+    expect(original.getValue()).toBe('const a = 1\nconst b = 2\nexport { a }\n')
+    expect(modified.getValue()).toBe('const a = 1\nconst b = 3\nconst c = 4\nexport { a }\n')
+    manager.cleanup()
+  })
+
+  it('builds both sides from the hunks when the diff starts empty', async () => {
+    const manager = await createDiffManager('', '')
+    const appendOriginal = vi.spyOn(manager, 'appendOriginal')
+    const appendModified = vi.spyOn(manager, 'appendModified')
+
+    for (const part of chunk(patch, 5))
+      manager.appendPatchChunk(part)
+    await waitForAsyncWork(80)
+
+    const { original, modified } = manager.getDiffModels()
+    expect(appendOriginal).toHaveBeenCalled()
+    expect(appendModified).toHaveBeenCalled()
+    expect(original.getValue()).toBe('const a = 1\nconst b = 2\nexport { a }')
+    expect(modified.getValue()).toBe('const a = 1\nconst b = 3\nconst c = 4\nexport { a }')
+    manager.cleanup()
+  })
+
+  it('keeps added lines in place while their hunk is still arriving', async () => {
+    const manager = await createDiffManager('a\nb\nc\n', 'a\nb\nc\n')
+    const { modified } = manager.getDiffModels()
+    const seen: string[] = []
+    for (const part of chunk('@@ -2,1 +2,2 @@\n+x\n b\n', 1)) {
+      manager.appendPatchChunk(part)
+      await waitForAsyncWork()
+      if (seen[seen.length - 1] !== modified.getValue())
+        seen.push(modified.getValue())
+    }
+    // The added line shows up before line 2, never after it.
+    expect(seen).toEqual(['a\nb\nc\n', 'a\nx\nb\nc\n'])
+    manager.cleanup()
+  })
+
+  it('applies a last line without newline when the stream ends', async () => {
+    const manager = await createDiffManager('a\nb\n', 'a\nb\n')
+    manager.appendPatchChunk('@@ -1,2 +1,1 @@\n a\n-b')
+    await waitForAsyncWork()
+    const { modified } = manager.getDiffModels()
+    expect(modified.getValue()).toBe('a\nb\n')
+
+    await manager.endStream()
+    expect(modified.getValue()).toBe('a\n')
+    manager.cleanup()
+  })
+
+  it('throws when a streamed hunk does not match the original', async () => {
+    const manager = await createDiffManager('a\nb\n', 'a\nb\n')
+    manager.appendPatchChunk('@@ -1,2 +1,2 @@\n a\n')
+    expect(() => manager.appendPatchChunk('-z\n')).toThrow('does not match the original text')
+
+    const ending = await createDiffManager('a\nb\n', 'a\nb\n')
+    ending.appendPatchChunk('@@ -1,2 +1,1 @@\n a\n-z')
+    expect(() => ending.endPatchStream()).toThrow('does not match the original text')
+    manager.cleanup()
+    ending.cleanup()
+  })
+
+  it('exports insertions at line 1 and end-of-file changes with getUnifiedPatch', async () => {
+    const cases = [
+      ['a\nb\n', 'x\na\nb\n', '@@ -0,0 +1,1 @@\n+x\n'],
+      ['a\nb\n', 'a\nb\n\n\n', '@@ -2,0 +3,2 @@\n+\n+\n'],
+      ['a\nb\n', 'a\nb', '@@ -2,1 +2,1 @@\n-b\n+b\n\\ No newline at end of file\n'],
+    ]
+    for (const [from, to, hunk] of cases) {
+      const manager = await createDiffManager(from, to)
+      await waitForAsyncWork()
+      const text = manager.getUnifiedPatch({ contextLines: 0 })
+      expect(text).toBe(`--- original\n+++ modified\n${hunk}`)
+      expect(applyUnifiedPatch(from, text)).toBe(to)
+      manager.cleanup()
+    }
+  })
+})
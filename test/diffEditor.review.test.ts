@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+const original = 'const a = 1\nconst b = 2\nconst c = 3\nexport { a }\n'
+const modified = 'const a = 1\nconst b = 20\nconst c = 3\nexport { a, b }\n'
+
+describe('diff review mode', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('records decisions per hunk and merges accepted hunks', async () => {
+    const onReviewChange = vi.fn()
+    const manager = await createDiffManager(original, modified, {
+      diffReviewMode: true,
+      onReviewChange,
+    })
+    await waitForAsyncWork()
+
+    const initial = manager.getReviewResult()
+    expect(initial.hunks.map((hunk: any) => hunk.decision)).toEqual(['pending', 'pending'])
+    expect(initial.text).toBe(original)
+    expect(initial.complete).toBe(false)
+
+    manager.setHunkReviewDecision(1, 'accepted')
+    expect(onReviewChange).toHaveBeenCalledTimes(1)
+    expect(onReviewChange.mock.calls[0][0].text)
+      .toBe('const a = 1\nconst b = 2\nconst c = 3\nexport { a, b }\n')
+
+    // Re-recording the same decision is not a change.
+    manager.setHunkReviewDecision(1, 'accepted')
+    expect(onReviewChange).toHaveBeenCalledTimes(1)
+
+    manager.rejectAll()
+    expect(manager.getReviewResult()).toMatchObject({ text: original, complete: true })
+    manager.acceptAll()
+    expect(manager.getReviewResult().text).toBe(modified)
+
+    // Decisions never touch the models.
+    const models = manager.getDiffModels()
+    expect(models.original.getValue()).toBe(original)
+    expect(models.modified.getValue()).toBe(modified)
+    manager.cleanup()
+  })
+
+  it('keeps the first line when a Monaco top-of-file insertion is decided', async () => {
+    const manager = await createDiffManager('x\ny\n', 'import z\nx\ny\n', { diffReviewMode: true })
+    await waitForAsyncWork()
+    // Monaco's own result for an insertion before line 1.
+    manager.getEffectiveLineChanges = () => [{
+      originalStartLineNumber: 0,
+      originalEndLineNumber: 0,
+      modifiedStartLineNumber: 1,
+      modifiedEndLineNumber: 1,
+      charChanges: [],
+    }]
+
+    manager.acceptAll()
+    expect(manager.getReviewResult().text).toBe('import z\nx\ny\n')
+    manager.rejectAll()
+    expect(manager.getReviewResult().text).toBe('x\ny\n')
+    manager.cleanup()
+  })
+
+  it('routes accept/reject hover actions through onDiffHunkAction', async () => {
+    const onDiffHunkAction = vi.fn((context: any) => context.action !== 'reject')
+    const manager = await createDiffManager(original, modified, {
+      diffReviewMode: true,
+      onDiffHunkAction,
+    })
+    await waitForAsyncWork()
+
+    const lineChanges = manager.getEffectiveLineChanges()
+    manager.diffHunkLineChanges = lineChanges
+    manager.diffHunkActiveChange = lineChanges[0]
+    await manager.applyDiffHunkAction('lower', 'accept')
+    manager.diffHunkActiveChange = lineChanges[1]
+    await manager.applyDiffHunkAction('lower', 'reject')
+
+    expect(onDiffHunkAction.mock.calls.map(([context]) => [context.action, context.hunkIndex]))
+      .toEqual([['accept', 0], ['reject', 1]])
+    expect(manager.getReviewResult().hunks.map((hunk: any) => hunk.decision))
+      .toEqual(['accepted', 'pending'])
+    manager.cleanup()
+  })
+})
@@ -30,12 +30,16 @@ vi.mock('../src/monaco-shim', () => {
 
 import {
   applyDefaultDiffHunkAction,
+  findDiffHunkIndexAtLine,
   findLineChangeByHoverLine,
+  formatDiffHunkCounterLabel,
   hasModifiedLines,
   hasOriginalLines,
   inferInlineDiffHunkHoverSide,
+  mergeReviewedDiffHunks,
   positionDiffHunkNode,
 } from '../src/core/diffHunk'
+import { resolveDiffHunkLineRanges } from '../src/core/diffLineChanges'
 
 function createModel(lines: string[]) {
   const value = () => lines.join('\n')
@@ -131,6 +135,7 @@ describe('diffHunk helpers', () => {
       action: 'stage',
       side: 'lower',
       lineChange,
+      hunkIndex: 0,
       originalModel: originalModel as any,
       modifiedModel: modifiedModel as any,
     })
@@ -139,6 +144,52 @@ describe('diffHunk helpers', () => {
     expect(originalModel.applyEdits.mock.calls[0][0][0].text).toBe('c\n')
   })
 
+  it('locates the hunk under a modified line and labels the counter', () => {
+    const lineChanges = [
+      { originalStartLineNumber: 2, originalEndLineNumber: 3, modifiedStartLineNumber: 2, modifiedEndLineNumber: 4 },
+      // Pure deletion after modified line 8.
+      { originalStartLineNumber: 9, originalEndLineNumber: 9, modifiedStartLineNumber: 8, modifiedEndLineNumber: 0 },
+    ] as any
+
+    expect(findDiffHunkIndexAtLine(lineChanges, 1)).toBe(-1)
+    expect(findDiffHunkIndexAtLine(lineChanges, 4)).toBe(0)
+    expect(findDiffHunkIndexAtLine(lineChanges, 8)).toBe(1)
+    expect(formatDiffHunkCounterLabel(2, 12)).toBe('3 / 12 changes')
+    expect(formatDiffHunkCounterLabel(-1, 1)).toBe('1 change')
+  })
+
+  it('merges only the accepted hunks into the original', () => {
+    const original = 'a\nb\nc\nd\n'
+    const modified = 'a\nB\nc\nx\nd\n'
+    // Monaco convention: the inserted `x` sits after original line 3.
+    const ranges = resolveDiffHunkLineRanges([
+      { originalStartLineNumber: 2, originalEndLineNumber: 2, modifiedStartLineNumber: 2, modifiedEndLineNumber: 2 },
+      { originalStartLineNumber: 3, originalEndLineNumber: 0, modifiedStartLineNumber: 4, modifiedEndLineNumber: 4 },
+    ] as any)
+
+    expect(ranges[1]).toEqual({ originalIndex: 3, originalCount: 0, modifiedIndex: 3, modifiedCount: 1 })
+    expect(mergeReviewedDiffHunks(original, modified, ranges, () => false)).toBe(original)
+    expect(mergeReviewedDiffHunks(original, modified, ranges, () => true)).toBe(modified)
+    expect(mergeReviewedDiffHunks(original, modified, ranges, index => index === 1)).toBe('a\nb\nc\nx\nd\n')
+  })
+
+  it('treats Monaco\'s `0,0` side at the top of the file as empty', () => {
+    const original = 'x\ny\n'
+    const modified = 'import z\nx\ny\n'
+    const insertion = resolveDiffHunkLineRanges([
+      { originalStartLineNumber: 0, originalEndLineNumber: 0, modifiedStartLineNumber: 1, modifiedEndLineNumber: 1 },
+    ] as any)
+    expect(insertion).toEqual([{ originalIndex: 0, originalCount: 0, modifiedIndex: 0, modifiedCount: 1 }])
+    expect(mergeReviewedDiffHunks(original, modified, insertion, () => true)).toBe(modified)
+    expect(mergeReviewedDiffHunks(original, modified, insertion, () => false)).toBe(original)
+
+    const deletion = resolveDiffHunkLineRanges([
+      { originalStartLineNumber: 1, originalEndLineNumber: 1, modifiedStartLineNumber: 0, modifiedEndLineNumber: 0 },
+    ] as any)
+    expect(deletion).toEqual([{ originalIndex: 0, originalCount: 1, modifiedIndex: 0, modifiedCount: 0 }])
+    expect(mergeReviewedDiffHunks(modified, original, deletion, () => true)).toBe(original)
+  })
+
   it('positions a hunk node within the editor host', () => {
     const node = {
       offsetWidth: 120,
@@ -0,0 +1,326 @@
+import { vi } from 'vitest'
+
+// Shared monaco-shim mock for tests that drive a real DiffEditorManager
+// against in-memory models. Native line changes are never reported, so the
+// manager falls back to its own line diff.
+
+export function installRafMocks() {
+  vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+    return setTimeout(() => cb(Date.now()), 0) as unknown as number
+  })
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+    clearTimeout(id as unknown as ReturnType<typeof setTimeout>)
+  })
+}
+
+export async function loadDiffEditorManager() {
+  vi.resetModules()
+
+  vi.doMock('../src/monaco-shim', () => {
+    class Range {
+      constructor(
+        public startLineNumber: number,
+        public startColumn: number,
+        public endLineNumber: number,
+        public endColumn: number,
+      ) {}
+    }
+
+    function createModel(initialValue: string, initialLanguage: string) {
+      let value = initialValue
+      let languageId = initialLanguage
+      let alternativeVersionId = 1
+      const contentSizeListeners = new Set<() => void>()
+      const contentChangeListeners = new Set<() => void>()
+
+      function lines() {
+        return value.split('\n')
+      }
+
+      function getOffsetAt(lineNumber: number, column: number) {
+        const parts = lines()
+        let offset = 0
+        for (let i = 0; i < lineNumber - 1; i++)
+          offset += (parts[i] ?? '').length + 1
+        return offset + column - 1
+      }
+
+      function emitChange() {
+        alternativeVersionId += 1
+        contentChangeListeners.forEach(listener => listener())
+        contentSizeListeners.forEach(listener => listener())
+      }
+
+      return {
+        getValue() {
+          return value
+        },
+        setValue(next: string) {
+          value = next
+          emitChange()
+        },
+        getLineCount() {
+          return lines().length
+        },
+        getLineContent(lineNumber: number) {
+          return lines()[lineNumber - 1] ?? ''
+        },
+        getLineMaxColumn(lineNumber: number) {
+          return (lines()[lineNumber - 1] ?? '').length + 1
+        },
+        getPositionAt(offset: number) {
+          const consumed = value.slice(0, offset).split('\n')
+          return {
+            lineNumber: consumed.length,
+            column: consumed[consumed.length - 1].length + 1,
+          }
+        },
+        getLanguageId() {
+          return languageId
+        },
+        getAlternativeVersionId() {
+          return alternativeVersionId
+        },
+        setLanguageId(next: string) {
+          languageId = next
+        },
+        applyEdits(edits: Array<{ range: Range, text: string }>) {
+          for (const edit of edits) {
+            const start = getOffsetAt(
+              edit.range.startLineNumber,
+              edit.range.startColumn,
+            )
+            const end = getOffsetAt(
+              edit.range.endLineNumber,
+              edit.range.endColumn,
+            )
+            value = value.slice(0, start) + edit.text + value.slice(end)
+          }
+          emitChange()
+        },
+        pushEditOperations(
+          _selections: unknown,
+          edits: Array<{ range: Range, text: string }>,
+        ) {
+          this.applyEdits(edits)
+          return null
+        },
+        onDidContentSizeChange(listener: () => void) {
+          contentSizeListeners.add(listener)
+          return {
+            dispose() {
+              contentSizeListeners.delete(listener)
+            },
+          }
+        },
+        onDidChangeContent(listener: () => void) {
+          contentChangeListeners.add(listener)
+          return {
+            dispose() {
+              contentChangeListeners.delete(listener)
+            },
+          }
+        },
+        dispose() {},
+      }
+    }
+
+    function createCodeEditor(initialModel: any) {
+      let model = initialModel
+      let position = { lineNumber: 1, column: 1 }
+      const api: any = {
+        revealCalls: [] as number[],
+        getModel() {
+          return model
+        },
+        setModel(next: any) {
+          model = next
+        },
+        getOption(option: string) {
+          if (option === editor.EditorOption.lineHeight)
+            return 20
+          if (option === editor.EditorOption.readOnly)
+            return true
+          return undefined
+        },
+        getLayoutInfo() {
+          return { height: 200 }
+        },
+        getScrollTop() {
+          return 0
+        },
+        getScrollHeight() {
+          return model.getLineCount() * 20
+        },
+        setScrollTop() {},
+        getPosition() {
+          return position
+        },
+        setPosition(next: { lineNumber: number, column: number }) {
+          position = next
+        },
+        onDidContentSizeChange(listener: () => void) {
+          return model.onDidContentSizeChange(listener)
+        },
+        onDidChangeModelContent(listener: () => void) {
+          return model.onDidChangeContent(listener)
+        },
+        onDidScrollChange() {
+          return { dispose() {} }
+        },
+        revealLine(line: number) {
+          api.revealCalls.push(line)
+        },
+        revealLineInCenter(line: number) {
+          api.revealCalls.push(line)
+        },
+        revealLineInCenterIfOutsideViewport(line: number) {
+          api.revealCalls.push(line)
+        },
+        getDomNode() {
+          return {
+            addEventListener() {},
+            removeEventListener() {},
+          } as any
+        },
+        deltaDecorations() {
+          return []
+        },
+        updateOptions() {},
+        layout() {},
+        focus() {},
+        dispose() {},
+      }
+      return api
+    }
+
+    const editor = {
+      EditorOption: {
+        lineHeight: 'lineHeight',
+        readOnly: 'readOnly',
+      },
+      ScrollType: {
+        Immediate: 0,
+        Smooth: 1,
+      },
+      createModel: vi.fn((value: string, language: string) =>
+        createModel(value, language)),
+      createDiffEditor: vi.fn(() => {
+        const originalEditor = createCodeEditor(createModel('', 'plaintext'))
+        const modifiedEditor = createCodeEditor(createModel('', 'plaintext'))
+        const updateDiffListeners = new Set<() => void>()
+
+        return {
+          setModel(pair: { original: any, modified: any }) {
+            originalEditor.setModel(pair.original)
+            modifiedEditor.setModel(pair.modified)
+            updateDiffListeners.forEach(listener => listener())
+          },
+          getOriginalEditor() {
+            return originalEditor
+          },
+          getModifiedEditor() {
+            return modifiedEditor
+          },
+          onDidUpdateDiff(listener: () => void) {
+            updateDiffListeners.add(listener)
+            return {
+              dispose() {
+                updateDiffListeners.delete(listener)
+              },
+            }
+          },
+          getLineChanges() {
+            return null
+          },
+          updateOptions() {},
+          getContainerDomNode() {
+            return null as any
+          },
+          dispose() {},
+        }
+      }),
+      setTheme: vi.fn(),
+      setModelLanguage: vi.fn((model: any, language: string) => {
+        model.setLanguageId(language)
+      }),
+    }
+
+    return {
+      default: { editor, Range, ScrollType: editor.ScrollType },
+      editor,
+      Range,
+      ScrollType: editor.ScrollType,
+    }
+  })
+
+  return await import('../src/core/DiffEditorManager')
+}
+
+export function createFakeContainer() {
+  return {
+    style: {} as Record<string, string>,
+    classList: {
+      add() {},
+      remove() {},
+      toggle() {},
+      contains() { return false },
+    },
+    innerHTML: '',
+    querySelector() {
+      return null
+    },
+    querySelectorAll() {
+      return []
+    },
+    getBoundingClientRect() {
+      return { width: 1200, height: 200 }
+    },
+    clientWidth: 1200,
+  } as any
+}
+
+export async function createDiffManager(
+  originalCode: string,
+  modifiedCode: string,
+  options: Record<string, unknown> = {},
+) {
+  const { DiffEditorManager } = await loadDiffEditorManager()
+  const manager = new DiffEditorManager(
+    {
+      readOnly: true,
+      hideUnchangedRegions: false,
+      diffHunkActionsOnHover: false,
+      renderSideBySide: true,
+      useInlineViewWhenSpaceIsLimited: false,
+      ...options,
+    } as any,
+    400,
+    '400px',
+    true,
+    true,
+    0,
+    0,
+    true,
+  )
+
+  ;(manager as any).disposeDiffPresentationTracking = () => {}
+  ;(manager as any).setupDiffUnchangedRegionEnhancements = () => {}
+  ;(manager as any).setupDiffHunkInteractions = () => {}
+  ;(manager as any).applyDiffRootAppearanceClass = () => {}
+  ;(manager as any).scheduleSyncDiffPresentationDecorations = () => {}
+
+  await manager.createDiffEditor(
+    createFakeContainer(),
+    originalCode,
+    modifiedCode,
+    'typescript',
+    'vs-dark',
+  )
+
+  return manager as any
+}
+
+export function waitForAsyncWork(ms = 10) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,263 @@
+import { vi } from 'vitest'
+
+export function installRafMocks() {
+  vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+    return setTimeout(() => cb(Date.now()), 0) as unknown as number
+  })
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+    clearTimeout(id as unknown as ReturnType<typeof setTimeout>)
+  })
+}
+
+/**
+ * `useMonaco()` from `src/index.base` on top of a fake monaco-shim whose
+ * editor and model keep real text, apply edits and fire content listeners.
+ */
+export async function loadUseMonaco() {
+  vi.resetModules()
+
+  vi.doMock('../src/utils/registerMonacoThemes', () => {
+    return {
+      clearHighlighterCache: () => {},
+      getOrCreateHighlighter: async () => null,
+      registerMonacoThemes: async () => null,
+    }
+  })
+
+  vi.doMock('../src/monaco-shim', () => {
+    let lastCreatedModel: any = null
+    let lastCreatedEditor: any = null
+
+    class Range {
+      constructor(
+        public startLineNumber: number,
+        public startColumn: number,
+        public endLineNumber: number,
+        public endColumn: number,
+      ) {}
+    }
+
+    function createModel(initialValue: string, initialLanguage: string) {
+      let value = initialValue
+      let languageId = initialLanguage
+      let getValueCallCount = 0
+      const contentSizeListeners = new Set<() => void>()
+      const contentChangeListeners = new Set<() => void>()
+
+      function lines() {
+        return value.split('\n')
+      }
+
+      function getOffsetAt(lineNumber: number, column: number) {
+        const parts = lines()
+        let offset = 0
+        for (let i = 0; i < lineNumber - 1; i++)
+          offset += (parts[i] ?? '').length + 1
+        return offset + column - 1
+      }
+
+      function emitChange() {
+        contentChangeListeners.forEach(listener => listener())
+        contentSizeListeners.forEach(listener => listener())
+      }
+
+      return {
+        getValue() {
+          getValueCallCount += 1
+          return value
+        },
+        setValue(next: string) {
+          value = next
+          emitChange()
+        },
+        getLineCount() {
+          return lines().length
+        },
+        getLineMaxColumn(lineNumber: number) {
+          return (lines()[lineNumber - 1] ?? '').length + 1
+        },
+        getPositionAt(offset: number) {
+          const consumed = value.slice(0, offset).split('\n')
+          return {
+            lineNumber: consumed.length,
+            column: consumed[consumed.length - 1].length + 1,
+          }
+        },
+        getLanguageId() {
+          return languageId
+        },
+        setLanguageId(next: string) {
+          languageId = next
+        },
+        applyEdits(edits: Array<{ range: Range, text: string }>) {
+          // Like Monaco, every range refers to the text before the call.
+          const resolved = edits.map(edit => ({
+            start: getOffsetAt(
+              edit.range.startLineNumber,
+              edit.range.startColumn,
+            ),
+            end: getOffsetAt(
+              edit.range.endLineNumber,
+              edit.range.endColumn,
+            ),
+            text: edit.text,
+          }))
+          resolved.sort((a, b) => b.start - a.start)
+          for (const { start, end, text } of resolved)
+            value = value.slice(0, start) + text + value.slice(end)
+          emitChange()
+        },
+        onDidContentSizeChange(listener: () => void) {
+          contentSizeListeners.add(listener)
+          return {
+            dispose() {
+              contentSizeListeners.delete(listener)
+            },
+          }
+        },
+        onDidChangeContent(listener: () => void) {
+          contentChangeListeners.add(listener)
+          return {
+            dispose() {
+              contentChangeListeners.delete(listener)
+            },
+          }
+        },
+        __getGetValueCallCount() {
+          return getValueCallCount
+        },
+      }
+    }
+
+    const editor = {
+      EditorOption: {
+        lineHeight: 'lineHeight',
+        readOnly: 'readOnly',
+      },
+      ScrollType: {
+        Smooth: 'smooth',
+      },
+      create: vi.fn((_: any, options: any) => {
+        const model = createModel(options.value ?? '', options.language ?? 'plaintext')
+        lastCreatedModel = model
+        const scrollListeners = new Set<(e: any) => void>()
+        let scrollTop = 0
+        let contentHeightOverride: number | null = null
+        let getLayoutInfoCallCount = 0
+        let decorations: any[] = []
+        const domNode = {
+          addEventListener() {},
+          removeEventListener() {},
+        }
+
+        const editorApi = {
+          getModel() {
+            return model
+          },
+          getValue() {
+            return model.getValue()
+          },
+          getOption(option: string) {
+            if (option === editor.EditorOption.lineHeight)
+              return 20
+            if (option === editor.EditorOption.readOnly)
+              return options.readOnly ?? true
+            return undefined
+          },
+          getLayoutInfo() {
+            getLayoutInfoCallCount += 1
+            return { height: 240 }
+          },
+          getScrollTop() {
+            return scrollTop
+          },
+          setScrollTop: vi.fn((next: number) => {
+            scrollTop = next
+          }),
+          getScrollHeight() {
+            return contentHeightOverride ?? model.getLineCount() * 20
+          },
+          getContentHeight() {
+            return contentHeightOverride ?? model.getLineCount() * 20
+          },
+          onDidContentSizeChange(listener: () => void) {
+            return model.onDidContentSizeChange(listener)
+          },
+          onDidChangeModelContent(listener: () => void) {
+            return model.onDidChangeContent(listener)
+          },
+          onDidScrollChange(listener: (e: any) => void) {
+            scrollListeners.add(listener)
+            return {
+              dispose() {
+                scrollListeners.delete(listener)
+              },
+            }
+          },
+          executeEdits(_: string, edits: Array<{ range: Range, text: string }>) {
+            model.applyEdits(edits)
+          },
+          deltaDecorations: vi.fn((_: string[], next: any[]) => {
+            decorations = next
+            return next.map((_, i) => `decoration-${i}`)
+          }),
+          __getDecorations() {
+            return decorations
+          },
+          revealLine: vi.fn(),
+          revealLineInCenter: vi.fn(),
+          revealLineInCenterIfOutsideViewport: vi.fn(),
+          updateOptions: vi.fn((next: any) => {
+            Object.assign(options, next)
+          }),
+          dispose() {},
+          getDomNode() {
+            return domNode as any
+          },
+          __setScrollTop(next: number) {
+            scrollTop = next
+          },
+          __setContentHeight(next: number) {
+            contentHeightOverride = next
+          },
+          __getLayoutInfoCallCount() {
+            return getLayoutInfoCallCount
+          },
+        }
+        lastCreatedEditor = editorApi
+        return editorApi
+      }),
+      setTheme: vi.fn(),
+      setModelLanguage: vi.fn((model: any, language: string) => {
+        model.setLanguageId(language)
+      }),
+    }
+
+    const languages = {
+      getLanguages: () => [],
+      register: vi.fn(),
+    }
+
+    return {
+      default: { editor, languages, Range },
+      editor,
+      languages,
+      Range,
+      ScrollType: editor.ScrollType,
+      __getLastModel() {
+        return lastCreatedModel
+      },
+      __getLastEditor() {
+        return lastCreatedEditor
+      },
+    }
+  })
+
+  const base = await import('../src/index.base')
+  const monacoModule: any = await import('../src/monaco-shim')
+  return {
+    ...base,
+    __getLastModel: monacoModule.__getLastModel,
+    __getLastEditor: monacoModule.__getLastEditor,
+  }
+}
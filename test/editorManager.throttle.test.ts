@@ -1,253 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-
-function installRafMocks() {
-  vi.stubGlobal('requestAnimationFrame', (cb: any) => {
-    return setTimeout(() => cb(Date.now()), 0) as unknown as number
-  })
-  vi.stubGlobal('cancelAnimationFrame', (id: number) => {
-    clearTimeout(id as unknown as ReturnType<typeof setTimeout>)
-  })
-}
+import { installRafMocks, loadUseMonaco } from './editorHarness'
 
 async function flushRafFrames(count: number) {
   for (let i = 0; i < count; i++)
     await vi.advanceTimersByTimeAsync(1)
 }
 
-async function loadUseMonaco() {
-  vi.resetModules()
-
-  vi.doMock('../src/utils/registerMonacoThemes', () => {
-    return {
-      clearHighlighterCache: () => {},
-      getOrCreateHighlighter: async () => null,
-      registerMonacoThemes: async () => null,
-    }
-  })
-
-  vi.doMock('../src/monaco-shim', () => {
-    let lastCreatedModel: any = null
-    let lastCreatedEditor: any = null
-
-    class Range {
-      constructor(
-        public startLineNumber: number,
-        public startColumn: number,
-        public endLineNumber: number,
-        public endColumn: number,
-      ) {}
-    }
-
-    function createModel(initialValue: string, initialLanguage: string) {
-      let value = initialValue
-      let languageId = initialLanguage
-      let getValueCallCount = 0
-      const contentSizeListeners = new Set<() => void>()
-      const contentChangeListeners = new Set<() => void>()
-
-      function lines() {
-        return value.split('\n')
-      }
-
-      function getOffsetAt(lineNumber: number, column: number) {
-        const parts = lines()
-        let offset = 0
-        for (let i = 0; i < lineNumber - 1; i++)
-          offset += (parts[i] ?? '').length + 1
-        return offset + column - 1
-      }
-
-      function emitChange() {
-        contentChangeListeners.forEach(listener => listener())
-        contentSizeListeners.forEach(listener => listener())
-      }
-
-      return {
-        getValue() {
-          getValueCallCount += 1
-          return value
-        },
-        setValue(next: string) {
-          value = next
-          emitChange()
-        },
-        getLineCount() {
-          return lines().length
-        },
-        getLineMaxColumn(lineNumber: number) {
-          return (lines()[lineNumber - 1] ?? '').length + 1
-        },
-        getPositionAt(offset: number) {
-          const consumed = value.slice(0, offset).split('\n')
-          return {
-            lineNumber: consumed.length,
-            column: consumed[consumed.length - 1].length + 1,
-          }
-        },
-        getLanguageId() {
-          return languageId
-        },
-        setLanguageId(next: string) {
-          languageId = next
-        },
-        applyEdits(edits: Array<{ range: Range, text: string }>) {
-          for (const edit of edits) {
-            const start = getOffsetAt(
-              edit.range.startLineNumber,
-              edit.range.startColumn,
-            )
-            const end = getOffsetAt(
-              edit.range.endLineNumber,
-              edit.range.endColumn,
-            )
-            value = value.slice(0, start) + edit.text + value.slice(end)
-          }
-          emitChange()
-        },
-        onDidContentSizeChange(listener: () => void) {
-          contentSizeListeners.add(listener)
-          return {
-            dispose() {
-              contentSizeListeners.delete(listener)
-            },
-          }
-        },
-        onDidChangeContent(listener: () => void) {
-          contentChangeListeners.add(listener)
-          return {
-            dispose() {
-              contentChangeListeners.delete(listener)
-            },
-          }
-        },
-        __getGetValueCallCount() {
-          return getValueCallCount
-        },
-      }
-    }
-
-    const editor = {
-      EditorOption: {
-        lineHeight: 'lineHeight',
-        readOnly: 'readOnly',
-      },
-      ScrollType: {
-        Smooth: 'smooth',
-      },
-      create: vi.fn((_: any, options: any) => {
-        const model = createModel(options.value ?? '', options.language ?? 'plaintext')
-        lastCreatedModel = model
-        const scrollListeners = new Set<(e: any) => void>()
-        let scrollTop = 0
-        let contentHeightOverride: number | null = null
-        let getLayoutInfoCallCount = 0
-        const domNode = {
-          addEventListener() {},
-          removeEventListener() {},
-        }
-
-        const editorApi = {
-          getModel() {
-            return model
-          },
-          getValue() {
-            return model.getValue()
-          },
-          getOption(option: string) {
-            if (option === editor.EditorOption.lineHeight)
-              return 20
-            if (option === editor.EditorOption.readOnly)
-              return options.readOnly ?? true
-            return undefined
-          },
-          getLayoutInfo() {
-            getLayoutInfoCallCount += 1
-            return { height: 240 }
-          },
-          getScrollTop() {
-            return scrollTop
-          },
-          setScrollTop: vi.fn((next: number) => {
-            scrollTop = next
-          }),
-          getScrollHeight() {
-            return contentHeightOverride ?? model.getLineCount() * 20
-          },
-          getContentHeight() {
-            return contentHeightOverride ?? model.getLineCount() * 20
-          },
-          onDidContentSizeChange(listener: () => void) {
-            return model.onDidContentSizeChange(listener)
-          },
-          onDidChangeModelContent(listener: () => void) {
-            return model.onDidChangeContent(listener)
-          },
-          onDidScrollChange(listener: (e: any) => void) {
-            scrollListeners.add(listener)
-            return {
-              dispose() {
-                scrollListeners.delete(listener)
-              },
-            }
-          },
-          executeEdits(_: string, edits: Array<{ range: Range, text: string }>) {
-            model.applyEdits(edits)
-          },
-          revealLine: vi.fn(),
-          revealLineInCenter: vi.fn(),
-          revealLineInCenterIfOutsideViewport: vi.fn(),
-          dispose() {},
-          getDomNode() {
-            return domNode as any
-          },
-          __setScrollTop(next: number) {
-            scrollTop = next
-          },
-          __setContentHeight(next: number) {
-            contentHeightOverride = next
-          },
-          __getLayoutInfoCallCount() {
-            return getLayoutInfoCallCount
-          },
-        }
-        lastCreatedEditor = editorApi
-        return editorApi
-      }),
-      setTheme: vi.fn(),
-      setModelLanguage: vi.fn((model: any, language: string) => {
-        model.setLanguageId(language)
-      }),
-    }
-
-    const languages = {
-      getLanguages: () => [],
-      register: vi.fn(),
-    }
-
-    return {
-      default: { editor, languages, Range },
-      editor,
-      languages,
-      Range,
-      ScrollType: editor.ScrollType,
-      __getLastModel() {
-        return lastCreatedModel
-      },
-      __getLastEditor() {
-        return lastCreatedEditor
-      },
-    }
-  })
-
-  const base = await import('../src/index.base')
-  const monacoModule: any = await import('../src/monaco-shim')
-  return {
-    ...base,
-    __getLastModel: monacoModule.__getLastModel,
-    __getLastEditor: monacoModule.__getLastEditor,
-  }
-}
-
 describe('EditorManager update throttling', () => {
   beforeEach(() => {
     vi.useFakeTimers()
@@ -314,6 +72,316 @@ describe('EditorManager update throttling', () => {
     expect(monaco.getCode()).toBe('ab')
   })
 
+  it('emits flush, themeApplied and disposed events', async () => {
+    const { useMonaco } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 0,
+    })
+    const flushes: any[] = []
+    const themes: string[] = []
+    const disposed = vi.fn()
+    const off = monaco.on('flush', event => flushes.push(event))
+    monaco.on('themeApplied', ({ theme }) => themes.push(theme))
+    monaco.on('disposed', disposed)
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, 'a', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(themes).toEqual(['vitesse-dark'])
+
+    monaco.appendCode('\né', 'javascript')
+    await vi.runAllTimersAsync()
+    monaco.updateCode('b\né', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(flushes).toEqual([
+      { target: 'editor', kind: 'append', byteDelta: 3, lineDelta: 1, lineCount: 2 },
+      { target: 'editor', kind: 'update', byteDelta: 0, lineDelta: 0, lineCount: 2 },
+    ])
+
+    off()
+    monaco.appendCode('!', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(flushes).toHaveLength(2)
+
+    monaco.cleanupEditor()
+    expect(disposed).toHaveBeenCalledTimes(1)
+  })
+
+  it('flush() bypasses throttling and whenIdle() waits for scheduled work', async () => {
+    const { useMonaco } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 100,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, '', 'javascript')
+    await vi.runAllTimersAsync()
+
+    monaco.updateCode('a', 'javascript')
+    await vi.runAllTimersAsync()
+    monaco.updateCode('ab', 'javascript')
+    await monaco.flush()
+    expect(monaco.getCode()).toBe('ab')
+    monaco.appendCode('c', 'javascript')
+    await monaco.flush()
+    expect(monaco.getCode()).toBe('abc')
+
+    // whenIdle polls once per frame; give frames a real duration so fake
+    // time moves towards the pending throttle timer.
+    vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+      return setTimeout(() => cb(Date.now()), 16) as unknown as number
+    })
+    monaco.appendCode('d', 'javascript')
+    let idle = false
+    const whenIdle = monaco.whenIdle().then(() => {
+      idle = true
+    })
+    await vi.advanceTimersByTimeAsync(20)
+    expect(idle).toBe(false)
+    await vi.runAllTimersAsync()
+    await whenIdle
+    expect(monaco.getCode()).toBe('abcd')
+  })
+
+  it('beginStream/endStream toggle readOnly, flush and retokenize', async () => {
+    const { useMonaco, __getLastModel, __getLastEditor } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: false,
+      updateThrottleMs: 100,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, '', 'javascript')
+    await vi.runAllTimersAsync()
+    const editor = __getLastEditor()
+    const model = __getLastModel()
+    model.tokenization = {
+      resetTokenization: vi.fn(),
+      forceTokenization: vi.fn(),
+    }
+
+    monaco.beginStream()
+    expect(editor.getOption('readOnly')).toBe(true)
+    monaco.appendCode('a', 'javascript')
+    await vi.runAllTimersAsync()
+    monaco.appendCode('\nb', 'javascript')
+    await monaco.endStream()
+
+    expect(monaco.getCode()).toBe('a\nb')
+    expect(model.tokenization.resetTokenization).toHaveBeenCalledTimes(1)
+    expect(model.tokenization.forceTokenization).not.toHaveBeenCalled()
+    expect(editor.getOption('readOnly')).toBe(false)
+
+    monaco.beginStream()
+    await monaco.endStream({ editable: false })
+    expect(editor.getOption('readOnly')).toBe(true)
+  })
+
+  it('rollbackTo restores a checkpoint with one edit and drops buffered appends', async () => {
+    const { useMonaco, __getLastModel, __getLastEditor } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 100,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, 'const a = 1', 'javascript')
+    await vi.runAllTimersAsync()
+    const editor = __getLastEditor()
+    const model = __getLastModel()
+    editor.__setScrollTop(40)
+
+    const checkpoint = await monaco.createCheckpoint()
+    expect(checkpoint).toMatchObject({ kind: 'editor', code: 'const a = 1', scrollTop: 40 })
+
+    monaco.appendCode('\nconst b = 2', 'javascript')
+    await vi.runAllTimersAsync()
+    monaco.appendCode('\nconst c = 3', 'javascript')
+    editor.__setScrollTop(120)
+    const setValue = vi.spyOn(model, 'setValue')
+    const applyEdits = vi.spyOn(model, 'applyEdits')
+
+    monaco.rollbackTo(checkpoint!)
+    expect(monaco.getCode()).toBe('const a = 1')
+    expect(setValue).not.toHaveBeenCalled()
+    expect(applyEdits).toHaveBeenCalledTimes(1)
+    expect(editor.setScrollTop).toHaveBeenLastCalledWith(40)
+
+    // The buffered append belonged to the discarded generation.
+    await vi.runAllTimersAsync()
+    expect(monaco.getCode()).toBe('const a = 1')
+
+    monaco.appendCode('\nconst d = 4', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(monaco.getCode()).toBe('const a = 1\nconst d = 4')
+  })
+
+  it('streamingIndicator follows the tail and hides on idle or endStream', async () => {
+    const { useMonaco, __getLastEditor } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 0,
+      streamingIndicator: 'pulse',
+      streamingIndicatorIdleMs: 500,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, '', 'javascript')
+    await vi.runAllTimersAsync()
+    const editor = __getLastEditor()
+    expect(editor.__getDecorations()).toEqual([])
+
+    monaco.appendCode('const a = 1\nconst b', 'javascript')
+    await flushRafFrames(2)
+    expect(editor.__getDecorations()).toEqual([
+      expect.objectContaining({
+        range: expect.objectContaining({ startLineNumber: 2, startColumn: 8 }),
+        options: expect.objectContaining({
+          afterContentClassName: expect.stringContaining('stream-monaco-streaming-indicator-pulse'),
+        }),
+      }),
+    ])
+
+    await vi.advanceTimersByTimeAsync(600)
+    expect(editor.__getDecorations()).toEqual([])
+
+    monaco.beginStream()
+    expect(editor.__getDecorations()).toHaveLength(1)
+    await vi.advanceTimersByTimeAsync(600)
+    expect(editor.__getDecorations()).toHaveLength(1)
+    await monaco.endStream()
+    expect(editor.__getDecorations()).toEqual([])
+  })
+
+  it('streamingHighlight fades appended ranges and coalesces adjacent appends', async () => {
+    const { useMonaco, __getLastEditor } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 0,
+      streamingHighlight: true,
+      streamingHighlightMs: 400,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, 'a', 'javascript')
+    await vi.runAllTimersAsync()
+    const editor = __getLastEditor()
+
+    monaco.appendCode('b', 'javascript')
+    await flushRafFrames(1)
+    monaco.appendCode('\nc', 'javascript')
+    await flushRafFrames(1)
+    expect(editor.__getDecorations()).toEqual([
+      expect.objectContaining({
+        range: expect.objectContaining({
+          startLineNumber: 1,
+          startColumn: 2,
+          endLineNumber: 2,
+          endColumn: 2,
+        }),
+        options: { className: 'stream-monaco-streaming-highlight stream-monaco-streaming-highlight-0' },
+      }),
+    ])
+
+    await vi.advanceTimersByTimeAsync(200)
+    expect(editor.__getDecorations()[0].options.className).toContain('highlight-2')
+    await vi.advanceTimersByTimeAsync(200)
+    expect(editor.__getDecorations()).toEqual([])
+
+    // Appends in separate fade steps get their own decoration until it fades.
+    for (let i = 0; i < 10; i++) {
+      monaco.appendCode('x', 'javascript')
+      await flushRafFrames(1)
+      await vi.advanceTimersByTimeAsync(101)
+    }
+    const live = editor.__getDecorations()
+    expect(live.length).toBeGreaterThan(1)
+    expect(live.length).toBeLessThanOrEqual(4)
+
+    monaco.updateCode('replaced', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(editor.__getDecorations()).toEqual([])
+  })
+
+  it('showChanges marks rewritten words with the previous text in a hover', async () => {
+    const { useMonaco, __getLastEditor } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 0,
+      showChanges: true,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    await monaco.createEditor(container, 'const total = count + 1', 'javascript')
+    await vi.runAllTimersAsync()
+    const editor = __getLastEditor()
+
+    // Appends are not rewrites.
+    monaco.updateCode('const total = count + 1\n', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(editor.__getDecorations()).toEqual([])
+
+    monaco.updateCode('const total = counter + 1\n', 'javascript')
+    await vi.runAllTimersAsync()
+    expect(editor.__getDecorations()).toEqual([
+      {
+        range: expect.objectContaining({
+          startLineNumber: 1,
+          startColumn: 15,
+          endLineNumber: 1,
+          endColumn: 22,
+        }),
+        options: {
+          className: 'stream-monaco-change',
+          hoverMessage: { value: 'Previously:\n\n```javascript\ncount\n```' },
+        },
+      },
+    ])
+  })
+
+  it('rewrites separate blocks with one operation each in a single edit', async () => {
+    const { useMonaco, __getLastModel } = await loadUseMonaco()
+    const monaco = useMonaco({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      languages: ['javascript'],
+      readOnly: true,
+      updateThrottleMs: 0,
+    })
+
+    const container = { style: {}, innerHTML: '' } as any
+    const prev = 'import a from "a"\nconst x = 1\nconst y = 2\nexport default a\n'
+    await monaco.createEditor(container, prev, 'javascript')
+    await vi.runAllTimersAsync()
+    const model = __getLastModel()
+    const setValue = vi.spyOn(model, 'setValue')
+    const applyEdits = vi.spyOn(model, 'applyEdits')
+
+    const next = 'import b from "b"\nconst x = 1\nconst y = 2\nexport default b\n'
+    monaco.updateCode(next, 'javascript')
+    await vi.runAllTimersAsync()
+    expect(monaco.getCode()).toBe(next)
+    expect(setValue).not.toHaveBeenCalled()
+    expect(applyEdits).toHaveBeenCalledTimes(1)
+    const operations = applyEdits.mock.calls[0][0] as Array<{ range: { startLineNumber: number } }>
+    expect(operations.map(op => op.range.startLineNumber)).toEqual([1, 4])
+  })
+
   it('respects updateThrottleMs for explicit appendCode streaming', async () => {
     const { useMonaco } = await loadUseMonaco()
     const monaco = useMonaco({
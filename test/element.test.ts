@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSupersededError } from '../src/utils/createSuperseded'
+
+const { instances, control } = vi.hoisted(() => ({
+  instances: [] as any[],
+  control: { holdCreate: false },
+}))
+
+vi.mock('../src/index', async () => {
+  const { isCreateSupersededError } = await import('../src/utils/createSuperseded')
+  return {
+    isCreateSupersededError,
+    useMonaco: (options: any) => {
+      const instance = createFakeMonaco(options)
+      instances.push(instance)
+      return instance
+    },
+  }
+})
+
+function createFakeMonaco(options: any) {
+  const handlers = new Map<string, Set<(payload: unknown) => void>>()
+  let code: any = null
+  let rejectCreate: ((err: unknown) => void) | null = null
+  const instance = {
+    options,
+    finishCreate: () => {},
+    emit(name: string, payload?: unknown) {
+      handlers.get(name)?.forEach(handler => handler(payload))
+    },
+    on: vi.fn((name: string, handler: (payload: unknown) => void) => {
+      if (!handlers.has(name))
+        handlers.set(name, new Set())
+      handlers.get(name)!.add(handler)
+      return () => handlers.get(name)!.delete(handler)
+    }),
+    createEditor: vi.fn((_: unknown, text: string) => create(text)),
+    createDiffEditor: vi.fn((_: unknown, original: string, modified: string) =>
+      create({ original, modified })),
+    getCode: () => code,
+    updateCode: vi.fn((text: string) => {
+      code = text
+    }),
+    appendCode: vi.fn((text: string) => {
+      code += text
+    }),
+    updateDiff: vi.fn(),
+    updateModified: vi.fn(),
+    appendModified: vi.fn(),
+    setLanguage: vi.fn(),
+    setTheme: vi.fn(async () => {}),
+    cleanupEditor: vi.fn(() => {
+      rejectCreate?.(createSupersededError())
+      instance.emit('disposed')
+    }),
+  }
+  function create(initial: unknown) {
+    return new Promise((resolve, reject) => {
+      rejectCreate = reject
+      instance.finishCreate = () => {
+        rejectCreate = null
+        code = initial
+        resolve({ kind: 'view' })
+      }
+      if (!control.holdCreate)
+        instance.finishCreate()
+    })
+  }
+  return instance
+}
+
+class FakeHTMLElement extends EventTarget {
+  static observedAttributes: string[] = []
+  attributes = new Map<string, string>()
+  children: unknown[] = []
+  textContent: string | null = null
+
+  getAttribute(name: string) {
+    return this.attributes.get(name) ?? null
+  }
+
+  setAttribute(name: string, value: string) {
+    const oldValue = this.getAttribute(name)
+    this.attributes.set(name, value)
+    const observed = (this.constructor as typeof FakeHTMLElement).observedAttributes
+    if (observed.includes(name))
+      (this as any).attributeChangedCallback?.(name, oldValue, value)
+  }
+
+  appendChild(child: unknown) {
+    this.children.push(child)
+  }
+
+  replaceChildren() {
+    this.children = []
+    this.textContent = ''
+  }
+}
+
+const registry = new Map<string, new () => any>()
+
+function createElement(tag: string) {
+  const Ctor = registry.get(tag)!
+  return new Ctor()
+}
+
+describe('stream-monaco custom elements', () => {
+  beforeEach(async () => {
+    instances.length = 0
+    control.holdCreate = false
+    registry.clear()
+    vi.stubGlobal('HTMLElement', FakeHTMLElement)
+    vi.stubGlobal('customElements', {
+      get: (tag: string) => registry.get(tag),
+      define: (tag: string, ctor: new () => any) => registry.set(tag, ctor),
+    })
+    vi.stubGlobal('document', {
+      getElementById: () => null,
+      createElement: () => ({}),
+      head: { appendChild() {} },
+    })
+    const { defineStreamMonacoElements } = await import('../src/element')
+    defineStreamMonacoElements()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('creates the editor on connect from attributes and the initial text', async () => {
+    const element = createElement('stream-monaco')
+    element.setAttribute('language', 'typescript')
+    element.setAttribute('theme', 'vitesse-dark')
+    element.setAttribute('max-height', '320')
+    element.textContent = 'const a = 1'
+    const onReady = vi.fn()
+    const onHeight = vi.fn()
+    element.addEventListener('ready', onReady)
+    element.addEventListener('height-changed', (event: CustomEvent) => onHeight(event.detail))
+
+    element.connectedCallback()
+    await Promise.resolve()
+    const [instance] = instances
+    expect(instance.options).toEqual({ theme: 'vitesse-dark', MAX_HEIGHT: 320 })
+    expect(instance.createEditor).toHaveBeenCalledWith(expect.anything(), 'const a = 1', 'typescript')
+    expect(onReady).toHaveBeenCalledTimes(1)
+
+    element.append('\nconst b = 2')
+    expect(instance.appendCode).toHaveBeenCalledWith('\nconst b = 2', 'typescript')
+    expect(element.value).toBe('const a = 1\nconst b = 2')
+
+    instance.emit('heightChanged', { target: 'editor', height: 120 })
+    expect(onHeight).toHaveBeenCalledWith({ target: 'editor', height: 120 })
+
+    element.setAttribute('language', 'javascript')
+    expect(instance.setLanguage).toHaveBeenCalledWith('javascript')
+  })
+
+  it('keeps its text across disconnect and reconnect', async () => {
+    const element = createElement('stream-monaco')
+    element.connectedCallback()
+    await Promise.resolve()
+    element.update('hello')
+    const onDisposed = vi.fn()
+    element.addEventListener('disposed', onDisposed)
+
+    element.disconnectedCallback()
+    expect(instances[0].cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(onDisposed).toHaveBeenCalledTimes(1)
+    expect(element.view).toBeNull()
+
+    element.connectedCallback()
+    expect(instances[1].createEditor).toHaveBeenCalledWith(expect.anything(), 'hello', 'plaintext')
+  })
+
+  it('ignores the superseded create when disconnected early', async () => {
+    control.holdCreate = true
+    const element = createElement('stream-monaco')
+    const onError = vi.fn()
+    element.addEventListener('error', onError)
+    element.connectedCallback()
+    element.disconnectedCallback()
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('maps diff-* attributes to options and re-creates when they change', async () => {
+    control.holdCreate = true
+    const element = createElement('stream-monaco-diff')
+    element.setAttribute('diff-line-style', 'bar')
+    element.setAttribute('diff-hide-unchanged-regions', 'false')
+    element.setAttribute('diff-update-throttle-ms', '0')
+    element.original = 'a'
+    element.modified = 'a'
+    element.connectedCallback()
+    const [first] = instances
+    expect(first.options).toEqual({
+      diffLineStyle: 'bar',
+      diffHideUnchangedRegions: false,
+      diffUpdateThrottleMs: 0,
+    })
+
+    // Appends during create are applied once the diff editor exists.
+    element.append('b')
+    first.finishCreate()
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(first.updateDiff).toHaveBeenCalledWith('a', 'ab', 'plaintext')
+
+    element.setAttribute('diff-appearance', 'dark')
+    expect(first.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(instances[1].options).toMatchObject({ diffAppearance: 'dark', diffLineStyle: 'bar' })
+  })
+})
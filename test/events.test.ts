@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createEventEmitter } from '../src/utils/events'
+import { utf8ByteLength } from '../src/utils/textChunks'
+
+describe('createEventEmitter', () => {
+  it('delivers payloads until unsubscribed and isolates throwing handlers', () => {
+    const events = createEventEmitter<{ ping: number, pong: undefined }>()
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const received: number[] = []
+    events.on('ping', () => {
+      throw new Error('boom')
+    })
+    const off = events.on('ping', value => received.push(value))
+
+    expect(events.has('ping')).toBe(true)
+    expect(events.has('pong')).toBe(false)
+    events.emit('ping', 1)
+    off()
+    events.emit('ping', 2)
+
+    expect(received).toEqual([1])
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
+
+describe('utf8ByteLength', () => {
+  it('matches TextEncoder for ASCII, BMP and astral characters', () => {
+    for (const text of ['', 'abc', 'é', '中文', '😀 ok', '\uD800'])
+      expect(utf8ByteLength(text)).toBe(new TextEncoder().encode(text).length)
+  })
+})
@@ -0,0 +1,164 @@
+import type { UseMonacoReturn } from '../src/type'
+import { describe, expect, it, vi } from 'vitest'
+import { createFencedStreamParser } from '../src/core/fencedStream'
+import { FencedStreamRouterManager } from '../src/core/FencedStreamRouter'
+
+function chunk(text: string, size: number) {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size)
+    chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+function parse(chunks: string[]) {
+  const events: Array<[string, string | boolean]> = []
+  const parser = createFencedStreamParser({
+    onText: text => events.push(['text', text]),
+    onOpen: info => events.push(['open', info]),
+    onCode: text => events.push(['code', text]),
+    onClose: terminated => events.push(['close', terminated]),
+  })
+  for (const part of chunks)
+    parser.push(part)
+  parser.end()
+  // Merge consecutive text/code events so chunking does not matter.
+  const merged: typeof events = []
+  for (const event of events) {
+    const last = merged[merged.length - 1]
+    if (last && (event[0] === 'text' || event[0] === 'code') && last[0] === event[0])
+      last[1] = `${last[1]}${event[1]}`
+    else
+      merged.push([...event])
+  }
+  return merged
+}
+
+const markdown = [
+  'Here is the fix:',
+  '',
+  '````md',
+  'Example:',
+  '```ts',
+  'const a = 1',
+  '```',
+  '````',
+  'and a tilde fence:',
+  '  ~~~',
+  '  ```',
+  '   x',
+  '',
+  '  ~~~~',
+  'done',
+].join('\n')
+
+describe('fenced stream parser', () => {
+  it('splits text and nested or indented fences regardless of chunk boundaries', () => {
+    const expected = [
+      ['text', 'Here is the fix:\n\n'],
+      ['open', 'md'],
+      ['code', 'Example:\n```ts\nconst a = 1\n```'],
+      ['close', true],
+      ['text', 'and a tilde fence:\n'],
+      ['open', ''],
+      ['code', '```\n x\n'],
+      ['close', true],
+      ['text', 'done'],
+    ]
+    for (const size of [1, 3, 7, markdown.length])
+      expect(parse(chunk(markdown, size))).toEqual(expected)
+  })
+
+  it('streams partial code lines but holds back a possible closing fence', () => {
+    const codes: string[] = []
+    const parser = createFencedStreamParser({
+      onOpen: () => {},
+      onCode: text => codes.push(text),
+      onClose: () => codes.push('<close>'),
+    })
+    parser.push('```js\nconst a')
+    expect(codes).toEqual(['const a'])
+    parser.push(' = 1\n``')
+    expect(codes).toEqual(['const a', ' = 1'])
+    parser.push('`')
+    parser.end()
+    expect(codes).toEqual(['const a', ' = 1', '<close>'])
+  })
+
+  it('closes an unterminated final fence on end()', () => {
+    expect(parse(['```py\nprint(1)\n'])).toEqual([
+      ['open', 'py'],
+      ['code', 'print(1)'],
+      ['close', false],
+    ])
+  })
+})
+
+function createFakeInstance() {
+  let resolveCreate!: () => void
+  const instance = {
+    createEditor: vi.fn(() => new Promise<void>((resolve) => {
+      resolveCreate = resolve
+    })),
+    updateCode: vi.fn(),
+    appendCode: vi.fn(),
+    setLanguage: vi.fn(),
+    cleanupEditor: vi.fn(),
+  }
+  return { instance, resolve: () => resolveCreate() }
+}
+
+describe('fenced stream router', () => {
+  it('drives one editor per block and detects missing languages', async () => {
+    const fakes: Array<ReturnType<typeof createFakeInstance>> = []
+    const container = {} as HTMLElement
+    const onBlock = vi.fn(() => container)
+    const onBlockClose = vi.fn()
+    const onText = vi.fn()
+    const router = new FencedStreamRouterManager(
+      { onBlock, onBlockClose, onText },
+      () => {
+        const fake = createFakeInstance()
+        fakes.push(fake)
+        return fake.instance as unknown as UseMonacoReturn
+      },
+    )
+
+    router.push('Intro\n```ts\nconst a')
+    expect(onBlock).toHaveBeenCalledWith({
+      index: 0,
+      info: 'ts',
+      language: 'typescript',
+      code: '',
+      closed: false,
+    })
+    expect(fakes[0].instance.createEditor).toHaveBeenCalledWith(container, '', 'typescript')
+    // Before the editor exists, the whole code is queued through updateCode.
+    expect(fakes[0].instance.updateCode).toHaveBeenLastCalledWith('const a', 'typescript')
+
+    fakes[0].resolve()
+    await Promise.resolve()
+    router.push(' = 1\n```\n\n```\nimport os\ndef main():\n  print(os.name)\n  print(os.sep)\n')
+    expect(fakes[0].instance.appendCode).toHaveBeenCalledWith(' = 1', 'typescript')
+    expect(onBlockClose).toHaveBeenCalledWith(expect.objectContaining({
+      index: 0,
+      code: 'const a = 1',
+      closed: true,
+    }))
+    router.end()
+
+    const blocks = router.getBlocks()
+    expect(blocks.map(block => [block.info, block.language, block.closed])).toEqual([
+      ['ts', 'typescript', true],
+      ['', 'python', true],
+    ])
+    expect(blocks[1].code).toBe('import os\ndef main():\n  print(os.name)\n  print(os.sep)')
+    expect(fakes[1].instance.updateCode).toHaveBeenLastCalledWith(blocks[1].code, 'python')
+    expect(onText).toHaveBeenCalledWith('Intro\n')
+
+    expect(router.getBlockEditor(1)).toBe(fakes[1].instance)
+    router.dispose()
+    expect(fakes[0].instance.cleanupEditor).toHaveBeenCalled()
+    expect(fakes[1].instance.cleanupEditor).toHaveBeenCalled()
+    expect(router.getBlockEditor(0)).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+const base = ['a', 'b', 'c', 'd', 'e', 'f', ''].join('\n')
+const ours = ['a', 'B', 'c', 'd', 'E1', 'f', ''].join('\n')
+const theirs = ['a', 'b', 'c', 'D', 'E2', 'f', 'g', ''].join('\n')
+
+describe('merge editor', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('streams side updates and resolves conflicts through the diff editor', async () => {
+    const onMergeChange = vi.fn()
+    const options = { onMergeChange }
+    const manager = await createDiffManager(base, ours, options)
+    // Loaded after the harness has mocked monaco-shim.
+    const { MergeEditorManager } = await import('../src/core/MergeEditorManager')
+    const merge = new MergeEditorManager(options as any, { base, ours, theirs: base })
+    merge.attach(manager, {} as any, 'typescript')
+
+    for (const prefix of [theirs.slice(0, 9), theirs]) {
+      merge.update({ theirs: prefix })
+      await waitForAsyncWork()
+    }
+    await waitForAsyncWork(80)
+
+    const { original, modified } = manager.getDiffModels()
+    expect(original.getValue()).toBe(base)
+    expect(modified.getValue()).toContain('<<<<<<< ours')
+    expect(merge.getResult()).toMatchObject({
+      resolved: false,
+      conflicts: [{ index: 0, ours: 'd\nE1', theirs: 'D\nE2', resolution: 'unresolved' }],
+    })
+
+    merge.resolveConflict(0, 'ours')
+    await waitForAsyncWork(80)
+    expect(modified.getValue()).toBe('a\nB\nc\nd\nE1\nf\ng\n')
+    expect(onMergeChange).toHaveBeenCalledTimes(1)
+    expect(onMergeChange.mock.calls[0][0]).toMatchObject({
+      text: 'a\nB\nc\nd\nE1\nf\ng\n',
+      resolved: true,
+    })
+
+    merge.cleanup()
+    manager.cleanup()
+  })
+
+  it('keeps a resolution on its conflict when an earlier conflict appears', async () => {
+    const manager = await createDiffManager(base, ours)
+    const { MergeEditorManager } = await import('../src/core/MergeEditorManager')
+    const merge = new MergeEditorManager({} as any, { base, ours, theirs })
+    merge.attach(manager, {} as any, 'typescript')
+    await waitForAsyncWork(80)
+
+    merge.resolveConflict(0, 'theirs')
+    merge.update({ theirs: theirs.replace('a\nb', 'a\nB2') })
+    const { conflicts } = merge.getResult()
+    expect(conflicts).toMatchObject([
+      { index: 0, ours: 'B', theirs: 'B2', resolution: 'unresolved' },
+      { index: 1, ours: 'd\nE1', theirs: 'D\nE2', resolution: 'theirs' },
+    ])
+
+    // Changing a side of the resolved conflict makes it a new conflict.
+    merge.update({ theirs: theirs.replace('a\nb', 'a\nB2').replace('E2', 'E3') })
+    expect(merge.getResult().conflicts[1]).toMatchObject({ theirs: 'D\nE3', resolution: 'unresolved' })
+
+    merge.cleanup()
+    manager.cleanup()
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
-import { computeMinimalEdit } from '../src/minimalEdit'
+import type { MinimalTextEdit } from '../src/minimalEdit'
+import { computeMinimalEdit, computeMinimalEdits } from '../src/minimalEdit'
 
 describe('computeMinimalEdit', () => {
   it('no-op when equal', () => {
@@ -46,3 +47,46 @@ describe('computeMinimalEdit', () => {
     expect(res.replaceText).toBe(' there')
   })
 })
+
+function applyEdits(prev: string, edits: MinimalTextEdit[]) {
+  let out = ''
+  let at = 0
+  for (const edit of edits) {
+    out += prev.slice(at, edit.start) + edit.text
+    at = edit.end
+  }
+  return out + prev.slice(at)
+}
+
+describe('computeMinimalEdits', () => {
+  it('no edits when equal', () => {
+    expect(computeMinimalEdits('a\nb\n', 'a\nb\n')).toEqual([])
+  })
+
+  it('keeps unchanged lines between two changes out of the edits', () => {
+    const prev = 'import a from "a"\nconst x = 1\nconst y = 2\nexport default x\n'
+    const next = 'import b from "b"\nconst x = 1\nconst y = 2\nexport default y\n'
+    const edits = computeMinimalEdits(prev, next)
+    expect(edits).toHaveLength(2)
+    expect(edits[0].end).toBeLessThan(prev.indexOf('const x'))
+    expect(edits[1].start).toBeGreaterThan(prev.indexOf('const y'))
+    expect(applyEdits(prev, edits)).toBe(next)
+  })
+
+  it('handles inserted and removed lines', () => {
+    const prev = 'one\ntwo\nthree\nfour\nfive'
+    const next = 'zero\none\nthree\nfour\nfour and a half\nfive!'
+    const edits = computeMinimalEdits(prev, next)
+    expect(edits.length).toBeGreaterThan(1)
+    for (let i = 1; i < edits.length; i++)
+      expect(edits[i].start).toBeGreaterThanOrEqual(edits[i - 1].end)
+    expect(applyEdits(prev, edits)).toBe(next)
+  })
+
+  it('falls back to one middle edit once the time budget is spent', () => {
+    const prev = 'a\nb\nc\nd\n'
+    const next = 'A\nb\nc\nD\n'
+    const edits = computeMinimalEdits(prev, next, -1)
+    expect(edits).toEqual([{ start: 0, end: 7, text: 'A\nb\nc\nD' }])
+  })
+})
@@ -0,0 +1,357 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const lineHeight = 19
+
+function createFakeElement(tag = 'div'): any {
+  const el: any = {
+    tagName: tag.toUpperCase(),
+    className: '',
+    style: {},
+    children: [] as any[],
+    parentNode: null as any,
+    _html: '',
+    get firstElementChild() {
+      return el.children[0] ?? null
+    },
+    get innerHTML() {
+      return el._html
+    },
+    set innerHTML(value: string) {
+      el._html = value
+      el.children = []
+      const match = value.match(/^<(\w+)/)
+      if (match) {
+        const child = createFakeElement(match[1])
+        child._html = value
+        child.parentNode = el
+        el.children.push(child)
+      }
+    },
+    appendChild(child: any) {
+      child.parentNode?.removeChild(child)
+      child.parentNode = el
+      el.children.push(child)
+      return child
+    },
+    removeChild(child: any) {
+      el.children = el.children.filter((c: any) => c !== child)
+      child.parentNode = null
+      return child
+    },
+    remove() {
+      el.parentNode?.removeChild(el)
+    },
+  }
+  return el
+}
+
+function installDom() {
+  vi.stubGlobal('document', {
+    createElement: (tag: string) => createFakeElement(tag),
+  })
+  vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+    return setTimeout(() => cb(Date.now()), 0) as unknown as number
+  })
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+    clearTimeout(id as unknown as ReturnType<typeof setTimeout>)
+  })
+}
+
+async function loadCreateMonacoPool() {
+  vi.resetModules()
+
+  const created: any[] = []
+
+  vi.doMock('../src/utils/registerMonacoThemes', () => {
+    return {
+      clearHighlighterCache: () => {},
+      getOrCreateHighlighter: async () => null,
+      registerMonacoThemes: vi.fn(async () => ({
+        getLoadedLanguages: () => ['typescript', 'javascript', 'python'],
+        codeToHtml: (code: string, options: { lang: string, theme: string }) =>
+          `<pre class="shiki ${options.theme}" data-lang="${options.lang}"><code>${code}</code></pre>`,
+      })),
+    }
+  })
+
+  vi.doMock('../src/monaco-shim', () => {
+    class Range {
+      constructor(
+        public startLineNumber: number,
+        public startColumn: number,
+        public endLineNumber: number,
+        public endColumn: number,
+      ) {}
+    }
+
+    function createModel(initialValue: string, initialLanguage: string) {
+      let value = initialValue
+      let languageId = initialLanguage
+      const listeners = new Set<() => void>()
+      const lines = () => value.split('\n')
+      const getOffsetAt = (lineNumber: number, column: number) => {
+        const parts = lines()
+        let offset = 0
+        for (let i = 0; i < lineNumber - 1; i++)
+          offset += (parts[i] ?? '').length + 1
+        return offset + column - 1
+      }
+      return {
+        getValue: () => value,
+        setValue(next: string) {
+          value = next
+          listeners.forEach(l => l())
+        },
+        getLineCount: () => lines().length,
+        getLineMaxColumn: (lineNumber: number) => (lines()[lineNumber - 1] ?? '').length + 1,
+        getPositionAt(offset: number) {
+          const consumed = value.slice(0, offset).split('\n')
+          return {
+            lineNumber: consumed.length,
+            column: consumed[consumed.length - 1].length + 1,
+          }
+        },
+        getLanguageId: () => languageId,
+        setLanguageId(next: string) {
+          languageId = next
+        },
+        applyEdits(edits: Array<{ range: Range, text: string }>) {
+          for (const edit of edits) {
+            const start = getOffsetAt(edit.range.startLineNumber, edit.range.startColumn)
+            const end = getOffsetAt(edit.range.endLineNumber, edit.range.endColumn)
+            value = value.slice(0, start) + edit.text + value.slice(end)
+          }
+          listeners.forEach(l => l())
+        },
+        onChange(listener: () => void) {
+          listeners.add(listener)
+        },
+        dispose: vi.fn(),
+      }
+    }
+
+    const editor = {
+      EditorOption: { lineHeight: 'lineHeight' },
+      createModel: vi.fn(createModel),
+      setModelLanguage: vi.fn((model: any, language: string) => model.setLanguageId(language)),
+      setTheme: vi.fn(),
+      create: vi.fn((host: any, options: any) => {
+        const model = options.model
+        const sizeListeners = new Set<() => void>()
+        model.onChange(() => sizeListeners.forEach(l => l()))
+        const instance = {
+          host,
+          options,
+          getModel: () => model,
+          getContentHeight: () => model.getLineCount() * lineHeight,
+          getOption: () => lineHeight,
+          onDidContentSizeChange(listener: () => void) {
+            sizeListeners.add(listener)
+            return { dispose: () => sizeListeners.delete(listener) }
+          },
+          setScrollTop: vi.fn(),
+          layout: vi.fn(),
+          dispose: vi.fn(),
+        }
+        created.push(instance)
+        return instance
+      }),
+    }
+
+    return { Range, editor }
+  })
+
+  const mod = await import('../src/core/MonacoPool')
+  const monaco = await import('../src/monaco-shim')
+  return { createMonacoPool: mod.createMonacoPool, monaco: monaco as any, created }
+}
+
+async function flushFrames(count = 3) {
+  for (let i = 0; i < count; i++)
+    await vi.advanceTimersByTimeAsync(1)
+}
+
+describe('createMonacoPool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    installDom()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.doUnmock('../src/utils/registerMonacoThemes')
+    vi.doUnmock('../src/monaco-shim')
+  })
+
+  it('caps live editors and parks the least recently used block as static html', async () => {
+    const { createMonacoPool, created } = await loadCreateMonacoPool()
+    const pool = createMonacoPool({ maxLiveEditors: 2, theme: 'vitesse-dark' })
+    const containers = [createFakeElement(), createFakeElement(), createFakeElement()]
+
+    const blocks = [
+      pool.mount(containers[0], 'a\nb', 'typescript'),
+      pool.mount(containers[1], 'c', 'typescript'),
+    ]
+    await flushFrames()
+    expect(created).toHaveLength(2)
+    expect(blocks.every(block => block.isLive())).toBe(true)
+
+    blocks.push(pool.mount(containers[2], 'd\ne\nf', 'python'))
+    // Before rehydration the block is rendered statically with the shared highlighter.
+    await flushFrames()
+
+    expect(created).toHaveLength(2)
+    expect(pool.getLiveCount()).toBe(2)
+    expect(blocks[0].isLive()).toBe(false)
+    expect(blocks[2].isLive()).toBe(true)
+    expect(blocks[2].getEditorView()).toBe(created[0])
+    expect(created[0].getModel().getValue()).toBe('d\ne\nf')
+    expect(created[0].getModel().getLanguageId()).toBe('python')
+
+    const parkedStatic = containers[0].children[0]
+    expect(parkedStatic.className).toBe('stream-monaco-static')
+    expect(parkedStatic.innerHTML).toContain('data-lang="typescript"')
+    expect(parkedStatic.innerHTML).toContain('vitesse-dark')
+    expect(containers[2].children.map((c: any) => c.className)).toEqual(['stream-monaco-pool-host'])
+
+    pool.dispose()
+  })
+
+  it('keeps the live height when a block is parked and rehydrated', async () => {
+    const { createMonacoPool, created } = await loadCreateMonacoPool()
+    const pool = createMonacoPool({ maxLiveEditors: 1 })
+    const first = createFakeElement()
+    const second = createFakeElement()
+
+    const a = pool.mount(first, '1\n2\n3', 'typescript')
+    await flushFrames()
+    expect(first.style.height).toBe(`${3 * lineHeight}px`)
+
+    const b = pool.mount(second, '1', 'typescript')
+    await flushFrames()
+    expect(a.isLive()).toBe(false)
+    expect(b.isLive()).toBe(true)
+    expect(first.style.height).toBe(`${3 * lineHeight}px`)
+
+    await a.activate()
+    await flushFrames()
+    expect(created).toHaveLength(1)
+    expect(a.isLive()).toBe(true)
+    expect(first.style.height).toBe(`${3 * lineHeight}px`)
+    expect(second.style.height).toBe(`${lineHeight}px`)
+
+    pool.dispose()
+  })
+
+  it('streams into live editors and re-renders parked blocks on update', async () => {
+    const { createMonacoPool, created } = await loadCreateMonacoPool()
+    const pool = createMonacoPool({ maxLiveEditors: 1 })
+    const first = createFakeElement()
+    const second = createFakeElement()
+
+    const a = pool.mount(first, 'const a = 1', 'typescript')
+    await flushFrames()
+    a.appendCode('\nconst b = 2')
+    a.updateCode('const a = 3\nconst b = 2')
+    expect(a.getCode()).toBe('const a = 3\nconst b = 2')
+    await flushFrames()
+    expect(created[0].getModel().getValue()).toBe('const a = 3\nconst b = 2')
+
+    pool.mount(second, 'x', 'typescript')
+    await flushFrames()
+    expect(a.isLive()).toBe(false)
+    expect(a.getCode()).toBe('const a = 3\nconst b = 2')
+
+    a.appendCode('\nconst c = 4')
+    await flushFrames()
+    expect(first.children[0].innerHTML).toContain('const c = 4')
+    expect(first.style.height).toBe(`${3 * lineHeight}px`)
+
+    pool.dispose()
+    expect(created[0].dispose).toHaveBeenCalledTimes(1)
+    expect(first.children).toHaveLength(0)
+    expect(first.style.height).toBe('')
+  })
+
+  it('batches streamed tokens into one edit per frame and rewrites in place', async () => {
+    const { createMonacoPool, created } = await loadCreateMonacoPool()
+    const pool = createMonacoPool({ maxLiveEditors: 1 })
+    const block = pool.mount(createFakeElement(), 'a\nb\nc\nd\ne', 'typescript')
+    await flushFrames()
+    const model = created[0].getModel()
+    const applyEdits = vi.spyOn(model, 'applyEdits')
+    const setValue = vi.spyOn(model, 'setValue')
+
+    block.appendCode('\nf')
+    block.appendCode('g')
+    block.updateCode('a\nb\nc\nd\ne\nfgh')
+    await flushFrames()
+    expect(applyEdits).toHaveBeenCalledTimes(1)
+    expect(applyEdits.mock.calls[0][0]).toEqual([expect.objectContaining({ text: '\nfgh' })])
+
+    // Two separate changes are two operations of one edit.
+    block.updateCode('A\nb\nc\nd\nE\nfgh')
+    await flushFrames()
+    expect(applyEdits).toHaveBeenCalledTimes(2)
+    expect(applyEdits.mock.calls[1][0]).toHaveLength(2)
+    expect(model.getValue()).toBe('A\nb\nc\nd\nE\nfgh')
+    expect(setValue).not.toHaveBeenCalled()
+
+    pool.dispose()
+  })
+
+  it('prefers recycling editors of blocks that left the viewport', async () => {
+    const observers: any[] = []
+    vi.stubGlobal('IntersectionObserver', class {
+      targets = new Set<any>()
+      constructor(public callback: (entries: any[]) => void) {
+        observers.push(this)
+      }
+
+      observe(target: any) {
+        this.targets.add(target)
+      }
+
+      unobserve(target: any) {
+        this.targets.delete(target)
+      }
+
+      disconnect() {
+        this.targets.clear()
+      }
+    })
+    const { createMonacoPool, created } = await loadCreateMonacoPool()
+    const pool = createMonacoPool({ maxLiveEditors: 2 })
+    const containers = [createFakeElement(), createFakeElement(), createFakeElement()]
+    const blocks = containers.map((c, i) => pool.mount(c, `block ${i}`, 'javascript'))
+    const observer = observers[0]
+    const intersect = (index: number, isIntersecting: boolean) =>
+      observer.callback([{ target: containers[index], isIntersecting }])
+
+    await flushFrames()
+    expect(created).toHaveLength(0)
+
+    intersect(0, true)
+    intersect(1, true)
+    await flushFrames()
+    expect(pool.getLiveCount()).toBe(2)
+
+    // Block 0 was used first but is still visible; block 1 scrolled away.
+    await blocks[0].activate()
+    intersect(1, false)
+    intersect(2, true)
+    await flushFrames()
+
+    expect(created).toHaveLength(2)
+    expect(blocks[0].isLive()).toBe(true)
+    expect(blocks[1].isLive()).toBe(false)
+    expect(blocks[2].isLive()).toBe(true)
+
+    blocks[2].dispose()
+    expect(observer.targets.has(containers[2])).toBe(false)
+    expect(pool.getLiveCount()).toBe(1)
+
+    pool.dispose()
+  })
+})
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { pipeTextSource, pipeTextSources } from '../src/core/pipe'
+
+function createSink() {
+  const sink = {
+    text: '',
+    buffered: 0,
+    maxBuffered: 0,
+    alive: true,
+    append: vi.fn((text: string) => {
+      if (!sink.alive)
+        return false
+      sink.text += text
+      sink.buffered += text.length
+      sink.maxBuffered = Math.max(sink.maxBuffered, sink.buffered)
+      return true
+    }),
+    hasPendingAppend: () => sink.buffered > 0,
+  }
+  return sink
+}
+
+async function* tokens(values: string[]) {
+  for (const value of values)
+    yield value
+}
+
+describe('pipeTextSource', () => {
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+      return setTimeout(() => cb(Date.now()), 0) as unknown as number
+    })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('decodes byte streams split inside multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode('const é = "✓"\n')
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 3)
+          controller.enqueue(bytes.slice(i, i + 3))
+        controller.close()
+      },
+    })
+    const sink = createSink()
+    await pipeTextSource(stream, sink)
+    expect(sink.text).toBe('const é = "✓"\n')
+  })
+
+  it('pauses reading until the sink drains past highWaterMark', async () => {
+    const sink = createSink()
+    const drain = setInterval(() => {
+      sink.buffered = 0
+    }, 1)
+    try {
+      await pipeTextSource(tokens(Array.from({ length: 20 }, () => 'abcd')), sink, {
+        highWaterMark: 8,
+      })
+    }
+    finally {
+      clearInterval(drain)
+    }
+    expect(sink.text).toBe('abcd'.repeat(20))
+    expect(sink.maxBuffered).toBe(8)
+  })
+
+  it('rejects with the abort reason and cancels the source', async () => {
+    const cancel = vi.fn()
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue('a')
+      },
+      cancel,
+    })
+    const controller = new AbortController()
+    const sink = createSink()
+    const piping = pipeTextSource(stream, sink, { signal: controller.signal })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    controller.abort(new Error('stop'))
+    await expect(piping).rejects.toThrow('stop')
+    expect(sink.text).toBe('a')
+    expect(cancel).toHaveBeenCalled()
+  })
+
+  it('stops quietly once the editor is gone', async () => {
+    const sink = createSink()
+    sink.append.mockImplementationOnce((text: string) => {
+      sink.text += text
+      sink.alive = false
+      return true
+    })
+    await pipeTextSource(tokens(['a', 'b', 'c']), sink)
+    expect(sink.text).toBe('a')
+  })
+
+  it('cancels sibling pipes when one of them fails', async () => {
+    async function* failing() {
+      yield 'x'
+      throw new Error('boom')
+    }
+    let released = false
+    async function* endless() {
+      try {
+        while (true) {
+          yield 'y'
+          await new Promise(resolve => setTimeout(resolve, 1))
+        }
+      }
+      finally {
+        released = true
+      }
+    }
+    await expect(pipeTextSources([
+      { source: failing(), sink: createSink() },
+      { source: endless(), sink: createSink() },
+    ])).rejects.toThrow('boom')
+    await new Promise(resolve => setTimeout(resolve, 5))
+    expect(released).toBe(true)
+  })
+})
@@ -49,4 +49,29 @@ describe('createRafScheduler', () => {
       ;(globalThis as any).cancelAnimationFrame = origCancel
     }
   })
+
+  it('reports idle only once frames ran and async tasks settled', async () => {
+    const frames: FrameRequestCallback[] = []
+    const s = createRafScheduler({
+      requestAnimationFrame: (cb) => {
+        frames.push(cb)
+        return frames.length
+      },
+      cancelAnimationFrame: () => {},
+    })
+    expect(s.isIdle()).toBe(true)
+
+    let finish!: () => void
+    s.schedule('append', () => new Promise<void>((resolve) => {
+      finish = resolve
+    }))
+    expect(s.isIdle()).toBe(false)
+    frames[0](0)
+    // The frame ran, but its async task is still in flight.
+    expect(s.isIdle()).toBe(false)
+    finish()
+    await Promise.resolve()
+    await Promise.resolve()
+    expect(s.isIdle()).toBe(true)
+  })
 })
@@ -0,0 +1,258 @@
+import type { ReactTestRenderer } from 'react-test-renderer'
+import { createElement, StrictMode } from 'react'
+import { act, create } from 'react-test-renderer'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { StreamMonaco, StreamMonacoDiff } from '../src/react'
+import { createSupersededError } from '../src/utils/createSuperseded'
+import { installRafMocks, loadUseMonaco } from './editorHarness'
+
+const { instances, control } = vi.hoisted(() => ({
+  instances: [] as any[],
+  control: { holdCreate: false },
+}))
+
+vi.mock('../src/index', async () => {
+  const { isCreateSupersededError } = await import('../src/utils/createSuperseded')
+  return {
+    isCreateSupersededError,
+    useMonaco: (options: any) => {
+      const instance = createFakeMonaco(options)
+      instances.push(instance)
+      return instance
+    },
+  }
+})
+
+function createFakeMonaco(options: any) {
+  const handlers = new Map<string, Set<(payload: unknown) => void>>()
+  let value = ''
+  let current: typeof view | null = null
+  let rejectCreate: ((err: unknown) => void) | null = null
+  const view = {
+    getValue: () => value,
+  }
+  const instance = {
+    options,
+    finishCreate: () => {},
+    typeInto(next: string) {
+      value = next
+      instance.emit('userEdit', { target: 'editor' })
+    },
+    emit(name: string, payload?: unknown) {
+      handlers.get(name)?.forEach(handler => handler(payload))
+    },
+    on: vi.fn((name: string, handler: (payload: unknown) => void) => {
+      if (!handlers.has(name))
+        handlers.set(name, new Set())
+      handlers.get(name)!.add(handler)
+      return () => handlers.get(name)!.delete(handler)
+    }),
+    createEditor: vi.fn((_: unknown, code: string) => createView(code)),
+    createDiffEditor: vi.fn((_: unknown, _original: string, modified: string) =>
+      createView(modified)),
+    getEditorView: () => current,
+    updateCode: vi.fn((code: string) => {
+      value = code
+    }),
+    updateDiff: vi.fn(),
+    setLanguage: vi.fn(),
+    setTheme: vi.fn(async () => {}),
+    cleanupEditor: vi.fn(() => {
+      rejectCreate?.(createSupersededError())
+      rejectCreate = null
+      current = null
+      instance.emit('disposed')
+    }),
+  }
+  function createView(initial: string) {
+    return new Promise<typeof view>((resolve, reject) => {
+      rejectCreate = reject
+      instance.finishCreate = () => {
+        rejectCreate = null
+        value = initial
+        current = view
+        resolve(view)
+      }
+      if (!control.holdCreate)
+        instance.finishCreate()
+    })
+  }
+  return instance
+}
+
+const container = { style: {}, innerHTML: '' }
+
+async function render(element: ReturnType<typeof createElement>) {
+  let renderer!: ReactTestRenderer
+  await act(async () => {
+    renderer = create(element, { createNodeMock: () => container })
+  })
+  return renderer
+}
+
+describe('stream-monaco/react', () => {
+  beforeEach(() => {
+    instances.length = 0
+    control.holdCreate = false
+    vi.stubGlobal('IS_REACT_ACT_ENVIRONMENT', true)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('creates the editor, streams code into updateCode and cleans up on unmount', async () => {
+    const onReady = vi.fn()
+    const onChange = vi.fn()
+    const props = {
+      code: 'const a = 1',
+      language: 'typescript',
+      theme: 'vitesse-dark',
+      options: { readOnly: false },
+      onReady,
+      onChange,
+    }
+    const renderer = await render(createElement(StreamMonaco, props))
+    const [instance] = instances
+    expect(instance.options).toEqual({ readOnly: false, theme: 'vitesse-dark' })
+    expect(instance.createEditor).toHaveBeenCalledWith(container, 'const a = 1', 'typescript')
+    expect(onReady).toHaveBeenCalledTimes(1)
+
+    await act(async () => {
+      renderer.update(createElement(StreamMonaco, { ...props, code: 'const a = 1\nconst b = 2' }))
+    })
+    expect(instance.updateCode).toHaveBeenLastCalledWith('const a = 1\nconst b = 2', 'typescript')
+    expect(onChange).not.toHaveBeenCalled()
+
+    instance.typeInto('const a = 10\nconst b = 2')
+    expect(onChange).toHaveBeenCalledWith('const a = 10\nconst b = 2')
+    await act(async () => {
+      renderer.update(createElement(StreamMonaco, { ...props, code: 'const a = 10\nconst b = 2' }))
+    })
+    // Writing the edit back through `code` does not echo it into the editor.
+    expect(instance.updateCode).toHaveBeenCalledTimes(1)
+
+    await act(async () => {
+      renderer.update(createElement(StreamMonaco, {
+        ...props,
+        code: 'const a = 10\nconst b = 2',
+        language: 'javascript',
+        theme: 'vitesse-light',
+      }))
+    })
+    expect(instance.setLanguage).toHaveBeenCalledWith('javascript')
+    expect(instance.setTheme).toHaveBeenCalledWith('vitesse-light')
+
+    await act(async () => {
+      renderer.unmount()
+    })
+    expect(instance.cleanupEditor).toHaveBeenCalledTimes(1)
+  })
+
+  // react-test-renderer does not replay effects under StrictMode, so this
+  // drives the same sequence by hand: the effect cleanup runs while the
+  // create is pending and rejects it with STREAM_MONACO_CREATE_SUPERSEDED.
+  it('ignores the create superseded by an effect cleanup', async () => {
+    control.holdCreate = true
+    const onReady = vi.fn()
+    const onError = vi.fn()
+    const renderer = await render(createElement(StrictMode, null, createElement(StreamMonaco, {
+      code: 'a',
+      language: 'typescript',
+      onReady,
+      onError,
+    })))
+    const [instance] = instances
+    expect(instance.createEditor).toHaveBeenCalledTimes(1)
+
+    await act(async () => {
+      renderer.unmount()
+    })
+    expect(instance.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+    expect(onReady).not.toHaveBeenCalled()
+  })
+
+  it('forwards useMonaco events to on* props', async () => {
+    const onFlush = vi.fn()
+    const onDisposed = vi.fn()
+    const renderer = await render(createElement(StreamMonaco, {
+      code: '',
+      language: 'typescript',
+      onFlush,
+      onDisposed,
+    }))
+    const [instance] = instances
+    instance.emit('flush', { target: 'editor' })
+    expect(onFlush).toHaveBeenCalledWith({ target: 'editor' })
+
+    await act(async () => {
+      renderer.unmount()
+    })
+    expect(onDisposed).toHaveBeenCalledTimes(1)
+  })
+
+  it('re-applies diff sides that changed while the diff editor was created', async () => {
+    control.holdCreate = true
+    const props = { original: 'a', modified: 'a', language: 'typescript' }
+    const renderer = await render(createElement(StreamMonacoDiff, props))
+    const [instance] = instances
+    await act(async () => {
+      renderer.update(createElement(StreamMonacoDiff, { ...props, modified: 'ab' }))
+    })
+    // useMonaco drops this call; the diff editor does not exist yet.
+    expect(instance.updateDiff).toHaveBeenCalledTimes(1)
+    await act(async () => {
+      instance.finishCreate()
+    })
+    expect(instance.createDiffEditor).toHaveBeenCalledWith(container, 'a', 'a', 'typescript')
+    expect(instance.updateDiff).toHaveBeenCalledTimes(2)
+    expect(instance.updateDiff).toHaveBeenLastCalledWith('a', 'ab', 'typescript')
+  })
+
+  it('does not echo throttled flushes of the real manager back through onChange', async () => {
+    vi.useFakeTimers()
+    installRafMocks()
+    vi.doUnmock('../src/index')
+    const { __getLastEditor } = await loadUseMonaco()
+    const { StreamMonaco: RealStreamMonaco } = await import('../src/react')
+    const onChange = vi.fn()
+    const props = {
+      code: '',
+      language: 'javascript',
+      options: { readOnly: false, updateThrottleMs: 50 },
+      onChange,
+    }
+    const renderer = await render(createElement(RealStreamMonaco, props))
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+
+    // Stream one character per 17ms: the throttled update and append
+    // flushes drift apart, so appends land text older than the prop.
+    const text = 'const a = 1\nconst b = 2'
+    for (let i = 1; i <= text.length; i++) {
+      await act(async () => {
+        renderer.update(createElement(RealStreamMonaco, { ...props, code: text.slice(0, i) }))
+        await vi.advanceTimersByTimeAsync(17)
+      })
+    }
+    await act(async () => {
+      await vi.runAllTimersAsync()
+    })
+    const editor = __getLastEditor()
+    expect(editor.getValue()).toBe(text)
+    expect(onChange).not.toHaveBeenCalled()
+
+    editor.executeEdits('user', [{
+      range: { startLineNumber: 1, startColumn: 12, endLineNumber: 1, endColumn: 12 },
+      text: '0',
+    }])
+    expect(onChange).toHaveBeenCalledWith('const a = 10\nconst b = 2')
+
+    await act(async () => {
+      renderer.unmount()
+    })
+    vi.useRealTimers()
+  })
+})
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const lineHeight = 19
+
+function createFakeElement(tag = 'div'): any {
+  const el: any = {
+    tagName: tag.toUpperCase(),
+    className: '',
+    style: {},
+    children: [] as any[],
+    parentNode: null as any,
+    _html: '',
+    get firstElementChild() {
+      return el.children[0] ?? null
+    },
+    get innerHTML() {
+      return el._html
+    },
+    set innerHTML(value: string) {
+      el._html = value
+      el.children = []
+      const match = value.match(/^<(\w+)/)
+      if (match) {
+        const child = createFakeElement(match[1])
+        child.parentNode = el
+        el.children.push(child)
+      }
+    },
+    appendChild(child: any) {
+      child.parentNode?.removeChild(child)
+      child.parentNode = el
+      el.children.push(child)
+      return child
+    },
+    removeChild(child: any) {
+      el.children = el.children.filter((c: any) => c !== child)
+      child.parentNode = null
+      return child
+    },
+    remove() {
+      el.parentNode?.removeChild(el)
+    },
+  }
+  return el
+}
+
+async function loadUseMonaco(options: { highlighter?: any } = {}) {
+  vi.resetModules()
+
+  const highlighter = 'highlighter' in options ? options.highlighter : {
+    codeToHtml: (code: string, opts: { lang: string, theme: string }) =>
+      `<pre class="shiki ${opts.theme}" data-lang="${opts.lang}"><code>${code}</code></pre>`,
+  }
+  const getOrCreateHighlighter = vi.fn(async () => highlighter)
+
+  vi.doMock('../src/utils/registerMonacoThemes', () => {
+    return {
+      clearHighlighterCache: () => {},
+      getOrCreateHighlighter,
+      registerMonacoThemes: async () => null,
+    }
+  })
+
+  vi.doMock('../src/monaco-shim', () => {
+    const editor = {
+      EditorOption: { lineHeight: 'lineHeight', readOnly: 'readOnly' },
+      setTheme: vi.fn(),
+      create: vi.fn((container: any, opts: any) => {
+        const host = createFakeElement()
+        host.className = 'monaco-editor'
+        container.appendChild(host)
+        const value = opts.value ?? ''
+        return {
+          getValue: () => value,
+          getModel: () => ({
+            getValue: () => value,
+            getLineCount: () => value.split('\n').length,
+          }),
+          getContentHeight: () => value.split('\n').length * lineHeight,
+          getOption: () => lineHeight,
+          getScrollHeight: () => value.split('\n').length * lineHeight,
+          getScrollTop: () => 0,
+          getLayoutInfo: () => ({ height: 500 }),
+          onDidContentSizeChange: () => ({ dispose() {} }),
+          onDidChangeModelContent: () => ({ dispose() {} }),
+          onDidScrollChange: () => ({ dispose() {} }),
+          revealLine: () => {},
+          revealLineInCenterIfOutsideViewport: () => {},
+          setScrollTop: () => {},
+          layout: () => {},
+          dispose: () => {},
+        }
+      }),
+    }
+    return { editor }
+  })
+
+  const mod = await import('../src/index.base')
+  return { useMonaco: mod.useMonaco, getOrCreateHighlighter }
+}
+
+describe('useMonaco renderStatic', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('document', { createElement: (tag: string) => createFakeElement(tag) })
+    vi.stubGlobal('requestAnimationFrame', (cb: any) => {
+      return setTimeout(() => cb(Date.now()), 0) as unknown as number
+    })
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => {
+      clearTimeout(id as unknown as ReturnType<typeof setTimeout>)
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.doUnmock('../src/utils/registerMonacoThemes')
+    vi.doUnmock('../src/monaco-shim')
+  })
+
+  it('paints highlighted html with the editor metrics', async () => {
+    const { useMonaco, getOrCreateHighlighter } = await loadUseMonaco()
+    const { renderStatic } = useMonaco({
+      theme: 'vitesse-light',
+      fontSize: 14,
+      lineHeight,
+      MAX_HEIGHT: 40,
+    })
+    const container = createFakeElement()
+
+    await renderStatic(container, 'const a = 1\nconst b = 2\nconst c = 3', 'typescript')
+
+    expect(getOrCreateHighlighter).toHaveBeenCalledWith(
+      ['vitesse-dark', 'vitesse-light'],
+      ['typescript'],
+    )
+    const host = container.children[0]
+    expect(host.className).toBe('stream-monaco-static')
+    expect(host.innerHTML).toContain('data-lang="typescript"')
+    expect(host.innerHTML).toContain('vitesse-light')
+    const pre = host.firstElementChild
+    expect(pre.style.lineHeight).toBe(`${lineHeight}px`)
+    expect(pre.style.fontSize).toBe('14px')
+    expect(pre.style.margin).toBe('0')
+    // 3 lines at 19px would be 57px, capped by MAX_HEIGHT.
+    expect(container.style.height).toBe('40px')
+    expect(container.style.maxHeight).toBe('40px')
+  })
+
+  it('falls back to escaped plain text when the highlighter is unavailable', async () => {
+    const { useMonaco } = await loadUseMonaco({ highlighter: null })
+    const { renderStatic } = useMonaco({ lineHeight })
+    const container = createFakeElement()
+
+    await renderStatic(container, 'a < b', 'plaintext')
+
+    expect(container.children[0].innerHTML).toBe('<pre class="shiki"><code>a &lt; b</code></pre>')
+    expect(container.style.height).toBe(`${lineHeight}px`)
+  })
+
+  it('lets createEditor take over the container without changing its height', async () => {
+    const { useMonaco } = await loadUseMonaco()
+    const { renderStatic, createEditor } = useMonaco({ lineHeight })
+    const container = createFakeElement()
+    const code = 'line 1\nline 2'
+
+    await renderStatic(container, code, 'typescript')
+    expect(container.style.height).toBe(`${2 * lineHeight}px`)
+
+    await createEditor(container, code, 'typescript')
+
+    expect(container.children.map((c: any) => c.className)).toEqual(['monaco-editor'])
+    expect(container.style.height).toBe(`${2 * lineHeight}px`)
+  })
+
+  it('does not paint when the editor was created before the highlighter resolved', async () => {
+    const { useMonaco, getOrCreateHighlighter } = await loadUseMonaco()
+    let resolveHighlighter!: (value: any) => void
+    getOrCreateHighlighter.mockImplementationOnce(
+      () => new Promise((resolve) => { resolveHighlighter = resolve }),
+    )
+    const { renderStatic, createEditor } = useMonaco({ lineHeight })
+    const container = createFakeElement()
+
+    const pending = renderStatic(container, 'x', 'typescript')
+    await createEditor(container, 'x', 'typescript')
+    resolveHighlighter(null)
+    await pending
+
+    expect(container.children.map((c: any) => c.className)).toEqual(['monaco-editor'])
+  })
+})
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSearchReplaceStream } from '../src/core/searchReplace'
+import {
+  createDiffManager,
+  installRafMocks,
+  waitForAsyncWork,
+} from './diffManagerHarness'
+
+const base = 'const a = 1\nconst b = 2\nexport { a }\n'
+
+const edits = [
+  'Update `b` and export it:',
+  '',
+  '```ts',
+  '<<<<<<< SEARCH',
+  'const b = 2',
+  '=======',
+  'const b = 3',
+  'const c = 4',
+  '>>>>>>> REPLACE',
+  '```',
+  '<<<<<<< SEARCH',
+  'export { a }',
+  '=======',
+  'export { a, b, c }',
+  '>>>>>>> REPLACE',
+  '',
+].join('\n')
+
+const result = 'const a = 1\nconst b = 3\nconst c = 4\nexport { a, b, c }\n'
+
+function chunk(text: string, size: number) {
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += size)
+    chunks.push(text.slice(i, i + size))
+  return chunks
+}
+
+describe('search/replace blocks', () => {
+  it('applies blocks regardless of chunk boundaries and ignores surrounding prose', () => {
+    for (const size of [1, 5, edits.length]) {
+      const stream = createSearchReplaceStream(base)
+      for (const part of chunk(edits, size))
+        stream.push(part)
+      expect(stream.getCode()).toBe(result)
+      expect(stream.getBlocks().map(block => block.status)).toEqual(['applied', 'applied'])
+    }
+  })
+
+  it('streams the replacement into place and reports status transitions', () => {
+    const stream = createSearchReplaceStream(base)
+    expect(stream.push('<<<<<<< SEARCH\nconst b = 2\n').changed).toMatchObject([
+      { index: 0, status: 'pending' },
+    ])
+    expect(stream.getCode()).toBe(base)
+
+    expect(stream.push('=======\nconst b = 3\n')).toEqual({ changed: [], codeChanged: true })
+    expect(stream.getCode()).toBe('const a = 1\nconst b = 3\nexport { a }\n')
+
+    const { changed } = stream.push('>>>>>>> REPLACE\n')
+    expect(changed).toEqual([
+      { index: 0, search: 'const b = 2', replace: 'const b = 3', status: 'applied' },
+    ])
+  })
+
+  it('falls back to whitespace-insensitive matching and flags missing searches', () => {
+    const stream = createSearchReplaceStream('function f() {\n    return 1\n}\n')
+    stream.push([
+      '<<<<<<< SEARCH',
+      '  return 1',
+      '=======',
+      '    return 2',
+      '>>>>>>> REPLACE',
+      '<<<<<<< SEARCH',
+      'return 3',
+      '=======',
+      'return 4',
+      '>>>>>>> REPLACE',
+      '',
+    ].join('\n'))
+
+    expect(stream.getCode()).toBe('function f() {\n    return 2\n}\n')
+    expect(stream.getBlocks().map(block => block.status)).toEqual([
+      'applied',
+      'search-not-found',
+    ])
+  })
+
+  it('shows the replace line still being received', () => {
+    const stream = createSearchReplaceStream('a\nb\nc\n')
+    stream.push('<<<<<<< SEARCH\nb\n=======\n')
+    expect(stream.getCode()).toBe('a\nc\n')
+    expect(stream.push('BB').codeChanged).toBe(true)
+    expect(stream.getCode()).toBe('a\nBB\nc\n')
+    stream.push('B\n>>>>')
+    // Could still be the REPLACE marker, so it is not shown.
+    expect(stream.getCode()).toBe('a\nBBB\nc\n')
+    stream.push('>>> REPLACE\n')
+    expect(stream.getCode()).toBe('a\nBBB\nc\n')
+    expect(stream.getBlocks()[0]).toMatchObject({ replace: 'BBB', status: 'applied' })
+  })
+
+  it('settles the last block when the stream ends', () => {
+    const stream = createSearchReplaceStream('a\nb\nc\n')
+    expect(stream.push('<<<<<<< SEARCH\nb\n=======\nB\n>>>>>>> REPLACE').changed).toEqual([
+      expect.objectContaining({ status: 'pending' }),
+    ])
+    expect(stream.end().changed).toEqual([expect.objectContaining({ index: 0, status: 'applied' })])
+    expect(stream.getCode()).toBe('a\nB\nc\n')
+
+    // A block cut off before its REPLACE marker is not applied.
+    stream.push('<<<<<<< SEARCH\nc\n=======\nhalf')
+    expect(stream.getCode()).toBe('a\nB\nhalf\n')
+    expect(stream.end()).toEqual({
+      changed: [expect.objectContaining({ index: 1, replace: 'half', status: 'incomplete' })],
+      codeChanged: true,
+    })
+    expect(stream.getCode()).toBe('a\nB\nc\n')
+  })
+
+  it('appends to the document when the search section is empty', () => {
+    const stream = createSearchReplaceStream('')
+    stream.push('<<<<<<< SEARCH\n=======\nfirst\nsecond\n>>>>>>> REPLACE\n')
+    expect(stream.getCode()).toBe('first\nsecond')
+  })
+})
+
+describe('search/replace blocks in the diff editor', () => {
+  beforeEach(() => {
+    installRafMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('drives the modified side from streamed blocks', async () => {
+    const onSearchReplaceBlock = vi.fn()
+    const manager = await createDiffManager(base, base, { onSearchReplaceBlock })
+    const { original, modified } = manager.getDiffModels()
+
+    let sawPartialReplace = false
+    for (const part of chunk(edits, 6)) {
+      manager.appendSearchReplaceChunk(part, 'typescript')
+      await waitForAsyncWork()
+      // Mid-block: the replacement is in place, the second block not yet.
+      const value = modified.getValue()
+      if (value.startsWith('const a = 1\nconst b = 3\n') && value.endsWith('\nexport { a }\n'))
+        sawPartialReplace = true
+    }
+    await waitForAsyncWork(80)
+
+    expect(sawPartialReplace).toBe(true)
+    expect(original.getValue()).toBe(base)
+    expect(modified.getValue()).toBe(result)
+    expect(onSearchReplaceBlock.mock.calls.map(([block]) => [block.index, block.status])).toEqual([
+      [0, 'pending'],
+      [0, 'applied'],
+      [1, 'pending'],
+      [1, 'applied'],
+    ])
+    expect(manager.getSearchReplaceBlocks()).toHaveLength(2)
+
+    manager.cleanup()
+    expect(manager.getSearchReplaceBlocks()).toEqual([])
+  })
+
+  it('applies a final REPLACE marker without a newline on endDiffStream', async () => {
+    const onSearchReplaceBlock = vi.fn()
+    const manager = await createDiffManager(base, base, { onSearchReplaceBlock })
+    const { modified } = manager.getDiffModels()
+
+    manager.appendSearchReplaceChunk('<<<<<<< SEARCH\nconst b = 2\n=======\nconst b = 5\n>>>>>>> REPLACE')
+    await waitForAsyncWork()
+    expect(manager.getSearchReplaceBlocks()[0].status).toBe('pending')
+
+    await manager.endStream()
+    await waitForAsyncWork(80)
+    expect(manager.getSearchReplaceBlocks()[0].status).toBe('applied')
+    expect(onSearchReplaceBlock).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'applied' }))
+    expect(modified.getValue()).toBe('const a = 1\nconst b = 5\nexport { a }\n')
+    manager.cleanup()
+  })
+})
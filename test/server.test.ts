@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+async function loadServer(options: { failHighlighter?: boolean } = {}) {
+  vi.resetModules()
+
+  const createHighlighter = vi.fn(async () => {
+    if (options.failHighlighter)
+      throw new Error('no highlighter')
+    return {
+      codeToTokens: (code: string, opts: { lang: string, theme: string }) => ({
+        fg: '#111111',
+        bg: opts.theme.includes('dark') ? '#121212' : '#ffffff',
+        tokens: code.split('\n').map(line => line
+          ? [{ content: line, color: '#ff0000', fontStyle: line.startsWith('//') ? 1 : 0 }]
+          : []),
+      }),
+    }
+  })
+  vi.doMock('shiki', () => ({ createHighlighter }))
+  // Importing the server entry must never pull in Monaco.
+  vi.doMock('../src/monaco-shim', () => {
+    throw new Error('monaco-shim imported from the server entry')
+  })
+
+  const mod = await import('../src/server')
+  return { ...mod, createHighlighter }
+}
+
+describe('stream-monaco/server', () => {
+  afterEach(() => {
+    vi.doUnmock('shiki')
+    vi.doUnmock('../src/monaco-shim')
+  })
+
+  it('renders a code block with the static placeholder markup and metrics', async () => {
+    const { renderCodeToHtml, createHighlighter } = await loadServer()
+
+    const html = await renderCodeToHtml('// a < b\nconst x = 1', 'ts', {
+      theme: 'vitesse-light',
+      fontSize: 14,
+      lineHeight: 20,
+      MAX_HEIGHT: 30,
+    })
+
+    expect(createHighlighter).toHaveBeenCalledWith({
+      themes: ['vitesse-dark', 'vitesse-light'],
+      langs: ['ts'],
+    })
+    expect(html.startsWith('<div class="stream-monaco-static" style="height:30px;max-height:30px;overflow:auto">')).toBe(true)
+    expect(html).toContain('<pre class="shiki vitesse-light"')
+    expect(html).toContain('background-color:#ffffff')
+    expect(html).toContain('line-height:20px')
+    expect(html).toContain('<span class="line"><span style="color:#ff0000;font-style:italic">// a &lt; b</span></span>')
+  })
+
+  it('falls back to escaped plain text when highlighting fails', async () => {
+    const { renderCodeToHtml } = await loadServer({ failHighlighter: true })
+
+    const html = await renderCodeToHtml('<b>', 'unknown', { lineHeight: 19 })
+
+    expect(html).toContain('<span class="line">&lt;b&gt;</span>')
+    expect(html).toContain('height:19px')
+  })
+
+  it('renders a side-by-side diff with the diff chrome classes', async () => {
+    const { renderDiffToHtml } = await loadServer()
+
+    const html = await renderDiffToHtml('a\nb\nc', 'a\nB\nc\nd', 'plaintext', {
+      theme: 'vitesse-dark',
+      lineHeight: 10,
+      diffLineStyle: 'bar',
+    })
+
+    expect(html).toMatch(/^<div class="stream-monaco-diff-root stream-monaco-diff-style-bar stream-monaco-diff-unchanged-style-line-info stream-monaco-diff-side-by-side stream-monaco-diff-appearance-dark"/)
+    expect(html).toContain('--stream-monaco-editor-bg:#121212')
+    expect(html).toContain('height:40px')
+    expect(html).toContain('<div class="editor original"')
+    expect(html).toContain('<span class="line line-delete"><span class="line-numbers line-delete" aria-hidden="true">2</span>')
+    expect(html).toContain('<span class="line line-insert"><span class="line-numbers line-insert" aria-hidden="true">4</span>')
+    expect(html).not.toContain('line-delete" aria-hidden="true">1<')
+  })
+
+  it('interleaves deleted lines in inline mode', async () => {
+    const { renderDiffToHtml } = await loadServer()
+
+    const html = await renderDiffToHtml('a\nb\nc', 'a\nB\nc', 'plaintext', {
+      renderSideBySide: false,
+      diffAppearance: 'light',
+    })
+
+    expect(html).toContain('stream-monaco-diff-inline stream-monaco-diff-appearance-light')
+    expect(html).not.toContain('editor original')
+    const rows = html.match(/<span class="line[^"]*">/g)
+    expect(rows).toEqual([
+      '<span class="line">',
+      '<span class="line line-delete">',
+      '<span class="line line-insert">',
+      '<span class="line">',
+    ])
+  })
+})
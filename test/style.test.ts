@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { acquireStyle, ensureStyleElement } from '../src/utils/style'
+
+class FakeStyleSheet {
+  css = ''
+  replaceSync(css: string) {
+    this.css = css
+  }
+}
+
+class FakeShadowRoot {
+  adoptedStyleSheets: FakeStyleSheet[] = []
+  getElementById() {
+    return null
+  }
+}
+
+function createFakeDocument() {
+  const head: any[] = []
+  const doc = {
+    head: {
+      children: head,
+      appendChild(node: any) {
+        head.push(node)
+        node.remove = () => head.splice(head.indexOf(node), 1)
+      },
+    },
+    getElementById: (id: string) => head.find(node => node.id === id) ?? null,
+    createElement: () => ({ id: '', textContent: '' }),
+  }
+  return doc
+}
+
+function nodeIn(root: unknown) {
+  return { getRootNode: () => root } as unknown as Node
+}
+
+describe('acquireStyle', () => {
+  let doc: ReturnType<typeof createFakeDocument>
+
+  beforeEach(() => {
+    doc = createFakeDocument()
+    vi.stubGlobal('document', doc)
+    vi.stubGlobal('ShadowRoot', FakeShadowRoot)
+    vi.stubGlobal('CSSStyleSheet', FakeStyleSheet)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('adopts one shared sheet per shadow root and drops it with the last holder', () => {
+    const shadow = new FakeShadowRoot()
+    const releaseA = acquireStyle('diff-ui', '.a{}', nodeIn(shadow))
+    const releaseB = acquireStyle('diff-ui', '.a{}', nodeIn(shadow))
+    expect(shadow.adoptedStyleSheets).toHaveLength(1)
+    expect(shadow.adoptedStyleSheets[0].css).toBe('.a{}')
+    expect(doc.head.children).toHaveLength(0)
+
+    releaseA()
+    releaseA()
+    expect(shadow.adoptedStyleSheets).toHaveLength(1)
+    releaseB()
+    expect(shadow.adoptedStyleSheets).toHaveLength(0)
+  })
+
+  it('uses a <style id> in the document head outside shadow roots', () => {
+    const release = acquireStyle('diff-ui', '.a{}', nodeIn(doc))
+    const again = acquireStyle('diff-ui', '.a{}')
+    expect(doc.head.children).toEqual([expect.objectContaining({ id: 'diff-ui', textContent: '.a{}' })])
+    release()
+    expect(doc.head.children).toHaveLength(1)
+    again()
+    expect(doc.head.children).toHaveLength(0)
+  })
+
+  it('leaves a style with the same id it did not add alone', () => {
+    doc.head.appendChild({ id: 'diff-ui', textContent: '/* server */' })
+    const release = acquireStyle('diff-ui', '.a{}')
+    release()
+    expect(doc.head.children).toEqual([expect.objectContaining({ textContent: '/* server */' })])
+  })
+
+  it('sets the CSP nonce on <style> elements it adds', () => {
+    const release = acquireStyle('diff-ui', '.a{}', null, { cspNonce: 'r4nd0m' })
+    expect(doc.head.children).toEqual([expect.objectContaining({ id: 'diff-ui', nonce: 'r4nd0m' })])
+    release()
+  })
+
+  it('adds nothing with injectStyles: false', () => {
+    const shadow = new FakeShadowRoot()
+    const release = acquireStyle('diff-ui', '.a{}', nodeIn(shadow), { injectStyles: false })
+    ensureStyleElement('caret', '.c{}', null, { injectStyles: false })
+    expect(shadow.adoptedStyleSheets).toHaveLength(0)
+    expect(doc.head.children).toHaveLength(0)
+    release()
+  })
+
+  it('ensureStyleElement adds a rule once per root', () => {
+    const shadow = new FakeShadowRoot()
+    ensureStyleElement('caret', '.c{}', nodeIn(shadow))
+    ensureStyleElement('caret', '.c{}', nodeIn(shadow))
+    ensureStyleElement('caret', '.c{}')
+    expect(shadow.adoptedStyleSheets).toHaveLength(1)
+    expect(doc.head.children).toHaveLength(1)
+  })
+})
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest'
+
+vi.mock('../src/monaco-shim', () => ({}))
+
+import {
+  computeMergeRegions,
+  renderMergeRegions,
+} from '../src/core/threeWayMerge'
+
+const base = ['a', 'b', 'c', 'd', 'e', 'f', ''].join('\n')
+const ours = ['a', 'B', 'c', 'd', 'E1', 'f', ''].join('\n')
+const theirs = ['a', 'b', 'c', 'D', 'E2', 'f', 'g', ''].join('\n')
+
+describe('three-way merge', () => {
+  it('takes one-sided changes and reports overlapping ones as conflicts', () => {
+    const regions = computeMergeRegions({ base, ours, theirs })
+    expect(regions).toEqual([
+      { kind: 'stable', lines: ['a'] },
+      { kind: 'ours', lines: ['B'] },
+      { kind: 'stable', lines: ['c'] },
+      { kind: 'conflict', baseIndex: 3, base: ['d', 'e'], ours: ['d', 'E1'], theirs: ['D', 'E2'] },
+      { kind: 'stable', lines: ['f'] },
+      { kind: 'theirs', lines: ['g'] },
+      { kind: 'stable', lines: [''] },
+    ])
+
+    const unresolved = renderMergeRegions(regions, () => 'unresolved')
+    expect(unresolved.text).toBe([
+      'a',
+      'B',
+      'c',
+      '<<<<<<< ours',
+      'd',
+      'E1',
+      '=======',
+      'D',
+      'E2',
+      '>>>>>>> theirs',
+      'f',
+      'g',
+      '',
+    ].join('\n'))
+    expect(unresolved.conflicts).toEqual([{
+      index: 0,
+      resolution: 'unresolved',
+      startLineNumber: 4,
+      endLineNumber: 10,
+      oursLineRange: [5, 6],
+      theirsLineRange: [8, 9],
+    }])
+
+    expect(renderMergeRegions(regions, () => 'theirs').text)
+      .toBe('a\nB\nc\nD\nE2\nf\ng\n')
+    expect(renderMergeRegions(regions, () => 'both').text)
+      .toBe('a\nB\nc\nd\nE1\nD\nE2\nf\ng\n')
+  })
+
+  it('merges identical changes without a conflict', () => {
+    const regions = computeMergeRegions({ base: 'x\n', ours: 'y\n', theirs: 'y\n' })
+    expect(regions.map(region => region.kind)).toEqual(['same', 'stable'])
+    expect(renderMergeRegions(regions, () => 'unresolved').text).toBe('y\n')
+  })
+})
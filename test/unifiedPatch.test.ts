@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest'
+import { computeLineChanges } from '../src/core/diffLineChanges'
+import {
+  applyUnifiedPatch,
+  createUnifiedPatchApplier,
+  createUnifiedPatchStream,
+  formatUnifiedPatch,
+  parseUnifiedPatch,
+} from '../src/core/unifiedPatch'
+
+const original = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n') + '\n'
+
+describe('unified patch helpers', () => {
+  it('parses git-style patches and skips file headers', () => {
+    const hunks = parseUnifiedPatch([
+      'diff --git a/file.ts b/file.ts',
+      'index 123..456 100644',
+      '--- a/file.ts',
+      '+++ b/file.ts',
+      '@@ -2,3 +2,3 @@ function name',
+      ' b',
+      '-c',
+      '+C',
+      ' d',
+      '@@ -8 +8,2 @@',
+      ' h',
+      '+i',
+      '',
+    ].join('\n'))
+
+    expect(hunks).toEqual([
+      {
+        originalStart: 2,
+        originalLength: 3,
+        modifiedStart: 2,
+        modifiedLength: 3,
+        lines: [
+          { type: ' ', text: 'b' },
+          { type: '-', text: 'c' },
+          { type: '+', text: 'C' },
+          { type: ' ', text: 'd' },
+        ],
+      },
+      {
+        originalStart: 8,
+        originalLength: 1,
+        modifiedStart: 8,
+        modifiedLength: 2,
+        lines: [
+          { type: ' ', text: 'h' },
+          { type: '+', text: 'i' },
+        ],
+      },
+    ])
+  })
+
+  it('reconstructs the modified text, including drifted hunks', () => {
+    const patch = [
+      '@@ -2,3 +2,3 @@',
+      ' b',
+      '-c',
+      '+C',
+      ' d',
+      // Header says line 4, the context actually sits at line 6.
+      '@@ -4,2 +4,1 @@',
+      ' f',
+      '-g',
+      '',
+    ].join('\n')
+
+    expect(applyUnifiedPatch(original, patch)).toBe('a\nb\nC\nd\ne\nf\nh\n')
+  })
+
+  it('consumes hunk headers produced by buildDiffHunkMetadataLabel', () => {
+    // `-3,0 +3,2` inserts after original line 3.
+    const patch = '@@ -3,0 +4,2 @@\n+x\n+y\n'
+    expect(applyUnifiedPatch('1\n2\n3\n4\n', patch)).toBe('1\n2\n3\nx\ny\n4\n')
+  })
+
+  it('honours "No newline at end of file" markers', () => {
+    const patch = [
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '\\ No newline at end of file',
+      '+B',
+      '',
+    ].join('\n')
+    expect(applyUnifiedPatch('a\nb', patch)).toBe('a\nB\n')
+    expect(applyUnifiedPatch('', '@@ -0,0 +1 @@\n+new\n\\ No newline at end of file\n')).toBe('new')
+  })
+
+  it('throws when a hunk does not match the original', () => {
+    expect(() => applyUnifiedPatch(original, '@@ -1,1 +1,1 @@\n-zzz\n+a\n'))
+      .toThrow(/does not match/)
+    expect(() => parseUnifiedPatch([
+      '--- a/one',
+      '+++ b/one',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      'diff --git a/two b/two',
+      '',
+    ].join('\n'))).toThrow(/more than one file/)
+  })
+
+  it('applies a still-streaming patch up to its last complete line', () => {
+    const full = '@@ -2,3 +2,4 @@\n b\n-c\n+C1\n+C2\n d\n'
+    const steps = [
+      '@@ -2,3 +2',
+      '@@ -2,3 +2,4 @@\n b\n-c\n+C',
+      '@@ -2,3 +2,4 @@\n b\n-c\n+C1\n',
+      full,
+    ].map(prefix => applyUnifiedPatch(original, prefix, { partial: true }))
+
+    expect(steps[0]).toBe(original)
+    expect(steps[1]).toBe('a\nb\nd\ne\nf\ng\nh\n')
+    expect(steps[2]).toBe('a\nb\nC1\nd\ne\nf\ng\nh\n')
+    expect(steps[3]).toBe(applyUnifiedPatch(original, full))
+    expect(steps[3]).toBe('a\nb\nC1\nC2\nd\ne\nf\ng\nh\n')
+  })
+
+  it('applies a growing patch incrementally with the same result', () => {
+    const patch = [
+      '@@ -1,2 +1,2 @@',
+      '-a',
+      '+A',
+      ' b',
+      '@@ -4,2 +4,3 @@',
+      ' d',
+      '-e',
+      '+E1',
+      '+E2',
+      ' f',
+      '@@ -8 +9 @@',
+      '-h',
+      '+H',
+      '\\ No newline at end of file',
+      '',
+    ].join('\n')
+    const applier = createUnifiedPatchApplier(original)
+    const stream = createUnifiedPatchStream()
+    for (let i = 0; i < patch.length; i++) {
+      stream.push(patch[i])
+      expect(applier.apply(stream.getHunks())).toBe(applyUnifiedPatch(original, patch.slice(0, i + 1), { partial: true }))
+    }
+    expect(applier.apply(stream.getHunks())).toBe('A\nb\nc\nd\nE1\nE2\nf\ng\nH')
+  })
+
+  it('formats line changes like git diff and round-trips through applyUnifiedPatch', () => {
+    const modified = 'a\nB\nc\nd\ne\nf\ng\nh\ni\n'
+    const patch = formatUnifiedPatch(
+      original,
+      modified,
+      computeLineChanges(original, modified),
+      { fileName: 'src/file.ts', contextLines: 1 },
+    )
+
+    expect(patch).toBe([
+      '--- a/src/file.ts',
+      '+++ b/src/file.ts',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '-b',
+      '+B',
+      ' c',
+      '@@ -8,1 +8,2 @@',
+      ' h',
+      '+i',
+      '',
+    ].join('\n'))
+    expect(applyUnifiedPatch(original, patch)).toBe(modified)
+
+    // With more context both changes share one hunk.
+    const merged = formatUnifiedPatch(original, modified, computeLineChanges(original, modified))
+    expect(merged.split('\n').slice(0, 3)).toEqual(['--- original', '+++ modified', '@@ -1,8 +1,9 @@'])
+    expect(applyUnifiedPatch(original, merged)).toBe(modified)
+  })
+
+  it('accepts Monaco-style line changes for pure insertions and deletions', () => {
+    // Monaco marks an empty side with `end = 0` and `start` = the line before.
+    const modified = 'a\nb\nx\nc\nd\ne\nf\nh\n'
+    const patch = formatUnifiedPatch(original, modified, [
+      { originalStartLineNumber: 2, originalEndLineNumber: 0, modifiedStartLineNumber: 3, modifiedEndLineNumber: 3 },
+      { originalStartLineNumber: 7, originalEndLineNumber: 7, modifiedStartLineNumber: 7, modifiedEndLineNumber: 0 },
+    ] as any, { contextLines: 0 })
+
+    expect(patch).toContain('@@ -2,0 +3,1 @@\n+x\n')
+    expect(patch).toContain('@@ -7,1 +7,0 @@\n-g\n')
+    expect(applyUnifiedPatch(original, patch)).toBe(modified)
+
+    // At the top of the file Monaco uses `0,0` for the empty side.
+    const top = formatUnifiedPatch('x\ny\n', 'import z\nx\ny\n', [
+      { originalStartLineNumber: 0, originalEndLineNumber: 0, modifiedStartLineNumber: 1, modifiedEndLineNumber: 1 },
+    ] as any, { contextLines: 0 })
+    expect(top).toContain('@@ -0,0 +1,1 @@\n+import z\n')
+    expect(applyUnifiedPatch('x\ny\n', top)).toBe('import z\nx\ny\n')
+  })
+
+  it('marks a missing final newline on either side', () => {
+    const cases = [
+      ['a\nb', 'a\nb\n'],
+      ['a\nb\n', 'a'],
+      ['', 'new\n'],
+      ['x\ny', 'x\nz'],
+    ]
+    for (const [from, to] of cases) {
+      const patch = formatUnifiedPatch(from, to, computeLineChanges(from, to))
+      expect(applyUnifiedPatch(from, patch)).toBe(to)
+    }
+    expect(formatUnifiedPatch('a\nb', 'a\nb\n', computeLineChanges('a\nb', 'a\nb\n')))
+      .toBe('--- original\n+++ modified\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n')
+    expect(formatUnifiedPatch('same\n', 'same\n', [])).toBe('')
+  })
+
+  it('formats insertions at line 1 and changes at the end of the file', () => {
+    const cases = [
+      ['a\nb\n', 'x\na\nb\n', '@@ -0,0 +1,1 @@\n+x\n'],
+      ['a\nb\n', 'a\nb\n\n\n', '@@ -2,0 +3,2 @@\n+\n+\n'],
+      ['a\nb\n\n\n', 'a\nb\n', '@@ -3,2 +2,0 @@\n-\n-\n'],
+      ['a\nb\n', 'a\nb\n\nc', '@@ -2,0 +3,2 @@\n+\n+c\n\\ No newline at end of file\n'],
+      ['', 'x\n\ny', '@@ -0,0 +1,3 @@\n+x\n+\n+y\n\\ No newline at end of file\n'],
+      ['a\nb', 'a\nb\nc', '@@ -2,1 +2,2 @@\n-b\n\\ No newline at end of file\n+b\n+c\n\\ No newline at end of file\n'],
+    ]
+    for (const [from, to, hunk] of cases) {
+      const patch = formatUnifiedPatch(from, to, computeLineChanges(from, to), { contextLines: 0 })
+      expect(patch).toBe(`--- original\n+++ modified\n${hunk}`)
+      expect(applyUnifiedPatch(from, patch)).toBe(to)
+    }
+  })
+
+  it('round-trips random edits through formatUnifiedPatch and applyUnifiedPatch', () => {
+    // Small seeded generator so failures reproduce.
+    let seed = 42
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648
+      return seed % n
+    }
+    const pieces = ['a', 'b', 'c', '', 'x']
+    const text = () => {
+      const lines = Array.from({ length: random(6) }, () => pieces[random(pieces.length)])
+      return lines.join('\n') + (lines.length && random(2) ? '\n' : '')
+    }
+    // Monaco marks an empty side with `end = 0` instead of `end = start - 1`.
+    const monacoStyle = (changes: ReturnType<typeof computeLineChanges>) => changes.map(change => ({
+      ...change,
+      originalEndLineNumber: change.originalEndLineNumber < change.originalStartLineNumber ? 0 : change.originalEndLineNumber,
+      originalStartLineNumber: change.originalEndLineNumber < change.originalStartLineNumber ? change.originalStartLineNumber - 1 : change.originalStartLineNumber,
+      modifiedEndLineNumber: change.modifiedEndLineNumber < change.modifiedStartLineNumber ? 0 : change.modifiedEndLineNumber,
+      modifiedStartLineNumber: change.modifiedEndLineNumber < change.modifiedStartLineNumber ? change.modifiedStartLineNumber - 1 : change.modifiedStartLineNumber,
+    }))
+
+    for (let i = 0; i < 2000; i++) {
+      const from = text()
+      const to = text()
+      const changes = computeLineChanges(from, to)
+      const patch = formatUnifiedPatch(from, to, random(2) ? monacoStyle(changes) : changes, {
+        contextLines: random(4),
+      })
+      expect(applyUnifiedPatch(from, patch), JSON.stringify({ from, to, patch })).toBe(to)
+    }
+  })
+})
@@ -0,0 +1,258 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createRenderer, defineComponent, h, nextTick, ref } from 'vue'
+import { createSupersededError } from '../src/utils/createSuperseded'
+import { StreamMonaco, StreamMonacoDiff } from '../src/vue'
+import { installRafMocks, loadUseMonaco } from './editorHarness'
+
+const { instances, control } = vi.hoisted(() => ({
+  instances: [] as any[],
+  control: { holdCreate: false },
+}))
+
+vi.mock('../src/index', async () => {
+  const { isCreateSupersededError } = await import('../src/utils/createSuperseded')
+  return {
+    isCreateSupersededError,
+    useMonaco: (options: any) => {
+      const instance = createFakeMonaco(options)
+      instances.push(instance)
+      return instance
+    },
+  }
+})
+
+function createFakeMonaco(options: any) {
+  const handlers = new Map<string, Set<(payload: unknown) => void>>()
+  let value = ''
+  let rejectCreate: ((err: unknown) => void) | null = null
+  const setValue = (next: string) => {
+    value = next
+  }
+  const view = {
+    getValue: () => value,
+  }
+  const instance = {
+    options,
+    finishCreate: () => {},
+    typeInto(next: string) {
+      setValue(next)
+      instance.emit('userEdit', { target: 'editor' })
+    },
+    emit(name: string, payload?: unknown) {
+      handlers.get(name)?.forEach(handler => handler(payload))
+    },
+    on: vi.fn((name: string, handler: (payload: unknown) => void) => {
+      if (!handlers.has(name))
+        handlers.set(name, new Set())
+      handlers.get(name)!.add(handler)
+      return () => handlers.get(name)!.delete(handler)
+    }),
+    createEditor: vi.fn((_: unknown, code: string) => create(() => setValue(code))),
+    createDiffEditor: vi.fn((_: unknown, _original: string, modified: string) =>
+      create(() => setValue(modified))),
+    updateCode: vi.fn((code: string) => setValue(code)),
+    updateDiff: vi.fn(),
+    setLanguage: vi.fn(),
+    setTheme: vi.fn(async () => {}),
+    cleanupEditor: vi.fn(() => {
+      rejectCreate?.(createSupersededError())
+      instance.emit('disposed')
+    }),
+  }
+  function create(apply: () => void) {
+    return new Promise<typeof view>((resolve, reject) => {
+      rejectCreate = reject
+      instance.finishCreate = () => {
+        rejectCreate = null
+        apply()
+        resolve(view)
+      }
+      if (!control.holdCreate)
+        instance.finishCreate()
+    })
+  }
+  return instance
+}
+
+interface TestNode {
+  tag: string
+  parent: TestNode | null
+  children: TestNode[]
+}
+
+const { createApp } = createRenderer<TestNode, TestNode>({
+  createElement: tag => ({ tag, parent: null, children: [] }),
+  createText: () => ({ tag: '#text', parent: null, children: [] }),
+  createComment: () => ({ tag: '#comment', parent: null, children: [] }),
+  setText() {},
+  setElementText() {},
+  patchProp() {},
+  insert(child, parent, anchor) {
+    const index = anchor ? parent.children.indexOf(anchor) : -1
+    if (index < 0)
+      parent.children.push(child)
+    else parent.children.splice(index, 0, child)
+    child.parent = parent
+  },
+  remove(child) {
+    const siblings = child.parent?.children
+    siblings?.splice(siblings.indexOf(child), 1)
+    child.parent = null
+  },
+  parentNode: node => node.parent,
+  nextSibling: (node) => {
+    const siblings = node.parent?.children ?? []
+    return siblings[siblings.indexOf(node) + 1] ?? null
+  },
+})
+
+function mount(render: () => ReturnType<typeof h>) {
+  const app = createApp({ render })
+  app.mount({ tag: 'root', parent: null, children: [] })
+  return app
+}
+
+async function settle() {
+  await nextTick()
+  await Promise.resolve()
+  await nextTick()
+}
+
+describe('stream-monaco/vue', () => {
+  it('streams v-model into updateCode and emits only user edits back', async () => {
+    instances.length = 0
+    control.holdCreate = false
+    const code = ref('const a = 1')
+    const onUpdate = vi.fn((next: string) => {
+      code.value = next
+    })
+    const onReady = vi.fn()
+    const onFlush = vi.fn()
+    const app = mount(() => h(StreamMonaco, {
+      'modelValue': code.value,
+      'language': 'typescript',
+      'theme': 'vitesse-dark',
+      'options': { readOnly: false },
+      'onUpdate:modelValue': onUpdate,
+      'onReady': onReady,
+      'onFlush': onFlush,
+    }))
+    await settle()
+    const [instance] = instances
+    expect(instance.options).toEqual({ readOnly: false, theme: 'vitesse-dark' })
+    expect(instance.createEditor).toHaveBeenCalledWith(
+      expect.anything(),
+      'const a = 1',
+      'typescript',
+    )
+    expect(onReady).toHaveBeenCalledTimes(1)
+
+    code.value = 'const a = 1\nconst b = 2'
+    await settle()
+    expect(instance.updateCode).toHaveBeenLastCalledWith('const a = 1\nconst b = 2', 'typescript')
+    expect(onUpdate).not.toHaveBeenCalled()
+
+    instance.typeInto('const a = 10\nconst b = 2')
+    await settle()
+    expect(onUpdate).toHaveBeenCalledWith('const a = 10\nconst b = 2')
+    // Writing the edit back through v-model does not echo it into the editor.
+    expect(instance.updateCode).toHaveBeenCalledTimes(1)
+
+    instance.emit('flush', { target: 'editor' })
+    expect(onFlush).toHaveBeenCalledWith({ target: 'editor' })
+
+    app.unmount()
+    expect(instance.cleanupEditor).toHaveBeenCalledTimes(1)
+  })
+
+  it('ignores the superseded create of a quick unmount', async () => {
+    instances.length = 0
+    control.holdCreate = true
+    const onError = vi.fn()
+    const onDisposed = vi.fn()
+    const app = mount(() => h(StreamMonaco, {
+      language: 'typescript',
+      onError,
+      onDisposed,
+    }))
+    const [instance] = instances
+    await settle()
+    app.unmount()
+    await settle()
+    expect(instance.cleanupEditor).toHaveBeenCalledTimes(1)
+    expect(onDisposed).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('re-applies diff sides that changed while the diff editor was created', async () => {
+    instances.length = 0
+    control.holdCreate = true
+    const modified = ref('a')
+    mount(() => h(StreamMonacoDiff, {
+      original: 'a',
+      modified: modified.value,
+      language: 'typescript',
+    }))
+    const [instance] = instances
+    await settle()
+    modified.value = 'ab'
+    await settle()
+    // useMonaco drops this call; the diff editor does not exist yet.
+    expect(instance.updateDiff).toHaveBeenCalledTimes(1)
+    instance.finishCreate()
+    await settle()
+    expect(instance.createDiffEditor).toHaveBeenCalledWith(expect.anything(), 'a', 'a', 'typescript')
+    expect(instance.updateDiff).toHaveBeenCalledTimes(2)
+    expect(instance.updateDiff).toHaveBeenLastCalledWith('a', 'ab', 'typescript')
+  })
+
+  it('does not echo throttled flushes of the real manager back as user edits', async () => {
+    vi.useFakeTimers()
+    installRafMocks()
+    vi.doUnmock('../src/index')
+    const { __getLastEditor } = await loadUseMonaco()
+    const { useStreamMonaco } = await import('../src/vue')
+    const code = ref('')
+    const onUserChange = vi.fn((next: string) => {
+      code.value = next
+    })
+    const container = { style: {}, innerHTML: '' } as any
+    let monaco: any
+    const app = mount(() => h(defineComponent({
+      setup() {
+        monaco = useStreamMonaco(container, {
+          code: () => code.value,
+          language: 'javascript',
+          onUserChange,
+        }, { readOnly: false, updateThrottleMs: 50 }).monaco
+        return () => h('div')
+      },
+    })))
+    await vi.runAllTimersAsync()
+
+    // Stream one character per 17ms: the throttled update and append
+    // flushes drift apart, so appends land text older than the prop.
+    const text = 'const a = 1\nconst b = 2'
+    for (let i = 1; i <= text.length; i++) {
+      code.value = text.slice(0, i)
+      await nextTick()
+      await vi.advanceTimersByTimeAsync(17)
+    }
+    await vi.runAllTimersAsync()
+    expect(monaco.getCode()).toBe(text)
+    expect(onUserChange).not.toHaveBeenCalled()
+
+    const editor = __getLastEditor()
+    editor.executeEdits('user', [{
+      range: { startLineNumber: 1, startColumn: 12, endLineNumber: 1, endColumn: 12 },
+      text: '0',
+    }])
+    expect(onUserChange).toHaveBeenCalledWith('const a = 10\nconst b = 2')
+    await vi.runAllTimersAsync()
+    expect(code.value).toBe('const a = 10\nconst b = 2')
+
+    app.unmount()
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+})
@@ -1,8 +1,11 @@
+import { writeFile } from 'node:fs/promises'
+import path from 'node:path'
 import { defineConfig } from 'tsdown'
+import { streamMonacoCss } from './src/core/chromeStyles'
 
 export default defineConfig({
   target: 'node14',
-  entry: ['src/index.ts', 'src/index.legacy.ts'],
+  entry: ['src/index.ts', 'src/index.legacy.ts', 'src/server.ts', 'src/element.ts', 'src/react.ts', 'src/vue.ts'],
   format: ['cjs', 'esm'],
   clean: true,
   dts: true,
@@ -11,4 +14,11 @@ export default defineConfig({
   // keeps the generated CJS/ESM worker URL handling stable; CI validates the
   // browser-facing paths through the example builds and Playwright smoke test.
   platform: 'node',
+  hooks: {
+    // `stream-monaco/diff.css`: the injected chrome styles as a file, for
+    // `injectStyles: false`.
+    'build:done': async ({ options }) => {
+      await writeFile(path.join(options.outDir, 'diff.css'), streamMonacoCss.trimStart())
+    },
+  },
 })